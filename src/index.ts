@@ -1,21 +1,71 @@
 import { Plugin, PluginServerApp } from '@signalk/server-api';
-import { MosquittoPluginConfig, MosquittoCompleteConfig } from './types/interfaces';
+import {
+  MosquittoPluginConfig,
+  MosquittoCompleteConfig,
+  NotificationSettings,
+  AclConfig,
+  LogQuery,
+  BrokerEventQuery,
+  MetricsHistoryQuery,
+  OpenMetricsFamily,
+  ConfigApplyResult,
+  ConfigPreview,
+  ConfigValidationResult,
+  TransactionResult,
+} from './types/interfaces';
 import { MosquittoManagerImpl } from './services/mosquitto-manager';
 import { BridgeManagerImpl } from './services/bridge-manager';
+import { BridgeMonitorImpl } from './services/bridge-monitor';
+import { BridgeKeepaliveImpl } from './services/bridge-keepalive';
+import { BridgePresetManagerImpl } from './services/bridge-preset-manager';
+import { BridgeTesterImpl } from './services/bridge-tester';
+import { SecretStoreImpl } from './services/secret-store';
 import { SecurityManagerImpl } from './services/security-manager';
 import { ProcessMonitorImpl } from './services/process-monitor';
 import { MosquittoInstaller } from './services/mosquitto-installer';
+import { TransactionManagerImpl } from './services/transaction-manager';
+import { HistoryManagerImpl } from './services/history-manager';
+import { LogManagerImpl } from './services/log-manager';
+import { EventManagerImpl } from './services/event-manager';
+import { StatsManagerImpl } from './services/stats-manager';
+import { MetricsRecorderImpl } from './services/metrics-recorder';
+import { SignalKStatusEmitterImpl } from './services/signalk-status-emitter';
+import { NotificationManagerImpl } from './services/notification-manager';
+import { PublisherManagerImpl } from './services/publisher-manager';
+import { IngestionManagerImpl } from './services/ingestion-manager';
 import * as express from 'express';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
 import { FileUtils } from './utils/file-utils';
+import { ValidationUtils } from './utils/validation';
+import { DiffUtils } from './utils/diff-utils';
+import { ListenerUtils } from './utils/listener-utils';
+import { OpenMetricsUtils } from './utils/openmetrics-utils';
+import { SecretUtils } from './utils/secret-utils';
+import { BridgeTopicUtils } from './utils/bridge-topic-utils';
+import { IngestionUtils } from './utils/ingestion-utils';
+
+// The SignalK server's security layer sets skPrincipal on authenticated requests
+interface PrincipalRequest extends express.Request {
+  skPrincipal?: { identifier?: string };
+}
 
 const defaultPluginConfig: MosquittoPluginConfig = {
   enabled: false,
   brokerPort: 1883,
   brokerHost: '0.0.0.0',
   enableSecurity: true,
-  autoStart: true
+  autoStart: true,
+  signalkDeltas: true,
+  signalkPathPrefix: 'network.mqtt.broker',
+  signalkUpdateInterval: 10,
+  notifications: {
+    enabled: true,
+    brokerDown: { state: 'alert', debounceSeconds: 30 },
+    brokerFailed: { state: 'alarm', debounceSeconds: 0 },
+    bridgeDown: { state: 'warn', debounceSeconds: 60 },
+  },
 };
 
 const defaultCompleteConfig: MosquittoCompleteConfig = {
@@ -32,17 +82,33 @@ const defaultCompleteConfig: MosquittoCompleteConfig = {
   tlsCertPath: '',
   tlsKeyPath: '',
   tlsCaPath: '',
+  listeners: [],
   bridges: [],
   users: [],
-  acls: []
+  acls: [],
 };
 
 function plugin(app: PluginServerApp): Plugin {
   let mosquittoManager: MosquittoManagerImpl;
   let bridgeManager: BridgeManagerImpl;
+  let bridgeMonitor: BridgeMonitorImpl;
+  let bridgeKeepalive: BridgeKeepaliveImpl;
+  let bridgePresetManager: BridgePresetManagerImpl;
+  let bridgeTester: BridgeTesterImpl;
+  let secretStore: SecretStoreImpl;
   let securityManager: SecurityManagerImpl;
   let processMonitor: ProcessMonitorImpl;
   let mosquittoInstaller: MosquittoInstaller;
+  let transactionManager: TransactionManagerImpl;
+  let historyManager: HistoryManagerImpl;
+  let logManager: LogManagerImpl;
+  let eventManager: EventManagerImpl;
+  let statsManager: StatsManagerImpl;
+  let metricsRecorder: MetricsRecorderImpl;
+  let statusEmitter: SignalKStatusEmitterImpl | null = null;
+  let notificationManager: NotificationManagerImpl | null = null;
+  let publisherManager: PublisherManagerImpl;
+  let ingestionManager: IngestionManagerImpl;
   let currentPluginConfig: MosquittoPluginConfig;
   let currentCompleteConfig: MosquittoCompleteConfig;
   let configDir: string;
@@ -65,35 +131,45 @@ function plugin(app: PluginServerApp): Plugin {
       const bridgesPath = path.join(getConfigPath(), 'bridges.json');
       const usersPath = path.join(getConfigPath(), 'users.json');
       const aclsPath = path.join(getConfigPath(), 'acls.json');
-      
+
       let savedConfig = {};
       let bridges = [];
       let users = [];
       let acls = [];
-      
+
       if (await fs.pathExists(configPath)) {
         savedConfig = await fs.readJson(configPath);
       }
-      
+
       if (await fs.pathExists(bridgesPath)) {
         bridges = await fs.readJson(bridgesPath);
       }
-      
+
+      // Bridge passwords are kept in the encrypted secret store rather than in bridges.json
+      if (secretStore) {
+        for (const bridge of bridges) {
+          const password = await secretStore.get(SecretUtils.bridgePasswordName(bridge.id));
+          if (password) {
+            bridge.remotePassword = password;
+          }
+        }
+      }
+
       if (await fs.pathExists(usersPath)) {
         users = await fs.readJson(usersPath);
       }
-      
+
       if (await fs.pathExists(aclsPath)) {
         acls = await fs.readJson(aclsPath);
       }
-      
-      return { 
-        ...defaultCompleteConfig, 
-        ...currentPluginConfig, 
+
+      return {
+        ...defaultCompleteConfig,
+        ...currentPluginConfig,
         ...savedConfig,
         bridges,
         users,
-        acls
+        acls,
       };
     } catch (error) {
       console.warn('Failed to load webapp config, using defaults:', error);
@@ -105,8 +181,21 @@ function plugin(app: PluginServerApp): Plugin {
     try {
       await fs.ensureDir(getConfigPath());
       const configPath = getWebappConfigPath();
-      // Only save webapp-managed settings, exclude plugin settings
-      const { enabled, brokerPort, brokerHost, enableSecurity, autoStart, ...webappConfig } = config;
+      // Only save webapp-managed settings, exclude plugin settings and the bridges, users and
+      // ACLs that have stores of their own
+      const webappConfig: Partial<MosquittoCompleteConfig> = { ...config };
+      for (const key of [
+        'enabled',
+        'brokerPort',
+        'brokerHost',
+        'enableSecurity',
+        'autoStart',
+        'bridges',
+        'users',
+        'acls',
+      ] as const) {
+        delete webappConfig[key];
+      }
       await fs.writeJson(configPath, webappConfig, { spaces: 2 });
     } catch (error) {
       console.error('Failed to save webapp config:', error);
@@ -114,22 +203,532 @@ function plugin(app: PluginServerApp): Plugin {
     }
   };
 
-  const reloadCompleteConfig = async (): Promise<void> => {
+  const reloadCompleteConfig = async (): Promise<ConfigApplyResult | null> => {
     try {
       // Reload the complete configuration
       currentCompleteConfig = await loadWebappConfig();
-      
-      // Update managers with new configuration if they exist
+
+      // Bridges may have changed their notification topics or keepalive messages
+      if (bridgeMonitor) {
+        bridgeMonitor.refresh();
+      }
+      if (bridgeKeepalive) {
+        bridgeKeepalive.refresh();
+      }
+
+      // Let the manager decide between a SIGHUP reload and a full restart
       if (mosquittoManager) {
-        // Restart mosquitto to apply new bridge configurations
-        await mosquittoManager.restart();
+        return await mosquittoManager.applyConfig(currentCompleteConfig);
       }
+      return null;
     } catch (error) {
       console.error('Failed to reload complete config:', error);
       throw error;
     }
   };
 
+  const describeApply = (message: string, apply: ConfigApplyResult | null): string => {
+    if (!apply) {
+      return message;
+    }
+    return apply.method === 'reload'
+      ? `${message} (broker reloaded without dropping clients)`
+      : `${message} (broker restarted: ${apply.reason})`;
+  };
+
+  // Snapshots the stores, applies the change and restores the last-known-good state if
+  // the broker does not come back healthy
+  const applyChange = async (
+    req: express.Request,
+    change: () => Promise<void>
+  ): Promise<TransactionResult> => {
+    const result = await transactionManager.execute(change, reloadCompleteConfig);
+
+    if (!result.rolledBack && historyManager) {
+      try {
+        await historyManager.record(
+          `${req.method} ${req.path}`,
+          (req as PrincipalRequest).skPrincipal?.identifier
+        );
+      } catch (error) {
+        console.error('Failed to record configuration history:', error);
+      }
+    }
+
+    return result;
+  };
+
+  const describeRollback = (result: TransactionResult): object => ({
+    error: `Change rolled back: ${result.rollbackReason}. ${
+      result.rollbackError
+        ? `Restoring the previous configuration also failed: ${result.rollbackError}`
+        : 'The previous configuration has been restored.'
+    }`,
+    rolledBack: true,
+    rollbackReason: result.rollbackReason,
+    rollbackError: result.rollbackError,
+    apply: result.apply,
+  });
+
+  // Runs the rendered config through mosquitto's own parser before anything is saved
+  const validateCandidateConfig = async (
+    config: MosquittoCompleteConfig
+  ): Promise<ConfigValidationResult | null> => {
+    if (!mosquittoManager) {
+      return null;
+    }
+    const configContent = await mosquittoManager.generateConfig(config);
+    return await mosquittoManager.validateConfigContent(configContent);
+  };
+
+  const describeValidationFailure = (result: ConfigValidationResult): object => ({
+    error: `Mosquitto rejected the configuration: ${result.errors
+      .map(error => mosquittoManager.formatValidationError(error))
+      .join('; ')}`,
+    validationErrors: result.errors,
+  });
+
+  const isSameAcl = (a: AclConfig, b: AclConfig): boolean => {
+    return (
+      a.username === b.username &&
+      a.clientid === b.clientid &&
+      a.topic === b.topic &&
+      a.access === b.access
+    );
+  };
+
+  const isDryRun = (req: express.Request): boolean => {
+    return req.query.dryRun === 'true' || req.query.dryRun === '1';
+  };
+
+  // Password hashes never leave the server; a short fingerprint still shows which entries change
+  const maskPasswordFile = (content: string): string => {
+    return content
+      .split('\n')
+      .map(line => {
+        const separator = line.indexOf(':');
+        if (separator === -1) {
+          return line;
+        }
+        const fingerprint = crypto
+          .createHash('sha256')
+          .update(line.slice(separator + 1))
+          .digest('hex')
+          .slice(0, 8);
+        return `${line.slice(0, separator)}:******** (${fingerprint})`;
+      })
+      .join('\n');
+  };
+
+  // Renders everything a change would produce and diffs it against the live files.
+  // Nothing is written to disk and the broker is not touched.
+  const previewChange = async (
+    base: MosquittoCompleteConfig,
+    candidate: MosquittoCompleteConfig,
+    itemErrors: string[] = []
+  ): Promise<ConfigPreview> => {
+    const validation = ValidationUtils.validateConfig(candidate);
+    const errors = [...itemErrors, ...validation.errors];
+
+    const configContent = await mosquittoManager.generateConfig(candidate);
+    const configCheck =
+      errors.length === 0
+        ? await mosquittoManager.validateConfigContent(configContent)
+        : { valid: true, errors: [] };
+    errors.push(...configCheck.errors.map(error => mosquittoManager.formatValidationError(error)));
+
+    const liveConfig = await mosquittoManager.getLiveConfig();
+    const liveFiles = await securityManager.readGeneratedFiles();
+    // The security files are only rewritten when their store changes
+    const nextPasswd =
+      JSON.stringify(candidate.users) === JSON.stringify(base.users)
+        ? liveFiles.passwd
+        : securityManager.renderPasswordFile(candidate.users);
+    const nextAcl =
+      JSON.stringify(candidate.acls) === JSON.stringify(base.acls)
+        ? liveFiles.acl
+        : securityManager.renderAclFile(candidate.acls);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: validation.warnings,
+      validationErrors: configCheck.errors,
+      apply: await mosquittoManager.planApply(configContent),
+      diff: {
+        config: DiffUtils.unifiedDiff(
+          SecretUtils.maskConfig(liveConfig),
+          SecretUtils.maskConfig(configContent),
+          'live/mosquitto.conf',
+          'proposed/mosquitto.conf'
+        ),
+        passwd: DiffUtils.unifiedDiff(
+          maskPasswordFile(liveFiles.passwd),
+          maskPasswordFile(nextPasswd),
+          'live/passwd',
+          'proposed/passwd'
+        ),
+        acl: DiffUtils.unifiedDiff(liveFiles.acl, nextAcl, 'live/acl', 'proposed/acl'),
+      },
+    };
+  };
+
+  const sendPreview = async (
+    res: express.Response,
+    buildCandidate: (
+      base: MosquittoCompleteConfig
+    ) => Promise<{ candidate: MosquittoCompleteConfig; errors: string[] }>
+  ): Promise<void> => {
+    if (!mosquittoManager || !securityManager) {
+      res.status(503).json({ error: 'Mosquitto manager not initialized' });
+      return;
+    }
+    const base = await loadWebappConfig();
+    const { candidate, errors } = await buildCandidate(base);
+    res.json(await previewChange(base, candidate, errors));
+  };
+
+  const parseLogQuery = (req: express.Request): LogQuery => {
+    const { level, search, before, after, limit } = req.query;
+    return {
+      level:
+        typeof level === 'string' && ValidationUtils.validateLogLevel(level)
+          ? (level as LogQuery['level'])
+          : undefined,
+      search: typeof search === 'string' && search ? search : undefined,
+      before: typeof before === 'string' && before ? parseInt(before, 10) : undefined,
+      after: typeof after === 'string' && after ? parseInt(after, 10) : undefined,
+      limit: typeof limit === 'string' && limit ? parseInt(limit, 10) : undefined,
+    };
+  };
+
+  const EVENT_TYPES: BrokerEventQuery['type'][] = [
+    'client_connected',
+    'client_disconnected',
+    'auth_failed',
+    'bridge_up',
+    'bridge_down',
+    'socket_error',
+  ];
+
+  const parseEventQuery = (req: express.Request): BrokerEventQuery => {
+    const { type, clientId, bridgeId, since, limit } = req.query;
+    if (type !== undefined && !EVENT_TYPES.includes(type as BrokerEventQuery['type'])) {
+      throw new Error(`Invalid event type: ${type}`);
+    }
+    if (typeof since === 'string' && since && isNaN(Date.parse(since))) {
+      throw new Error(`Invalid since timestamp: ${since}`);
+    }
+    return {
+      type: type as BrokerEventQuery['type'],
+      clientId: typeof clientId === 'string' && clientId ? clientId : undefined,
+      bridgeId: typeof bridgeId === 'string' && bridgeId ? bridgeId : undefined,
+      since: typeof since === 'string' && since ? since : undefined,
+      limit: typeof limit === 'string' && limit ? parseInt(limit, 10) : undefined,
+    };
+  };
+
+  // Accepts epoch milliseconds or anything Date.parse understands
+  const parseTime = (value: unknown, name: string): number | undefined => {
+    if (typeof value !== 'string' || !value) {
+      return undefined;
+    }
+    const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+    if (isNaN(time)) {
+      throw new Error(`Invalid ${name} time: ${value}`);
+    }
+    return time;
+  };
+
+  const parseMetricsQuery = (req: express.Request): MetricsHistoryQuery => {
+    const { metric, from, to, step } = req.query;
+    if (typeof metric !== 'string' || !metric) {
+      throw new Error('metric is required');
+    }
+    const stepSeconds = typeof step === 'string' && step ? parseInt(step, 10) : undefined;
+    if (stepSeconds !== undefined && (isNaN(stepSeconds) || stepSeconds <= 0)) {
+      throw new Error(`Invalid step: ${step}`);
+    }
+    return {
+      metric,
+      from: parseTime(from, 'from'),
+      to: parseTime(to, 'to'),
+      step: stepSeconds,
+    };
+  };
+
+  // Broker $SYS figures, bridge state, process monitor counters and process usage for Prometheus
+  const collectOpenMetrics = async (): Promise<OpenMetricsFamily[]> => {
+    const families: OpenMetricsFamily[] = [];
+    const add = (
+      type: 'counter' | 'gauge',
+      name: string,
+      help: string,
+      value: number | undefined,
+      unit?: string
+    ): void => {
+      if (value !== undefined) {
+        families.push({ name, type, help, unit, samples: [{ value }] });
+      }
+    };
+
+    const pid = await mosquittoManager.getOwnedPid();
+    add(
+      'gauge',
+      'mosquitto_up',
+      'Whether the managed broker process is running',
+      pid !== null ? 1 : 0
+    );
+
+    if (statsManager) {
+      const snapshot = statsManager.getSnapshot();
+      const metrics = statsManager.getMetrics();
+      add(
+        'gauge',
+        'mosquitto_stats_connected',
+        'Whether the plugin is subscribed to the broker $SYS tree',
+        snapshot.connected ? 1 : 0
+      );
+
+      if (metrics.version) {
+        families.push({
+          name: 'mosquitto_build',
+          type: 'info',
+          help: 'Broker version',
+          samples: [{ labels: { version: metrics.version }, value: 1 }],
+        });
+      }
+      add('gauge', 'mosquitto_uptime_seconds', 'Broker uptime', metrics.uptime, 'seconds');
+      add(
+        'gauge',
+        'mosquitto_clients_connected',
+        'Clients currently connected',
+        metrics.clients.connected
+      );
+      add(
+        'gauge',
+        'mosquitto_clients_disconnected',
+        'Persistent clients currently disconnected',
+        metrics.clients.disconnected
+      );
+      add(
+        'gauge',
+        'mosquitto_clients_maximum',
+        'Most clients connected at once',
+        metrics.clients.maximum
+      );
+      add(
+        'gauge',
+        'mosquitto_clients_known',
+        'Connected and disconnected persistent clients',
+        metrics.clients.total
+      );
+      add(
+        'counter',
+        'mosquitto_clients_expired',
+        'Persistent clients expired',
+        metrics.clients.expired
+      );
+      add(
+        'counter',
+        'mosquitto_messages_received',
+        'Messages of any type received',
+        metrics.messages.received
+      );
+      add('counter', 'mosquitto_messages_sent', 'Messages of any type sent', metrics.messages.sent);
+      add(
+        'counter',
+        'mosquitto_publish_messages_received',
+        'PUBLISH messages received',
+        metrics.publish.messagesReceived
+      );
+      add(
+        'counter',
+        'mosquitto_publish_messages_sent',
+        'PUBLISH messages sent',
+        metrics.publish.messagesSent
+      );
+      add(
+        'counter',
+        'mosquitto_publish_messages_dropped',
+        'PUBLISH messages dropped',
+        metrics.publish.messagesDropped
+      );
+      add('counter', 'mosquitto_received_bytes', 'Bytes received', metrics.bytes.received, 'bytes');
+      add('counter', 'mosquitto_sent_bytes', 'Bytes sent', metrics.bytes.sent, 'bytes');
+      add(
+        'counter',
+        'mosquitto_publish_received_bytes',
+        'PUBLISH payload bytes received',
+        metrics.publish.bytesReceived,
+        'bytes'
+      );
+      add(
+        'counter',
+        'mosquitto_publish_sent_bytes',
+        'PUBLISH payload bytes sent',
+        metrics.publish.bytesSent,
+        'bytes'
+      );
+      add('gauge', 'mosquitto_subscriptions', 'Active subscriptions', metrics.subscriptions);
+      add('gauge', 'mosquitto_retained_messages', 'Retained messages', metrics.messages.retained);
+      add(
+        'gauge',
+        'mosquitto_stored_messages',
+        'Messages held in the message store',
+        metrics.messages.stored
+      );
+      add(
+        'gauge',
+        'mosquitto_stored_bytes',
+        'Bytes held in the message store',
+        metrics.bytes.stored,
+        'bytes'
+      );
+      add(
+        'gauge',
+        'mosquitto_inflight_messages',
+        'QoS 1 and 2 messages in flight',
+        metrics.messages.inflight
+      );
+      add('gauge', 'mosquitto_heap_bytes', 'Broker heap in use', metrics.heap.current, 'bytes');
+      add(
+        'gauge',
+        'mosquitto_heap_maximum_bytes',
+        'Largest broker heap in use',
+        metrics.heap.maximum,
+        'bytes'
+      );
+
+      for (const [key, average] of Object.entries(metrics.load)) {
+        if (average) {
+          families.push({
+            name: `mosquitto_load_${key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)}`,
+            type: 'gauge',
+            help: `Moving average per minute of ${key.replace(/[A-Z]/g, c => ` ${c.toLowerCase()}`)}`,
+            samples: [
+              { labels: { interval: '1m' }, value: average.oneMinute },
+              { labels: { interval: '5m' }, value: average.fiveMinutes },
+              { labels: { interval: '15m' }, value: average.fifteenMinutes },
+            ],
+          });
+        }
+      }
+
+      // Labelled with the configured bridge id, which stays the same when the host name changes
+      families.push({
+        name: 'mosquitto_bridge_connected',
+        type: 'gauge',
+        help: 'Whether the bridge connection is up',
+        samples: (bridgeMonitor ? bridgeMonitor.getStatuses() : [])
+          .filter(status => status.state === 'connected' || status.state === 'disconnected')
+          .map(status => ({
+            labels: { bridge: status.bridgeId },
+            value: status.state === 'connected' ? 1 : 0,
+          })),
+      });
+    }
+
+    if (processMonitor) {
+      const monitor = processMonitor.getMonitorStatus();
+      add(
+        'gauge',
+        'mosquitto_monitor_active',
+        'Whether the process monitor is running',
+        monitor.isMonitoring ? 1 : 0
+      );
+      add(
+        'counter',
+        'mosquitto_monitor_restarts',
+        'Broker restarts attempted by the process monitor',
+        monitor.totalRestarts
+      );
+      add(
+        'counter',
+        'mosquitto_monitor_restart_failures',
+        'Process monitor restarts that did not leave a healthy broker',
+        monitor.failedRestarts
+      );
+      add(
+        'gauge',
+        'mosquitto_monitor_restart_attempts',
+        'Restart attempts since the broker was last healthy',
+        monitor.restartAttempts
+      );
+      add(
+        'gauge',
+        'mosquitto_monitor_max_restart_attempts',
+        'Restart attempts allowed before the monitor gives up',
+        monitor.maxRestartAttempts
+      );
+      add(
+        'gauge',
+        'mosquitto_monitor_consecutive_failures',
+        'Consecutive failed status checks',
+        monitor.consecutiveFailures
+      );
+    }
+
+    if (pid !== null) {
+      const resources = await FileUtils.getProcessResources(pid);
+      if (resources) {
+        add(
+          'gauge',
+          'mosquitto_process_resident_memory_bytes',
+          'Broker process resident memory',
+          resources.rssBytes,
+          'bytes'
+        );
+        add(
+          'counter',
+          'mosquitto_process_cpu_seconds',
+          'Broker process user and system CPU time',
+          resources.cpuSeconds,
+          'seconds'
+        );
+      }
+    }
+
+    return families;
+  };
+
+  // Nested notification settings are merged per condition so a partial saved config keeps the defaults
+  const resolveNotificationSettings = (config: MosquittoPluginConfig): NotificationSettings => {
+    const defaults = defaultPluginConfig.notifications as NotificationSettings;
+    const saved: Partial<NotificationSettings> = config.notifications || {};
+    return {
+      enabled: saved.enabled !== undefined ? saved.enabled : defaults.enabled,
+      brokerDown: { ...defaults.brokerDown, ...saved.brokerDown },
+      brokerFailed: { ...defaults.brokerFailed, ...saved.brokerFailed },
+      bridgeDown: { ...defaults.bridgeDown, ...saved.bridgeDown },
+    };
+  };
+
+  const notificationConditionSchema = (
+    title: string,
+    description: string,
+    defaults: { state: string; debounceSeconds: number }
+  ): object => ({
+    type: 'object',
+    title,
+    description,
+    properties: {
+      state: {
+        type: 'string',
+        title: 'Severity',
+        enum: ['alert', 'warn', 'alarm', 'emergency'],
+        default: defaults.state,
+      },
+      debounceSeconds: {
+        type: 'number',
+        title: 'Debounce (seconds)',
+        description: 'How long the condition must last before the notification is raised',
+        default: defaults.debounceSeconds,
+        minimum: 0,
+      },
+    },
+  });
+
   const pluginInstance: Plugin = {
     id: 'signalk-mosquitto',
     name: 'SignalK MQTT Mosquitto Manager',
@@ -142,7 +741,7 @@ function plugin(app: PluginServerApp): Plugin {
           type: 'boolean',
           title: 'Enable Mosquitto Broker',
           description: 'Start/stop the Mosquitto MQTT broker service',
-          default: false
+          default: false,
         },
         brokerPort: {
           type: 'number',
@@ -150,41 +749,155 @@ function plugin(app: PluginServerApp): Plugin {
           description: 'Primary MQTT port for broker connections',
           default: 1883,
           minimum: 1,
-          maximum: 65535
+          maximum: 65535,
         },
         brokerHost: {
           type: 'string',
-          title: 'Bind Address', 
+          title: 'Bind Address',
           description: 'IP address to bind the broker to (0.0.0.0 for all interfaces)',
-          default: '0.0.0.0'
+          default: '0.0.0.0',
         },
         enableSecurity: {
           type: 'boolean',
           title: 'Enable Authentication',
           description: 'Require username/password authentication for connections',
-          default: true
+          default: true,
         },
         autoStart: {
           type: 'boolean',
           title: 'Auto-start on SignalK Start',
           description: 'Automatically start Mosquitto when SignalK server starts',
-          default: true
-        }
-      }
+          default: true,
+        },
+        signalkDeltas: {
+          type: 'boolean',
+          title: 'Publish Broker Status to SignalK',
+          description:
+            'Send broker state, clients, traffic rates, bridge state and certificate expiry as SignalK deltas',
+          default: true,
+        },
+        signalkPathPrefix: {
+          type: 'string',
+          title: 'SignalK Path Prefix',
+          description:
+            'Path under which broker status is published, e.g. network.mqtt.broker.running',
+          default: 'network.mqtt.broker',
+        },
+        signalkUpdateInterval: {
+          type: 'number',
+          title: 'SignalK Update Interval (seconds)',
+          description: 'How often broker status is sent to SignalK',
+          default: 10,
+          minimum: 1,
+          maximum: 3600,
+        },
+        notifications: {
+          type: 'object',
+          title: 'SignalK Notifications',
+          properties: {
+            enabled: {
+              type: 'boolean',
+              title: 'Raise SignalK Notifications',
+              description:
+                'Raise notifications.mqtt.broker and notifications.mqtt.bridge.<id> when the broker or a bridge goes down',
+              default: true,
+            },
+            brokerDown: notificationConditionSchema(
+              'Broker Down',
+              'Broker process stopped or unhealthy',
+              { state: 'alert', debounceSeconds: 30 }
+            ),
+            brokerFailed: notificationConditionSchema(
+              'Broker Failed',
+              'Broker still down after the process monitor used up its restart attempts',
+              { state: 'alarm', debounceSeconds: 0 }
+            ),
+            bridgeDown: notificationConditionSchema(
+              'Bridge Down',
+              'Bridge lost its connection to the remote broker',
+              { state: 'warn', debounceSeconds: 60 }
+            ),
+          },
+        },
+      },
     }),
 
     start: async (config: object): Promise<void> => {
       currentPluginConfig = { ...defaultPluginConfig, ...(config as MosquittoPluginConfig) };
-      
+
       try {
         // Load complete configuration from webapp config file
+        secretStore = new SecretStoreImpl(app);
         currentCompleteConfig = await loadWebappConfig();
-        
+        ValidationUtils.getAuthWarnings(currentCompleteConfig).forEach(warning =>
+          console.warn(`Warning: ${warning}`)
+        );
+
         mosquittoInstaller = new MosquittoInstaller(app);
-        mosquittoManager = new MosquittoManagerImpl(app, currentCompleteConfig);
-        bridgeManager = new BridgeManagerImpl(app, currentCompleteConfig);
+        logManager = new LogManagerImpl(app);
+        eventManager = new EventManagerImpl(app, logManager, () => currentCompleteConfig.bridges);
+        statsManager = new StatsManagerImpl(
+          app,
+          () => ListenerUtils.getLocalEndpoint(currentCompleteConfig),
+          () => currentCompleteConfig.bridges
+        );
+        mosquittoManager = new MosquittoManagerImpl(
+          app,
+          currentCompleteConfig,
+          logManager,
+          statsManager
+        );
+        metricsRecorder = new MetricsRecorderImpl(app, statsManager);
+        bridgeMonitor = new BridgeMonitorImpl(
+          app,
+          () => ListenerUtils.getLocalEndpoint(currentCompleteConfig),
+          () => currentCompleteConfig.bridges,
+          bridgeId => eventManager.getBridgeAddress(bridgeId)
+        );
+        bridgeKeepalive = new BridgeKeepaliveImpl(
+          app,
+          () => ListenerUtils.getLocalEndpoint(currentCompleteConfig),
+          () => currentCompleteConfig.bridges
+        );
+        bridgeManager = new BridgeManagerImpl(
+          app,
+          currentCompleteConfig,
+          secretStore,
+          bridgeMonitor
+        );
+        bridgePresetManager = new BridgePresetManagerImpl(app);
+        bridgeTester = new BridgeTesterImpl(app);
         securityManager = new SecurityManagerImpl(app, currentCompleteConfig);
         processMonitor = new ProcessMonitorImpl(app, mosquittoManager);
+        transactionManager = new TransactionManagerImpl(app, mosquittoManager);
+        historyManager = new HistoryManagerImpl(app, secretStore, bridgeManager);
+        publisherManager = new PublisherManagerImpl(app, () =>
+          ListenerUtils.getLocalEndpoint(currentCompleteConfig)
+        );
+        ingestionManager = new IngestionManagerImpl(app, () =>
+          ListenerUtils.getLocalEndpoint(currentCompleteConfig)
+        );
+        await bridgeManager.migrateSecrets();
+        try {
+          await historyManager.scrubSecrets();
+        } catch (error) {
+          console.error('Failed to remove passwords from configuration history:', error);
+        }
+        await logManager.start();
+        eventManager.start();
+        await metricsRecorder.start();
+
+        if (currentPluginConfig.signalkDeltas) {
+          statusEmitter = new SignalKStatusEmitterImpl(
+            app,
+            mosquittoManager,
+            statsManager,
+            bridgeMonitor,
+            () => currentCompleteConfig,
+            currentPluginConfig.signalkPathPrefix || '',
+            Math.max(currentPluginConfig.signalkUpdateInterval || 10, 1) * 1000
+          );
+        }
 
         if (currentPluginConfig.enabled && currentPluginConfig.autoStart) {
           const isInstalled = await mosquittoInstaller.isInstalled();
@@ -196,11 +909,41 @@ function plugin(app: PluginServerApp): Plugin {
           console.log('Starting Mosquitto broker...');
           await mosquittoManager.start();
           processMonitor.start();
-          
+          statsManager.start();
+          bridgeMonitor.start();
+          bridgeKeepalive.start();
+
           console.log('Mosquitto broker running');
         } else {
           console.log('Mosquitto broker disabled or auto-start disabled');
         }
+
+        if (statusEmitter) {
+          statusEmitter.start();
+        }
+
+        const notificationSettings = resolveNotificationSettings(currentPluginConfig);
+        if (notificationSettings.enabled) {
+          notificationManager = new NotificationManagerImpl(
+            app,
+            processMonitor,
+            statsManager,
+            bridgeMonitor,
+            notificationSettings
+          );
+          notificationManager.start();
+        }
+
+        await publisherManager.start();
+        await ingestionManager.start();
+
+        // Baseline revision so the first change made through the API can be undone,
+        // and a record of any edits made to the stores while the plugin was stopped
+        try {
+          await historyManager.recordIfChanged('startup');
+        } catch (error) {
+          console.error('Failed to record startup configuration revision:', error);
+        }
       } catch (error) {
         console.error(`Failed to start Mosquitto: ${(error as Error).message}`);
         throw error;
@@ -212,9 +955,41 @@ function plugin(app: PluginServerApp): Plugin {
         if (processMonitor) {
           processMonitor.stop();
         }
+        if (publisherManager) {
+          publisherManager.stop();
+        }
+        if (ingestionManager) {
+          ingestionManager.stop();
+        }
+        if (notificationManager) {
+          notificationManager.stop();
+          notificationManager = null;
+        }
+        if (statusEmitter) {
+          statusEmitter.stop();
+          statusEmitter = null;
+        }
+        if (metricsRecorder) {
+          await metricsRecorder.stop();
+        }
+        if (bridgeKeepalive) {
+          bridgeKeepalive.stop();
+        }
+        if (bridgeMonitor) {
+          bridgeMonitor.stop();
+        }
+        if (statsManager) {
+          statsManager.stop();
+        }
         if (mosquittoManager) {
           await mosquittoManager.stop();
         }
+        if (eventManager) {
+          eventManager.stop();
+        }
+        if (logManager) {
+          logManager.stop();
+        }
         console.log('Mosquitto plugin stopped');
       } catch (error) {
         console.error(`Error stopping Mosquitto: ${(error as Error).message}`);
@@ -222,7 +997,6 @@ function plugin(app: PluginServerApp): Plugin {
       }
     },
 
-
     registerWithRouter: (router: express.Router): void => {
       // Serve the main web interface at the root of the plugin path
       router.get('/', (_req, res) => {
@@ -235,8 +1009,15 @@ function plugin(app: PluginServerApp): Plugin {
           if (!mosquittoManager) {
             return res.status(503).json({ error: 'Mosquitto manager not initialized' });
           }
-          
+
           const status = await mosquittoManager.getStatus();
+          if (eventManager) {
+            status.clients = eventManager.getConnectedClients();
+            status.events = eventManager.getSummary();
+          }
+          if (bridgeMonitor) {
+            status.bridges = bridgeMonitor.getStatuses();
+          }
           res.json(status);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -249,7 +1030,7 @@ function plugin(app: PluginServerApp): Plugin {
           if (!mosquittoManager) {
             return res.status(503).json({ error: 'Mosquitto manager not initialized' });
           }
-          
+
           await mosquittoManager.restart();
           res.json({ success: true, message: 'Mosquitto broker restarted' });
         } catch (error) {
@@ -263,24 +1044,90 @@ function plugin(app: PluginServerApp): Plugin {
           if (!bridgeManager) {
             return res.status(503).json({ error: 'Bridge manager not initialized' });
           }
-          
+
           const bridges = await bridgeManager.getBridges();
-          res.json(bridges);
+          res.json(bridges.map(bridge => SecretUtils.maskBridge(bridge)));
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(500).json({ error: errorMessage });
         }
       });
 
-      router.post('/bridges/test', async (req, res) => {
+      router.get('/bridges/:bridgeId/status', async (req, res) => {
         try {
           if (!bridgeManager) {
             return res.status(503).json({ error: 'Bridge manager not initialized' });
           }
-          
-          const bridge = req.body;
-          const isConnected = await bridgeManager.testBridgeConnection(bridge);
-          res.json({ connected: isConnected });
+
+          res.json(await bridgeManager.getBridgeStatus(req.params.bridgeId));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(404).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/bridges/presets', async (_req, res) => {
+        try {
+          if (!bridgePresetManager) {
+            return res.status(503).json({ error: 'Bridge preset manager not initialized' });
+          }
+
+          res.json(await bridgePresetManager.getPresets());
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      // Fills a bridge from a preset and its parameters without saving it
+      router.post('/bridges/presets/:presetId', async (req, res) => {
+        try {
+          if (!bridgePresetManager) {
+            return res.status(503).json({ error: 'Bridge preset manager not initialized' });
+          }
+
+          res.json(await bridgePresetManager.applyPreset(req.params.presetId, req.body || {}));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(404).json({ error: errorMessage });
+        }
+      });
+
+      router.post('/bridges/test', async (req, res) => {
+        try {
+          if (!bridgeManager || !bridgeTester) {
+            return res.status(503).json({ error: 'Bridge manager not initialized' });
+          }
+
+          const bridge = await bridgeManager.resolveSecrets(req.body, req.body.id);
+          if (!bridge.remoteHost || !ValidationUtils.isValidPort(bridge.remotePort)) {
+            return res.status(400).json({ error: 'Remote host and port are required' });
+          }
+
+          const report = await bridgeTester.testBridge({ ...bridge, topics: bridge.topics || [] });
+          res.json(report);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.post('/bridges/simulate', async (req, res) => {
+        try {
+          const { bridge, side, topic } = req.body || {};
+          if (!bridge || !Array.isArray(bridge.topics)) {
+            return res.status(400).json({ error: 'A bridge with topics is required' });
+          }
+          if (side !== 'local' && side !== 'remote') {
+            return res.status(400).json({ error: "Side must be 'local' or 'remote'" });
+          }
+          if (!BridgeTopicUtils.isValidTopicName(topic)) {
+            return res
+              .status(400)
+              .json({ error: 'Sample topic must be a topic name without wildcards' });
+          }
+
+          res.json(BridgeTopicUtils.simulate(bridge, side, topic));
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(500).json({ error: errorMessage });
@@ -292,11 +1139,42 @@ function plugin(app: PluginServerApp): Plugin {
           if (!bridgeManager) {
             return res.status(503).json({ error: 'Bridge manager not initialized' });
           }
-          
-          const bridge = req.body;
-          await bridgeManager.addBridge(bridge);
-          await reloadCompleteConfig();
-          res.json({ success: true, message: 'Bridge added successfully' });
+
+          const bridge = await bridgeManager.resolveSecrets(req.body);
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, bridges: [...base.bridges, bridge] },
+              errors: base.bridges.some(b => b.id === bridge.id)
+                ? [`Bridge with ID '${bridge.id}' already exists`]
+                : [],
+            }));
+          }
+
+          const bridgeErrors = ValidationUtils.validateBridge(bridge);
+          if (bridgeErrors.length > 0) {
+            return res
+              .status(400)
+              .json({ error: `Bridge validation failed: ${bridgeErrors.join(', ')}` });
+          }
+
+          const existingBridges = await bridgeManager.getBridges();
+          const configCheck = await validateCandidateConfig({
+            ...currentCompleteConfig,
+            bridges: [...existingBridges, bridge],
+          });
+          if (configCheck && !configCheck.valid) {
+            return res.status(400).json(describeValidationFailure(configCheck));
+          }
+
+          const result = await applyChange(req, () => bridgeManager.addBridge(bridge));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('Bridge added successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -308,12 +1186,50 @@ function plugin(app: PluginServerApp): Plugin {
           if (!bridgeManager) {
             return res.status(503).json({ error: 'Bridge manager not initialized' });
           }
-          
+
           const { bridgeId } = req.params;
-          const bridge = req.body;
-          await bridgeManager.updateBridge(bridgeId, bridge);
-          await reloadCompleteConfig();
-          res.json({ success: true, message: 'Bridge updated successfully' });
+          const bridge = await bridgeManager.resolveSecrets(req.body, bridgeId);
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: {
+                ...base,
+                bridges: base.bridges.map(b =>
+                  b.id === bridgeId ? { ...bridge, id: bridgeId } : b
+                ),
+              },
+              errors: base.bridges.some(b => b.id === bridgeId)
+                ? []
+                : [`Bridge with ID '${bridgeId}' not found`],
+            }));
+          }
+
+          const bridgeErrors = ValidationUtils.validateBridge(bridge);
+          if (bridgeErrors.length > 0) {
+            return res
+              .status(400)
+              .json({ error: `Bridge validation failed: ${bridgeErrors.join(', ')}` });
+          }
+
+          const existingBridges = await bridgeManager.getBridges();
+          const configCheck = await validateCandidateConfig({
+            ...currentCompleteConfig,
+            bridges: existingBridges.map(b =>
+              b.id === bridgeId ? { ...bridge, id: bridgeId } : b
+            ),
+          });
+          if (configCheck && !configCheck.valid) {
+            return res.status(400).json(describeValidationFailure(configCheck));
+          }
+
+          const result = await applyChange(req, () => bridgeManager.updateBridge(bridgeId, bridge));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('Bridge updated successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -325,23 +1241,178 @@ function plugin(app: PluginServerApp): Plugin {
           if (!bridgeManager) {
             return res.status(503).json({ error: 'Bridge manager not initialized' });
           }
-          
+
           const { bridgeId } = req.params;
-          await bridgeManager.removeBridge(bridgeId);
-          await reloadCompleteConfig();
-          res.json({ success: true, message: 'Bridge deleted successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, bridges: base.bridges.filter(b => b.id !== bridgeId) },
+              errors: base.bridges.some(b => b.id === bridgeId)
+                ? []
+                : [`Bridge with ID '${bridgeId}' not found`],
+            }));
+          }
+
+          const result = await applyChange(req, () => bridgeManager.removeBridge(bridgeId));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('Bridge deleted successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
         }
       });
 
+      router.get('/publisher/rules', async (_req, res) => {
+        try {
+          if (!publisherManager) {
+            return res.status(503).json({ error: 'Publisher manager not initialized' });
+          }
+
+          res.json(publisherManager.getRules());
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.post('/publisher/rules', async (req, res) => {
+        try {
+          if (!publisherManager) {
+            return res.status(503).json({ error: 'Publisher manager not initialized' });
+          }
+
+          const rule = await publisherManager.addRule(req.body);
+          res.json({ success: true, message: 'Publisher rule added successfully', rule });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.put('/publisher/rules/:ruleId', async (req, res) => {
+        try {
+          if (!publisherManager) {
+            return res.status(503).json({ error: 'Publisher manager not initialized' });
+          }
+
+          const rule = await publisherManager.updateRule(req.params.ruleId, req.body);
+          res.json({ success: true, message: 'Publisher rule updated successfully', rule });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.delete('/publisher/rules/:ruleId', async (req, res) => {
+        try {
+          if (!publisherManager) {
+            return res.status(503).json({ error: 'Publisher manager not initialized' });
+          }
+
+          await publisherManager.removeRule(req.params.ruleId);
+          res.json({ success: true, message: 'Publisher rule deleted successfully' });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/publisher/status', async (_req, res) => {
+        try {
+          if (!publisherManager) {
+            return res.status(503).json({ error: 'Publisher manager not initialized' });
+          }
+
+          res.json(publisherManager.getStatus());
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/ingestion/mappings', async (_req, res) => {
+        try {
+          if (!ingestionManager) {
+            return res.status(503).json({ error: 'Ingestion manager not initialized' });
+          }
+
+          res.json(ingestionManager.getMappings());
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.post('/ingestion/mappings', async (req, res) => {
+        try {
+          if (!ingestionManager) {
+            return res.status(503).json({ error: 'Ingestion manager not initialized' });
+          }
+
+          const mapping = await ingestionManager.addMapping(req.body);
+          res.json({ success: true, message: 'Ingestion mapping added successfully', mapping });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.put('/ingestion/mappings/:mappingId', async (req, res) => {
+        try {
+          if (!ingestionManager) {
+            return res.status(503).json({ error: 'Ingestion manager not initialized' });
+          }
+
+          const mapping = await ingestionManager.updateMapping(req.params.mappingId, req.body);
+          res.json({ success: true, message: 'Ingestion mapping updated successfully', mapping });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.delete('/ingestion/mappings/:mappingId', async (req, res) => {
+        try {
+          if (!ingestionManager) {
+            return res.status(503).json({ error: 'Ingestion manager not initialized' });
+          }
+
+          await ingestionManager.removeMapping(req.params.mappingId);
+          res.json({ success: true, message: 'Ingestion mapping deleted successfully' });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/ingestion/status', async (_req, res) => {
+        try {
+          if (!ingestionManager) {
+            return res.status(503).json({ error: 'Ingestion manager not initialized' });
+          }
+
+          res.json(ingestionManager.getStatus());
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/ingestion/conversions', (_req, res) => {
+        res.json(IngestionUtils.getUnitConversions());
+      });
+
       router.get('/monitoring', async (_req, res) => {
         try {
           if (!mosquittoManager) {
             return res.status(503).json({ error: 'Mosquitto manager not initialized' });
           }
-          
+
           const monitoring = await mosquittoManager.getMonitoringMetrics();
           res.json(monitoring);
         } catch (error) {
@@ -356,7 +1427,7 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const users = await securityManager.getUsers();
           res.json(users);
         } catch (error) {
@@ -370,10 +1441,34 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const user = req.body;
-          await securityManager.addUser(user);
-          res.json({ success: true, message: 'User added successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => {
+              const errors = ValidationUtils.validateUser(user);
+              if (base.users.some(u => u.username === user.username)) {
+                errors.push(`User '${user.username}' already exists`);
+              }
+              const password =
+                typeof user.password === 'string'
+                  ? await securityManager.hashPassword(user.password)
+                  : user.password;
+              return {
+                candidate: { ...base, users: [...base.users, { ...user, password }] },
+                errors,
+              };
+            });
+          }
+
+          const result = await applyChange(req, () => securityManager.addUser(user));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('User added successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -385,11 +1480,40 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const { username } = req.params;
           const user = req.body;
-          await securityManager.updateUser(username, user);
-          res.json({ success: true, message: 'User updated successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => {
+              const errors = ValidationUtils.validateUser({ ...user, username });
+              if (!base.users.some(u => u.username === username)) {
+                errors.push(`User '${username}' not found`);
+              }
+              const password =
+                typeof user.password === 'string'
+                  ? await securityManager.hashPassword(user.password)
+                  : user.password;
+              return {
+                candidate: {
+                  ...base,
+                  users: base.users.map(u =>
+                    u.username === username ? { ...user, username, password } : u
+                  ),
+                },
+                errors,
+              };
+            });
+          }
+
+          const result = await applyChange(req, () => securityManager.updateUser(username, user));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('User updated successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -401,10 +1525,26 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const { username } = req.params;
-          await securityManager.removeUser(username);
-          res.json({ success: true, message: 'User deleted successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, users: base.users.filter(u => u.username !== username) },
+              errors: base.users.some(u => u.username === username)
+                ? []
+                : [`User '${username}' not found`],
+            }));
+          }
+
+          const result = await applyChange(req, () => securityManager.removeUser(username));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('User deleted successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -417,7 +1557,7 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const acls = await securityManager.getAcls();
           res.json(acls);
         } catch (error) {
@@ -431,10 +1571,26 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const acl = req.body;
-          await securityManager.addAcl(acl);
-          res.json({ success: true, message: 'ACL rule added successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, acls: [...base.acls, acl] },
+              errors: base.acls.some(a => isSameAcl(a, acl))
+                ? ['Identical ACL rule already exists']
+                : [],
+            }));
+          }
+
+          const result = await applyChange(req, () => securityManager.addAcl(acl));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('ACL rule added successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -446,10 +1602,24 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           const acl = req.body;
-          await securityManager.removeAcl(acl);
-          res.json({ success: true, message: 'ACL rule deleted successfully' });
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, acls: base.acls.filter(a => !isSameAcl(a, acl)) },
+              errors: base.acls.some(a => isSameAcl(a, acl)) ? [] : ['ACL rule not found'],
+            }));
+          }
+
+          const result = await applyChange(req, () => securityManager.removeAcl(acl));
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply('ACL rule deleted successfully', result.apply),
+            apply: result.apply,
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(400).json({ error: errorMessage });
@@ -462,7 +1632,7 @@ function plugin(app: PluginServerApp): Plugin {
           if (!securityManager) {
             return res.status(503).json({ error: 'Security manager not initialized' });
           }
-          
+
           await securityManager.generateCertificates();
           res.json({ success: true, message: 'Self-signed certificates generated successfully' });
         } catch (error) {
@@ -474,9 +1644,14 @@ function plugin(app: PluginServerApp): Plugin {
       // Configuration management routes
       router.get('/config', async (_req, res) => {
         try {
-          // Return complete configuration for webapp management
+          // Return complete configuration for webapp management, with older single-listener
+          // settings expanded so the listener editor always has something to show
           const completeConfig = await loadWebappConfig();
-          res.json(completeConfig);
+          res.json({
+            ...completeConfig,
+            listeners: ListenerUtils.resolveListeners(completeConfig),
+            bridges: completeConfig.bridges.map(bridge => SecretUtils.maskBridge(bridge)),
+          });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(500).json({ error: errorMessage });
@@ -485,26 +1660,247 @@ function plugin(app: PluginServerApp): Plugin {
 
       router.post('/config', async (req, res) => {
         try {
-          const newConfig = { ...currentCompleteConfig, ...req.body };
-          
+          if (isDryRun(req)) {
+            return await sendPreview(res, async base => ({
+              candidate: { ...base, ...req.body, bridges: base.bridges },
+              errors: [],
+            }));
+          }
+
+          // Bridges are managed through /bridges; the copy sent here has masked passwords
+          const newConfig = {
+            ...currentCompleteConfig,
+            ...req.body,
+            bridges: currentCompleteConfig.bridges,
+          };
+
           // Validate the configuration
-          const validation = require('./utils/validation').ValidationUtils.validateConfig(newConfig);
+          const validation = ValidationUtils.validateConfig(newConfig);
           if (!validation.valid) {
-            return res.status(400).json({ error: `Configuration validation failed: ${validation.errors.join(', ')}` });
+            return res
+              .status(400)
+              .json({ error: `Configuration validation failed: ${validation.errors.join(', ')}` });
           }
 
-          // Save webapp-managed configuration
-          await saveWebappConfig(newConfig);
-          
-          // Update current complete configuration
-          currentCompleteConfig = newConfig;
-          
-          // Apply configuration changes to services (without restarting plugin)
-          if (mosquittoManager) {
-            await mosquittoManager.restart();
+          const configCheck = await validateCandidateConfig(newConfig);
+          if (configCheck && !configCheck.valid) {
+            return res.status(400).json(describeValidationFailure(configCheck));
+          }
+
+          // Save webapp-managed configuration and apply it to the broker
+          // (without restarting plugin)
+          let apply: ConfigApplyResult | null = null;
+          if (transactionManager) {
+            const result = await applyChange(req, () => saveWebappConfig(newConfig));
+            if (result.rolledBack) {
+              return res.status(500).json(describeRollback(result));
+            }
+            apply = result.apply;
+          } else {
+            await saveWebappConfig(newConfig);
+            currentCompleteConfig = newConfig;
+            if (bridgeMonitor) {
+              bridgeMonitor.refresh();
+            }
+            if (bridgeKeepalive) {
+              bridgeKeepalive.refresh();
+            }
+          }
+
+          res.json({
+            success: true,
+            message: describeApply('Configuration saved successfully', apply),
+            apply,
+            warnings: validation.warnings,
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      // Configuration history routes
+      router.get('/history', async (_req, res) => {
+        try {
+          if (!historyManager) {
+            return res.status(503).json({ error: 'History manager not initialized' });
           }
-          
-          res.json({ success: true, message: 'Configuration saved successfully' });
+
+          const revisions = await historyManager.listRevisions();
+          res.json(revisions);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/history/diff', async (req, res) => {
+        try {
+          if (!historyManager) {
+            return res.status(503).json({ error: 'History manager not initialized' });
+          }
+
+          const { from, to } = req.query;
+          if (typeof from !== 'string' || typeof to !== 'string') {
+            return res.status(400).json({ error: 'Both from and to revision IDs are required' });
+          }
+
+          const diff = await historyManager.diff(from, to);
+          res.json(diff);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(404).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/history/:revisionId', async (req, res) => {
+        try {
+          if (!historyManager) {
+            return res.status(503).json({ error: 'History manager not initialized' });
+          }
+
+          const revision = await historyManager.getRevision(req.params.revisionId);
+          res.json({ ...revision, state: SecretUtils.maskRevisionState(revision.state) });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(404).json({ error: errorMessage });
+        }
+      });
+
+      router.post('/history/:revisionId/rollback', async (req, res) => {
+        try {
+          if (!historyManager || !securityManager) {
+            return res.status(503).json({ error: 'History manager not initialized' });
+          }
+
+          const { revisionId } = req.params;
+          const result = await applyChange(req, async () => {
+            await historyManager.restoreRevision(revisionId);
+            await securityManager.regenerateFiles();
+          });
+          if (result.rolledBack) {
+            return res.status(500).json(describeRollback(result));
+          }
+          res.json({
+            success: true,
+            message: describeApply(`Rolled back to revision ${revisionId}`, result.apply),
+            apply: result.apply,
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(400).json({ error: errorMessage });
+        }
+      });
+
+      // Broker log routes
+      router.get('/logs', async (req, res) => {
+        try {
+          if (!logManager) {
+            return res.status(503).json({ error: 'Log manager not initialized' });
+          }
+
+          res.json(logManager.getEntries(parseLogQuery(req)));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      router.get('/logs/stream', (req, res) => {
+        if (!logManager) {
+          return res.status(503).json({ error: 'Log manager not initialized' });
+        }
+
+        const { level, search, after } = parseLogQuery(req);
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+
+        const send = (entry: { id: number }): void => {
+          res.write(`id: ${entry.id}\nevent: log\ndata: ${JSON.stringify(entry)}\n\n`);
+        };
+
+        // Replay anything newer than the client's last entry: `after` from the initial page,
+        // or the Last-Event-ID header EventSource sends when it reconnects
+        const lastEventId = parseInt(req.header('Last-Event-ID') || '', 10);
+        const replayAfter = !isNaN(lastEventId) ? lastEventId : after;
+        if (replayAfter !== undefined && !isNaN(replayAfter)) {
+          logManager
+            .getEntries({ level, search, after: replayAfter, limit: 1000 })
+            .entries.forEach(send);
+        }
+
+        const unsubscribe = logManager.subscribe(entry => {
+          if (logManager.matches(entry, { level, search })) {
+            send(entry);
+          }
+        });
+        const heartbeat = setInterval(() => res.write(': keepalive\n\n'), 15000);
+
+        req.on('close', () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        });
+      });
+
+      // Broker event routes
+      router.get('/events', async (req, res) => {
+        try {
+          if (!eventManager) {
+            return res.status(503).json({ error: 'Event manager not initialized' });
+          }
+
+          let query: BrokerEventQuery;
+          try {
+            query = parseEventQuery(req);
+          } catch (error) {
+            return res.status(400).json({ error: (error as Error).message });
+          }
+
+          res.json(eventManager.getEvents(query));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      // Prometheus / OpenMetrics scrape endpoint
+      router.get('/metrics', async (_req, res) => {
+        try {
+          if (!mosquittoManager) {
+            return res.status(503).json({ error: 'Mosquitto manager not initialized' });
+          }
+
+          const body = OpenMetricsUtils.render(await collectOpenMetrics());
+          res.set('Content-Type', OpenMetricsUtils.CONTENT_TYPE);
+          res.send(body);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          res.status(500).json({ error: errorMessage });
+        }
+      });
+
+      // Metrics history routes
+      router.get('/metrics/history', async (req, res) => {
+        try {
+          if (!metricsRecorder) {
+            return res.status(503).json({ error: 'Metrics recorder not initialized' });
+          }
+
+          let history;
+          try {
+            history = metricsRecorder.getHistory(parseMetricsQuery(req));
+          } catch (error) {
+            return res.status(400).json({
+              error: (error as Error).message,
+              metrics: metricsRecorder.getMetricDefinitions(),
+            });
+          }
+
+          res.json(history);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           res.status(500).json({ error: errorMessage });
@@ -519,10 +1915,10 @@ function plugin(app: PluginServerApp): Plugin {
     signalKApiRoutes: (router: express.Router): express.Router => {
       console.log('Webapp API routes registered');
       return router;
-    }
+    },
   };
 
   return pluginInstance;
 }
 
-module.exports = plugin;
\ No newline at end of file
+module.exports = plugin;
@@ -0,0 +1,129 @@
+import { PluginServerApp } from '@signalk/server-api';
+import { BridgeConfig, BridgeKeepalive } from '../types/interfaces';
+import { MqttUtils } from '../utils/mqtt-utils';
+import * as mqtt from 'mqtt';
+
+const CLIENT_ID = 'signalk-mosquitto-keepalive';
+const RECONNECT_PERIOD_MS = 5000;
+
+export class BridgeKeepaliveImpl implements BridgeKeepalive {
+  private app: PluginServerApp;
+  private getEndpoint: () => { host: string; port: number };
+  private getBridges: () => BridgeConfig[];
+  private timers: NodeJS.Timeout[] = [];
+  private client: mqtt.MqttClient | null = null;
+  private errorLogged: boolean = false;
+  private running: boolean = false;
+
+  constructor(
+    app: PluginServerApp,
+    getEndpoint: () => { host: string; port: number },
+    getBridges: () => BridgeConfig[]
+  ) {
+    this.app = app;
+    this.getEndpoint = getEndpoint;
+    this.getBridges = getBridges;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.refresh();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    this.disconnect();
+  }
+
+  // The broker connection is only kept open while an enabled bridge has a keepalive message
+  refresh(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.clearTimers();
+    const bridges = this.getKeepaliveBridges();
+    if (bridges.length === 0) {
+      this.disconnect();
+      return;
+    }
+
+    this.connect();
+    for (const bridge of bridges) {
+      this.timers.push(
+        setInterval(() => {
+          this.publish(bridge);
+        }, bridge.keepaliveMessage!.interval * 1000)
+      );
+    }
+  }
+
+  private getKeepaliveBridges(): BridgeConfig[] {
+    return this.getBridges().filter(b => b.enabled && b.keepaliveMessage);
+  }
+
+  private clearTimers(): void {
+    this.timers.splice(0).forEach(timer => clearInterval(timer));
+  }
+
+  private connect(): void {
+    if (this.client) {
+      return;
+    }
+
+    const client = MqttUtils.connectToEndpoint(
+      this.getEndpoint,
+      {
+        clientId: CLIENT_ID,
+        reconnectPeriod: RECONNECT_PERIOD_MS,
+        connectTimeout: 5000,
+        queueQoSZero: false,
+      },
+      () => {
+        this.disconnect();
+        this.connect();
+      }
+    );
+    this.client = client;
+
+    // Remote systems waiting for a keepalive should not have to wait a full interval
+    client.on('connect', () => {
+      this.errorLogged = false;
+      this.getKeepaliveBridges().forEach(bridge => this.publish(bridge));
+    });
+
+    client.on('error', error => {
+      // Reconnection keeps failing while the broker is stopped; one line per outage is enough
+      if (!this.errorLogged) {
+        this.errorLogged = true;
+        console.log(`Bridge keepalive client error: ${error.message}`);
+      }
+    });
+  }
+
+  private disconnect(): void {
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.on('error', () => {});
+      this.client.end(true);
+      this.client = null;
+    }
+  }
+
+  private publish(bridge: BridgeConfig): void {
+    if (!this.client || !this.client.connected || !bridge.keepaliveMessage) {
+      return;
+    }
+
+    const { topic, payload } = bridge.keepaliveMessage;
+    this.client.publish(topic, payload, { qos: 0, retain: false }, error => {
+      if (error) {
+        console.error(`Failed to publish keepalive for bridge '${bridge.name}': ${error.message}`);
+      }
+    });
+  }
+}
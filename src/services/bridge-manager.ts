@@ -1,8 +1,15 @@
 import { PluginServerApp } from '@signalk/server-api';
-import { MosquittoCompleteConfig, BridgeConfig, BridgeManager } from '../types/interfaces';
+import {
+  MosquittoCompleteConfig,
+  BridgeConfig,
+  BridgeConnectionStatus,
+  BridgeManager,
+  BridgeMonitor,
+  SecretStore,
+} from '../types/interfaces';
 import { FileUtils } from '../utils/file-utils';
+import { SecretUtils } from '../utils/secret-utils';
 import { ValidationUtils } from '../utils/validation';
-import * as mqtt from 'mqtt';
 import * as path from 'path';
 
 export class BridgeManagerImpl implements BridgeManager {
@@ -10,16 +17,26 @@ export class BridgeManagerImpl implements BridgeManager {
   private config: MosquittoCompleteConfig;
   private dataDir: string;
   private bridgeConfigFile: string;
-
-  constructor(app: PluginServerApp, config: MosquittoCompleteConfig) {
+  private secretStore: SecretStore;
+  private bridgeMonitor?: BridgeMonitor;
+
+  constructor(
+    app: PluginServerApp,
+    config: MosquittoCompleteConfig,
+    secretStore: SecretStore,
+    bridgeMonitor?: BridgeMonitor
+  ) {
     this.app = app;
     this.config = config;
+    this.secretStore = secretStore;
+    this.bridgeMonitor = bridgeMonitor;
     this.dataDir = FileUtils.getDataDir('signalk-mosquitto');
     this.bridgeConfigFile = path.join(this.dataDir, 'bridges.json');
   }
 
-  async addBridge(bridge: BridgeConfig): Promise<void> {
+  async addBridge(newBridge: BridgeConfig): Promise<void> {
     try {
+      const bridge = await this.resolveSecrets(newBridge);
       const validation = ValidationUtils.validateBridge(bridge);
       if (validation.length > 0) {
         throw new Error(`Bridge validation failed: ${validation.join(', ')}`);
@@ -65,8 +82,9 @@ export class BridgeManagerImpl implements BridgeManager {
     }
   }
 
-  async updateBridge(bridgeId: string, bridge: BridgeConfig): Promise<void> {
+  async updateBridge(bridgeId: string, changedBridge: BridgeConfig): Promise<void> {
     try {
+      const bridge = await this.resolveSecrets(changedBridge, bridgeId);
       const validation = ValidationUtils.validateBridge(bridge);
       if (validation.length > 0) {
         throw new Error(`Bridge validation failed: ${validation.join(', ')}`);
@@ -102,89 +120,85 @@ export class BridgeManagerImpl implements BridgeManager {
       }
 
       const content = await FileUtils.readFile(this.bridgeConfigFile);
-      return JSON.parse(content);
+      const bridges: BridgeConfig[] = JSON.parse(content);
+
+      // A password still in bridges.json predates the secret store and is moved on the next save
+      return await Promise.all(
+        bridges.map(async bridge => {
+          const password = await this.secretStore.get(SecretUtils.bridgePasswordName(bridge.id));
+          return password ? { ...bridge, remotePassword: password } : bridge;
+        })
+      );
     } catch (error) {
       console.error(`Failed to load bridges: ${(error as Error).message}`);
       return [];
     }
   }
 
-  async testBridgeConnection(bridge: BridgeConfig): Promise<boolean> {
-    return new Promise(resolve => {
-      try {
-        const clientOptions: mqtt.IClientOptions = {
-          host: bridge.remoteHost,
-          port: bridge.remotePort,
-          keepalive: bridge.keepalive,
-          connectTimeout: 10000,
-          reconnectPeriod: 0,
-          clean: bridge.cleanSession,
-        };
-
-        if (bridge.remoteUsername) {
-          clientOptions.username = bridge.remoteUsername;
-        }
+  // The API hands out masked passwords; a mask sent back means "keep the stored password"
+  async resolveSecrets(bridge: BridgeConfig, bridgeId?: string): Promise<BridgeConfig> {
+    if (bridge.remotePassword !== SecretUtils.MASK) {
+      return bridge;
+    }
 
-        if (bridge.remotePassword) {
-          clientOptions.password = bridge.remotePassword;
-        }
+    const password = bridgeId
+      ? await this.secretStore.get(SecretUtils.bridgePasswordName(bridgeId))
+      : undefined;
+    return { ...bridge, remotePassword: password };
+  }
 
-        if (bridge.tlsEnabled) {
-          clientOptions.protocol = 'mqtts';
+  async migrateSecrets(): Promise<void> {
+    if (!(await FileUtils.fileExists(this.bridgeConfigFile))) {
+      return;
+    }
 
-          if (bridge.tlsCaPath) {
-            // eslint-disable-next-line @typescript-eslint/no-require-imports
-            clientOptions.ca = require('fs').readFileSync(bridge.tlsCaPath);
-          }
+    const stored: BridgeConfig[] = JSON.parse(await FileUtils.readFile(this.bridgeConfigFile));
+    if (stored.some(bridge => bridge.remotePassword)) {
+      await this.saveBridges(await this.getBridges());
+      console.log('Moved bridge passwords from bridges.json to the secret store');
+    }
+  }
 
-          if (bridge.tlsCertPath) {
-            // eslint-disable-next-line @typescript-eslint/no-require-imports
-            clientOptions.cert = require('fs').readFileSync(bridge.tlsCertPath);
-          }
+  // Used by history rollback so restored passwords go through the secret store as well
+  async replaceBridges(bridges: BridgeConfig[]): Promise<void> {
+    await this.saveBridges(bridges);
+    await this.updateMainConfig(bridges);
+  }
 
-          if (bridge.tlsKeyPath) {
-            // eslint-disable-next-line @typescript-eslint/no-require-imports
-            clientOptions.key = require('fs').readFileSync(bridge.tlsKeyPath);
-          }
+  // Passwords go to the secret store first, so bridges.json never holds one. Unchanged
+  // passwords are not re-encrypted, which keeps the ciphertexts recorded in history stable
+  private async saveBridges(bridges: BridgeConfig[]): Promise<void> {
+    // Restored and migrated passwords never went through validateBridge
+    for (const bridge of bridges) {
+      if (ValidationUtils.hasControlCharacters(bridge.remotePassword)) {
+        throw new Error(
+          `Bridge '${bridge.id}': remote password must not contain control characters`
+        );
+      }
+    }
 
-          clientOptions.rejectUnauthorized = true;
-        } else {
-          clientOptions.protocol = 'mqtt';
+    const stored: BridgeConfig[] = [];
+    for (const { remotePassword, ...bridge } of bridges) {
+      const name = SecretUtils.bridgePasswordName(bridge.id);
+      if (remotePassword) {
+        if ((await this.secretStore.get(name)) !== remotePassword) {
+          await this.secretStore.set(name, remotePassword);
         }
+      } else {
+        await this.secretStore.delete(name);
+      }
+      stored.push(bridge);
+    }
 
-        const testClient = mqtt.connect(clientOptions);
-
-        const timeout = setTimeout(() => {
-          testClient.end(true);
-          resolve(false);
-        }, 10000);
-
-        testClient.on('connect', () => {
-          clearTimeout(timeout);
-          testClient.end();
-          resolve(true);
-        });
-
-        testClient.on('error', error => {
-          clearTimeout(timeout);
-          console.log(`Bridge test connection error: ${(error as Error).message}`);
-          testClient.end(true);
-          resolve(false);
-        });
-
-        testClient.on('close', () => {
-          clearTimeout(timeout);
-        });
-      } catch (error) {
-        console.error(`Bridge test connection failed: ${(error as Error).message}`);
-        resolve(false);
+    const names = new Set(bridges.map(b => SecretUtils.bridgePasswordName(b.id)));
+    for (const name of await this.secretStore.list()) {
+      if (name.startsWith('bridges/') && !names.has(name)) {
+        await this.secretStore.delete(name);
       }
-    });
-  }
+    }
 
-  private async saveBridges(bridges: BridgeConfig[]): Promise<void> {
     await FileUtils.ensureDir(this.dataDir);
-    await FileUtils.writeFile(this.bridgeConfigFile, JSON.stringify(bridges, null, 2));
+    await FileUtils.writeFile(this.bridgeConfigFile, JSON.stringify(stored, null, 2));
   }
 
   private async updateMainConfig(bridges: BridgeConfig[]): Promise<void> {
@@ -233,31 +247,24 @@ export class BridgeManagerImpl implements BridgeManager {
     }
   }
 
-  async getBridgeStatus(
-    bridgeId: string
-  ): Promise<{ connected: boolean; lastSeen?: Date; error?: string }> {
-    try {
-      const bridges = await this.getBridges();
-      const bridge = bridges.find(b => b.id === bridgeId);
+  // Reports what the broker's own bridge connection is doing rather than opening a second
+  // connection to the remote broker
+  async getBridgeStatus(bridgeId: string): Promise<BridgeConnectionStatus> {
+    const bridges = await this.getBridges();
+    const bridge = bridges.find(b => b.id === bridgeId);
 
-      if (!bridge) {
-        throw new Error(`Bridge with ID '${bridgeId}' not found`);
-      }
+    if (!bridge) {
+      throw new Error(`Bridge with ID '${bridgeId}' not found`);
+    }
 
-      if (!bridge.enabled) {
-        return { connected: false, error: 'Bridge is disabled' };
+    return (
+      this.bridgeMonitor?.getStatus(bridgeId) || {
+        bridgeId,
+        enabled: bridge.enabled,
+        state: bridge.enabled ? 'unknown' : 'disabled',
+        history: [],
       }
-
-      const isConnected = await this.testBridgeConnection(bridge);
-      return {
-        connected: isConnected,
-        lastSeen: isConnected ? new Date() : undefined,
-        error: isConnected ? undefined : 'Connection failed',
-      };
-    } catch (error) {
-      console.error(`Failed to get bridge status: ${(error as Error).message}`);
-      return { connected: false, error: (error as Error).message };
-    }
+    );
   }
 
   async duplicateBridge(bridgeId: string, newBridgeId: string): Promise<BridgeConfig> {
@@ -0,0 +1,204 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeConfig,
+  BridgeConnectionStatus,
+  BridgeMonitor,
+  BridgeStateChange,
+} from '../types/interfaces';
+import { BridgeUtils } from '../utils/bridge-utils';
+import { MqttUtils } from '../utils/mqtt-utils';
+import * as mqtt from 'mqtt';
+
+const CLIENT_ID = 'signalk-mosquitto-bridges';
+const RECONNECT_PERIOD_MS = 5000;
+
+// Mosquitto publishes "1" or "0" here, retained, whenever a bridge connects or disconnects,
+// unless the bridge sets its own notification_topic
+const STATE_TOPIC = '$SYS/broker/connection/+/state';
+
+interface TrackedBridge {
+  connected: boolean;
+  since: string;
+  lastConnected?: string;
+  lastDisconnected?: string;
+  history: BridgeStateChange[];
+}
+
+export class BridgeMonitorImpl implements BridgeMonitor {
+  private app: PluginServerApp;
+  private getEndpoint: () => { host: string; port: number };
+  private getBridges: () => BridgeConfig[];
+  private getAddress: (bridgeId: string) => string | undefined;
+  private historySize: number;
+  private tracked = new Map<string, TrackedBridge>();
+  private client: mqtt.MqttClient | null = null;
+  private subscribedTopics: string[] = [];
+  private errorLogged: boolean = false;
+
+  constructor(
+    app: PluginServerApp,
+    getEndpoint: () => { host: string; port: number },
+    getBridges: () => BridgeConfig[],
+    getAddress: (bridgeId: string) => string | undefined,
+    historySize: number = 50
+  ) {
+    this.app = app;
+    this.getEndpoint = getEndpoint;
+    this.getBridges = getBridges;
+    this.getAddress = getAddress;
+    this.historySize = historySize;
+  }
+
+  start(): void {
+    if (this.client) {
+      return;
+    }
+
+    const client = MqttUtils.connectToEndpoint(
+      this.getEndpoint,
+      { clientId: CLIENT_ID, reconnectPeriod: RECONNECT_PERIOD_MS, connectTimeout: 5000 },
+      () => {
+        this.stop();
+        this.start();
+      }
+    );
+    this.client = client;
+
+    // Queued until connected; mqtt.js re-subscribes on every reconnect
+    this.subscribedTopics = this.getTopics();
+    client.subscribe(this.subscribedTopics, { qos: 0 });
+
+    client.on('connect', () => {
+      this.errorLogged = false;
+    });
+
+    client.on('message', (topic, message) => {
+      this.handleMessage(topic, message.toString());
+    });
+
+    // Bridges run inside the broker, so they are down whenever the broker cannot be reached
+    client.on('close', () => {
+      for (const bridgeId of this.tracked.keys()) {
+        this.setState(bridgeId, false, 'broker unreachable');
+      }
+    });
+
+    client.on('error', error => {
+      // Reconnection keeps failing while the broker is stopped; one line per outage is enough
+      if (!this.errorLogged) {
+        this.errorLogged = true;
+        console.log(`Bridge monitor client error: ${error.message}`);
+      }
+    });
+  }
+
+  stop(): void {
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.on('error', () => {});
+      this.client.end(true);
+      this.client = null;
+    }
+    this.subscribedTopics = [];
+  }
+
+  refresh(): void {
+    if (!this.client) {
+      return;
+    }
+
+    const topics = this.getTopics();
+    const removed = this.subscribedTopics.filter(t => !topics.includes(t));
+    const added = topics.filter(t => !this.subscribedTopics.includes(t));
+    if (removed.length > 0) {
+      this.client.unsubscribe(removed);
+    }
+    if (added.length > 0) {
+      this.client.subscribe(added, { qos: 0 });
+    }
+    this.subscribedTopics = topics;
+  }
+
+  getStatus(bridgeId: string): BridgeConnectionStatus | undefined {
+    const bridge = this.getBridges().find(b => b.id === bridgeId);
+    return bridge ? this.describe(bridge) : undefined;
+  }
+
+  getStatuses(): BridgeConnectionStatus[] {
+    return this.getBridges().map(bridge => this.describe(bridge));
+  }
+
+  private describe(bridge: BridgeConfig): BridgeConnectionStatus {
+    const tracked = this.tracked.get(bridge.id);
+    let state: BridgeConnectionStatus['state'] = 'unknown';
+    if (!bridge.enabled) {
+      state = 'disabled';
+    } else if (tracked) {
+      state = tracked.connected ? 'connected' : 'disconnected';
+    }
+    const address = bridge.enabled ? this.getAddress(bridge.id) : undefined;
+
+    return {
+      bridgeId: bridge.id,
+      enabled: bridge.enabled,
+      state,
+      since: tracked?.since,
+      lastConnected: tracked?.lastConnected,
+      lastDisconnected: tracked?.lastDisconnected,
+      address,
+      fallback: address ? address !== `${bridge.remoteHost}:${bridge.remotePort}` : undefined,
+      history: tracked ? [...tracked.history] : [],
+    };
+  }
+
+  private getTopics(): string[] {
+    const custom = this.getBridges()
+      .filter(b => b.notifications !== false && b.notificationTopic)
+      .map(b => b.notificationTopic as string);
+    return Array.from(new Set([STATE_TOPIC, ...custom]));
+  }
+
+  private handleMessage(topic: string, value: string): void {
+    const state = value.trim();
+    if (state !== '0' && state !== '1') {
+      return;
+    }
+
+    const custom = this.getBridges().find(b => b.notificationTopic === topic);
+    if (custom) {
+      this.setState(custom.id, state === '1');
+      return;
+    }
+
+    const match = topic.match(/^\$SYS\/broker\/connection\/(.+)\/state$/);
+    if (match) {
+      this.setState(BridgeUtils.resolveConnectionId(this.getBridges(), match[1]), state === '1');
+    }
+  }
+
+  private setState(bridgeId: string, connected: boolean, reason?: string): void {
+    const now = new Date().toISOString();
+    let tracked = this.tracked.get(bridgeId);
+
+    if (tracked && tracked.connected === connected) {
+      return;
+    }
+    if (!tracked) {
+      tracked = { connected, since: now, history: [] };
+      this.tracked.set(bridgeId, tracked);
+    }
+
+    tracked.connected = connected;
+    tracked.since = now;
+    if (connected) {
+      tracked.lastConnected = now;
+    } else {
+      tracked.lastDisconnected = now;
+    }
+
+    tracked.history.push({ timestamp: now, connected, ...(reason ? { reason } : {}) });
+    if (tracked.history.length > this.historySize) {
+      tracked.history.splice(0, tracked.history.length - this.historySize);
+    }
+  }
+}
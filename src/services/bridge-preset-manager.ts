@@ -0,0 +1,117 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeConfig,
+  BridgePreset,
+  BridgePresetManager,
+  BridgePresetResult,
+} from '../types/interfaces';
+import { BridgePresetUtils } from '../utils/bridge-presets';
+import { FileUtils } from '../utils/file-utils';
+import { ValidationUtils } from '../utils/validation';
+import * as path from 'path';
+
+// Settings every bridge needs; a preset's template overrides them
+const BRIDGE_DEFAULTS: Omit<BridgeConfig, 'id'> = {
+  enabled: true,
+  name: '',
+  remoteHost: '',
+  remotePort: 1883,
+  topics: [],
+  tlsEnabled: false,
+  keepalive: 60,
+  cleanSession: true,
+  tryPrivate: false,
+};
+
+export class BridgePresetManagerImpl implements BridgePresetManager {
+  private app: PluginServerApp;
+  private presetsDir: string;
+
+  constructor(app: PluginServerApp) {
+    this.app = app;
+    this.presetsDir = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'bridge-presets');
+  }
+
+  // Files are read on every call so presets dropped into the directory show up without a restart
+  async getPresets(): Promise<BridgePreset[]> {
+    const presets = new Map<string, BridgePreset>();
+    for (const preset of BridgePresetUtils.getBuiltinPresets()) {
+      presets.set(preset.id, preset);
+    }
+
+    for (const file of await FileUtils.listFiles(this.presetsDir, '.json')) {
+      try {
+        const content = JSON.parse(await FileUtils.readFile(file));
+        for (const preset of Array.isArray(content) ? content : [content]) {
+          const errors = ValidationUtils.validateBridgePreset(preset);
+          if (errors.length > 0) {
+            console.error(`Skipping bridge preset in ${file}: ${errors.join(', ')}`);
+            continue;
+          }
+          // A user preset with the id of a built-in one replaces it
+          presets.set(preset.id, { ...preset, builtin: false });
+        }
+      } catch (error) {
+        console.error(`Failed to load bridge presets from ${file}: ${(error as Error).message}`);
+      }
+    }
+
+    return Array.from(presets.values());
+  }
+
+  async applyPreset(
+    presetId: string,
+    values: Record<string, unknown>
+  ): Promise<BridgePresetResult> {
+    const preset = (await this.getPresets()).find(p => p.id === presetId);
+    if (!preset) {
+      throw new Error(`Bridge preset with ID '${presetId}' not found`);
+    }
+
+    const errors: string[] = [];
+    const resolved: Record<string, unknown> = {};
+
+    for (const parameter of preset.parameters) {
+      const raw = values[parameter.name] ?? parameter.default;
+      const text = raw === undefined || raw === null ? '' : String(raw).trim();
+
+      if (text === '') {
+        if (parameter.required) {
+          errors.push(`${parameter.label} is required`);
+        }
+        continue;
+      }
+
+      if (parameter.type === 'number') {
+        const number = Number(text);
+        if (isNaN(number)) {
+          errors.push(`${parameter.label} must be a number`);
+          continue;
+        }
+        resolved[parameter.name] = number;
+      } else {
+        resolved[parameter.name] = text;
+      }
+
+      if (parameter.pattern && !new RegExp(parameter.pattern).test(text)) {
+        errors.push(
+          `${parameter.label} is not valid${parameter.description ? ` (${parameter.description})` : ''}`
+        );
+      }
+    }
+
+    const bridge: BridgeConfig = {
+      ...BRIDGE_DEFAULTS,
+      name: preset.name,
+      ...(BridgePresetUtils.renderTemplate(preset.template, resolved) as Partial<BridgeConfig>),
+      id: Date.now().toString(),
+    };
+
+    // Parameter errors come first; the bridge checks often repeat them in less specific terms
+    if (errors.length === 0) {
+      errors.push(...ValidationUtils.validateBridge(bridge));
+    }
+
+    return { bridge, errors };
+  }
+}
@@ -0,0 +1,620 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeAddress,
+  BridgeConfig,
+  BridgeTestCertificate,
+  BridgeTestReport,
+  BridgeTestStep,
+  BridgeTester,
+  BridgeTopicConfig,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as mqtt from 'mqtt';
+import * as net from 'net';
+import * as tls from 'tls';
+
+const STEP_TIMEOUT_MS = 10000;
+const ECHO_TIMEOUT_MS = 3000;
+const LATENCY_SAMPLES = 5;
+const CERTIFICATE_WARNING_DAYS = 30;
+
+// Takes the place of wildcards when a topic pattern has to become a topic to publish to
+const TEST_LEVEL = 'signalk-mosquitto-test';
+
+const CONNACK_V3: Record<number, string> = {
+  0: 'connection accepted',
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad username or password',
+  5: 'not authorised',
+};
+
+const CONNACK_V5: Record<number, string> = {
+  0: 'success',
+  128: 'unspecified error',
+  129: 'malformed packet',
+  130: 'protocol error',
+  131: 'implementation specific error',
+  132: 'unsupported protocol version',
+  133: 'client identifier not valid',
+  134: 'bad username or password',
+  135: 'not authorised',
+  136: 'server unavailable',
+  137: 'server busy',
+  138: 'banned',
+  140: 'bad authentication method',
+  144: 'topic name invalid',
+  149: 'packet too large',
+  151: 'quota exceeded',
+  153: 'payload format invalid',
+  154: 'retain not supported',
+  155: 'QoS not supported',
+  156: 'use another server',
+  157: 'server moved',
+  159: 'connection rate exceeded',
+};
+
+const PROTOCOL_VERSIONS: Record<NonNullable<BridgeConfig['protocolVersion']>, 3 | 4 | 5> = {
+  mqttv31: 3,
+  mqttv311: 4,
+  mqttv50: 5,
+};
+
+const TLS_VERSIONS: Record<NonNullable<BridgeConfig['tlsVersion']>, tls.SecureVersion> = {
+  'tlsv1.1': 'TLSv1.1',
+  'tlsv1.2': 'TLSv1.2',
+  'tlsv1.3': 'TLSv1.3',
+};
+
+type StepResult = Omit<BridgeTestStep, 'step' | 'address' | 'topic' | 'durationMs'>;
+
+// The subset of TLS settings a bridge can have, accepted by both tls.connect() and mqtt.connect()
+interface TlsSettings {
+  servername?: string;
+  ca?: string;
+  cert?: string;
+  key?: string;
+  minVersion?: tls.SecureVersion;
+  maxVersion?: tls.SecureVersion;
+  ALPNProtocols?: string[];
+}
+
+export class BridgeTesterImpl implements BridgeTester {
+  private app: PluginServerApp;
+
+  constructor(app: PluginServerApp) {
+    this.app = app;
+  }
+
+  async testBridge(bridge: BridgeConfig): Promise<BridgeTestReport> {
+    const started = Date.now();
+    const steps: BridgeTestStep[] = [];
+    const report = (connected: boolean, address?: BridgeAddress): BridgeTestReport => ({
+      success: connected && steps.every(s => s.status !== 'failed'),
+      connected,
+      address: address ? `${address.host}:${address.port}` : undefined,
+      steps,
+      durationMs: Date.now() - started,
+    });
+
+    // Every address is checked, but like the broker the MQTT checks use the first that answers
+    let reachable: BridgeAddress | undefined;
+    for (const address of [
+      { host: bridge.remoteHost, port: bridge.remotePort },
+      ...(bridge.fallbackAddresses || []),
+    ]) {
+      const label = `${address.host}:${address.port}`;
+      const resolved = await this.runStep(steps, { step: 'dns', address: label }, () =>
+        this.resolve(address.host)
+      );
+      if (resolved.status === 'failed') {
+        continue;
+      }
+
+      const connected = await this.runStep(steps, { step: 'tcp', address: label }, () =>
+        this.checkTcp(address)
+      );
+      if (connected.status !== 'failed' && !reachable) {
+        reachable = address;
+      }
+    }
+
+    if (!reachable) {
+      steps.push({ step: 'connect', status: 'skipped', message: 'No address could be reached' });
+      return report(false);
+    }
+
+    const label = `${reachable.host}:${reachable.port}`;
+    let tlsOptions: TlsSettings | undefined;
+    if (bridge.tlsEnabled) {
+      const handshake = await this.runStep(steps, { step: 'tls', address: label }, async () => {
+        tlsOptions = await this.getTlsOptions(bridge, reachable!);
+        return this.checkTls(bridge, reachable!, tlsOptions);
+      });
+      if (handshake.status === 'failed') {
+        steps.push({
+          step: 'connect',
+          status: 'skipped',
+          address: label,
+          message: 'The broker would not get past the TLS handshake either',
+        });
+        return report(false, reachable);
+      }
+    }
+
+    let client: mqtt.MqttClient | undefined;
+    try {
+      const connectStarted = Date.now();
+      const connection = await this.connect(bridge, reachable, tlsOptions);
+      client = connection.client;
+      steps.push({
+        step: 'connect',
+        address: label,
+        durationMs: Date.now() - connectStarted,
+        ...connection.result,
+      });
+      if (!client) {
+        return report(false, reachable);
+      }
+
+      let echoTopic: string | undefined;
+      for (const topic of bridge.topics) {
+        if (topic.direction !== 'out') {
+          await this.runStep(steps, { step: 'subscribe', topic: this.remoteTopic(topic) }, () =>
+            this.checkSubscribe(client!, topic)
+          );
+        }
+        if (topic.direction !== 'in') {
+          const testTopic = this.toTestTopic(this.remoteTopic(topic), client.options.clientId!);
+          const published = await this.runStep(
+            steps,
+            { step: 'publish', topic: testTopic || this.remoteTopic(topic) },
+            () => this.checkPublish(client!, testTopic)
+          );
+          if (published.status === 'passed' && !echoTopic) {
+            echoTopic = testTopic;
+          }
+        }
+      }
+
+      await this.runStep(steps, { step: 'latency' }, () =>
+        this.measureLatency(client!, echoTopic || `${TEST_LEVEL}/${client!.options.clientId}`)
+      );
+
+      return report(true, reachable);
+    } finally {
+      client?.end(true);
+    }
+  }
+
+  private async runStep(
+    steps: BridgeTestStep[],
+    fields: Pick<BridgeTestStep, 'step' | 'address' | 'topic'>,
+    action: () => Promise<StepResult>
+  ): Promise<BridgeTestStep> {
+    const started = Date.now();
+    let result: StepResult;
+    try {
+      result = await action();
+    } catch (error) {
+      result = { status: 'failed', message: (error as Error).message };
+    }
+
+    const step: BridgeTestStep = { ...fields, durationMs: Date.now() - started, ...result };
+    steps.push(step);
+    return step;
+  }
+
+  private async resolve(host: string): Promise<StepResult> {
+    const addresses = await this.withTimeout(
+      dns.promises.lookup(host, { all: true }),
+      `DNS lookup of ${host} timed out`
+    );
+    const resolvedAddresses = addresses.map(a => a.address);
+    return {
+      status: 'passed',
+      message: net.isIP(host)
+        ? 'IP address, no lookup needed'
+        : `Resolved to ${resolvedAddresses.join(', ')}`,
+      resolvedAddresses,
+    };
+  }
+
+  private checkTcp(address: BridgeAddress): Promise<StepResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: address.host, port: address.port });
+      socket.setTimeout(STEP_TIMEOUT_MS, () => {
+        socket.destroy();
+        reject(new Error(`No answer within ${STEP_TIMEOUT_MS / 1000} seconds`));
+      });
+      socket.once('connect', () => {
+        const remote = `${socket.remoteAddress}:${socket.remotePort}`;
+        socket.destroy();
+        resolve({ status: 'passed', message: `TCP connection to ${remote} established` });
+      });
+      socket.once('error', error => {
+        socket.destroy();
+        reject(error);
+      });
+    });
+  }
+
+  private async getTlsOptions(bridge: BridgeConfig, address: BridgeAddress): Promise<TlsSettings> {
+    const options: TlsSettings = {
+      // SNI is not sent for IP addresses
+      servername: net.isIP(address.host) ? undefined : address.host,
+    };
+
+    if (bridge.tlsCaPath) {
+      options.ca = await FileUtils.readFile(bridge.tlsCaPath);
+    }
+    if (bridge.tlsCertPath) {
+      options.cert = await FileUtils.readFile(bridge.tlsCertPath);
+    }
+    if (bridge.tlsKeyPath) {
+      options.key = await FileUtils.readFile(bridge.tlsKeyPath);
+    }
+    if (bridge.tlsVersion) {
+      options.minVersion = TLS_VERSIONS[bridge.tlsVersion];
+      options.maxVersion = TLS_VERSIONS[bridge.tlsVersion];
+    }
+    if (bridge.tlsAlpn) {
+      options.ALPNProtocols = [bridge.tlsAlpn];
+    }
+
+    return options;
+  }
+
+  // The handshake is completed even for an untrusted certificate so the chain can be reported
+  private checkTls(
+    bridge: BridgeConfig,
+    address: BridgeAddress,
+    options: TlsSettings
+  ): Promise<StepResult> {
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({
+        ...options,
+        host: address.host,
+        port: address.port,
+        rejectUnauthorized: false,
+      });
+      socket.setTimeout(STEP_TIMEOUT_MS, () => {
+        socket.destroy();
+        reject(new Error(`TLS handshake did not finish within ${STEP_TIMEOUT_MS / 1000} seconds`));
+      });
+      socket.once('secureConnect', () => {
+        const details = {
+          protocol: socket.getProtocol() || undefined,
+          cipher: socket.getCipher()?.name,
+          alpnProtocol: socket.alpnProtocol || undefined,
+          authorized: socket.authorized,
+          authorizationError: socket.authorizationError
+            ? String(socket.authorizationError)
+            : undefined,
+          certificates: this.describeChain(socket.getPeerCertificate(true)),
+        };
+        socket.destroy();
+
+        const leaf = details.certificates[0];
+        const daysLeft = leaf ? (Date.parse(leaf.validTo) - Date.now()) / 86400000 : Infinity;
+        if (!details.authorized) {
+          resolve({
+            status: 'failed',
+            message: `Certificate chain not trusted: ${details.authorizationError}`,
+            tls: details,
+          });
+        } else if (bridge.tlsAlpn && details.alpnProtocol !== bridge.tlsAlpn) {
+          resolve({
+            status: 'warning',
+            message: `The server did not accept ALPN protocol ${bridge.tlsAlpn}`,
+            tls: details,
+          });
+        } else if (daysLeft < CERTIFICATE_WARNING_DAYS) {
+          resolve({
+            status: 'warning',
+            message: `Certificate chain verified, but the server certificate expires in ${Math.max(0, Math.floor(daysLeft))} days`,
+            tls: details,
+          });
+        } else {
+          resolve({
+            status: 'passed',
+            message: `${details.protocol} handshake completed and certificate chain verified`,
+            tls: details,
+          });
+        }
+      });
+      socket.once('error', error => {
+        socket.destroy();
+        reject(error);
+      });
+    });
+  }
+
+  private describeChain(certificate: tls.DetailedPeerCertificate): BridgeTestCertificate[] {
+    const formatName = (name: tls.Certificate | undefined): string =>
+      name
+        ? Object.entries(name)
+            .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`)
+            .join(', ')
+        : '';
+
+    // A self-signed root is its own issuer
+    const chain: BridgeTestCertificate[] = [];
+    let current: tls.DetailedPeerCertificate | undefined = certificate;
+    while (
+      current &&
+      current.fingerprint256 &&
+      !chain.some(c => c.fingerprint256 === current!.fingerprint256)
+    ) {
+      chain.push({
+        subject: formatName(current.subject),
+        issuer: formatName(current.issuer),
+        validFrom: current.valid_from,
+        validTo: current.valid_to,
+        fingerprint256: current.fingerprint256,
+      });
+      current = current.issuerCertificate;
+    }
+    return chain;
+  }
+
+  // The test uses a client id of its own; reusing the bridge's would disconnect the live bridge
+  private connect(
+    bridge: BridgeConfig,
+    address: BridgeAddress,
+    tlsOptions: TlsSettings | undefined
+  ): Promise<{ client?: mqtt.MqttClient; result: StepResult }> {
+    const protocolVersion = PROTOCOL_VERSIONS[bridge.protocolVersion || 'mqttv311'];
+    const reasons = protocolVersion === 5 ? CONNACK_V5 : CONNACK_V3;
+
+    return new Promise(resolve => {
+      const client = mqtt.connect({
+        ...(tlsOptions || {}),
+        host: address.host,
+        port: address.port,
+        protocol: tlsOptions ? 'mqtts' : 'mqtt',
+        protocolVersion,
+        protocolId: protocolVersion === 3 ? 'MQIsdp' : 'MQTT',
+        clientId: `${TEST_LEVEL}-${crypto.randomBytes(4).toString('hex')}`,
+        username: bridge.remoteUsername,
+        password: bridge.remotePassword,
+        keepalive: bridge.keepalive,
+        clean: true,
+        reconnectPeriod: 0,
+        connectTimeout: STEP_TIMEOUT_MS,
+        rejectUnauthorized: true,
+      });
+
+      let settled = false;
+      const finish = (connected: boolean, result: StepResult): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        if (!connected) {
+          client.removeAllListeners();
+          client.on('error', () => {});
+          client.end(true);
+        }
+        resolve({ client: connected ? client : undefined, result });
+      };
+
+      client.once('connect', connack => {
+        const reasonCode = connack.reasonCode ?? connack.returnCode ?? 0;
+        finish(true, {
+          status: 'passed',
+          message: `CONNACK ${reasonCode}: ${reasons[reasonCode] || 'accepted'}`,
+          reasonCode,
+        });
+      });
+      client.on('error', error => {
+        const code = (error as Error & { code?: unknown }).code;
+        if (typeof code === 'number') {
+          finish(false, {
+            status: 'failed',
+            message: `CONNACK ${code}: ${reasons[code] || 'connection refused'}`,
+            reasonCode: code,
+          });
+        } else {
+          finish(false, { status: 'failed', message: error.message });
+        }
+      });
+      client.once('close', () => {
+        finish(false, { status: 'failed', message: 'Connection closed before a CONNACK arrived' });
+      });
+    });
+  }
+
+  private remoteTopic(topic: BridgeTopicConfig): string {
+    return `${topic.remotePrefix || ''}${topic.pattern}`;
+  }
+
+  // Only patterns with a wildcard can be tested safely: a test message on a fixed topic could
+  // be taken as a command by the remote system
+  private toTestTopic(pattern: string, clientId: string): string | undefined {
+    if (!/(^|\/)[+#]($|\/)/.test(pattern)) {
+      return undefined;
+    }
+    return pattern
+      .split('/')
+      .map(level =>
+        level === '+' ? TEST_LEVEL : level === '#' ? `${TEST_LEVEL}/${clientId}` : level
+      )
+      .join('/');
+  }
+
+  private async checkSubscribe(
+    client: mqtt.MqttClient,
+    topic: BridgeTopicConfig
+  ): Promise<StepResult> {
+    const pattern = this.remoteTopic(topic);
+    let grantedQos: number;
+    try {
+      const granted = await this.withTimeout(
+        client.subscribeAsync(pattern, { qos: topic.qos }),
+        'No SUBACK received'
+      );
+      grantedQos = granted[0]?.qos ?? 128;
+    } catch (error) {
+      // mqtt.js rejects a refused subscription with an error that carries the SUBACK
+      const code = (error as Error & { packet?: { granted?: unknown[] } }).packet?.granted?.[0];
+      if (typeof code !== 'number') {
+        throw error;
+      }
+      grantedQos = code;
+    }
+
+    if (grantedQos >= 128) {
+      return {
+        status: 'failed',
+        message: `Subscription refused (SUBACK ${grantedQos})`,
+        grantedQos,
+      };
+    }
+    await this.withTimeout(client.unsubscribeAsync(pattern), 'No UNSUBACK received');
+
+    if (grantedQos < topic.qos) {
+      return {
+        status: 'warning',
+        message: `Subscribed, but with QoS ${grantedQos} instead of ${topic.qos}`,
+        grantedQos,
+      };
+    }
+    return { status: 'passed', message: `Subscribed with QoS ${grantedQos}`, grantedQos };
+  }
+
+  // MQTT 3.1.1 cannot report a refused publish, so the message is subscribed to and must arrive
+  private async checkPublish(
+    client: mqtt.MqttClient,
+    testTopic: string | undefined
+  ): Promise<StepResult> {
+    if (!testTopic) {
+      return {
+        status: 'skipped',
+        message:
+          'Not tested: the topic has no wildcard, and a test message could trigger the remote system',
+      };
+    }
+
+    const canConfirm = await this.subscribeQuietly(client, testTopic);
+    try {
+      const arrived = await this.waitForEcho(client, testTopic, `${Date.now()}`);
+      if (arrived !== undefined) {
+        return { status: 'passed', message: `Published and received back in ${arrived} ms` };
+      }
+      if (!canConfirm) {
+        return {
+          status: 'warning',
+          message:
+            'Published, but delivery could not be confirmed because subscribing to the topic was refused',
+        };
+      }
+      return {
+        status: 'failed',
+        message:
+          'The message was not delivered; the remote broker probably does not allow publishing here',
+      };
+    } finally {
+      await this.withTimeout(client.unsubscribeAsync(testTopic), 'No UNSUBACK received').catch(
+        () => undefined
+      );
+    }
+  }
+
+  private async measureLatency(client: mqtt.MqttClient, echoTopic: string): Promise<StepResult> {
+    if (!(await this.subscribeQuietly(client, echoTopic))) {
+      return {
+        status: 'warning',
+        message: `Not measured: subscribing to echo topic ${echoTopic} was refused`,
+      };
+    }
+
+    try {
+      const samples: number[] = [];
+      for (let i = 0; i < LATENCY_SAMPLES; i++) {
+        const elapsed = await this.waitForEcho(client, echoTopic, `${Date.now()}-${i}`);
+        if (elapsed !== undefined) {
+          samples.push(elapsed);
+        }
+      }
+
+      if (samples.length === 0) {
+        return {
+          status: 'warning',
+          message: `Not measured: nothing came back on echo topic ${echoTopic}`,
+        };
+      }
+
+      const latency = {
+        samples: samples.length,
+        minMs: Math.min(...samples),
+        avgMs: Math.round(samples.reduce((sum, s) => sum + s, 0) / samples.length),
+        maxMs: Math.max(...samples),
+      };
+      return {
+        status: samples.length < LATENCY_SAMPLES ? 'warning' : 'passed',
+        message: `Round trip ${latency.minMs}/${latency.avgMs}/${latency.maxMs} ms (min/avg/max) over ${samples.length} of ${LATENCY_SAMPLES} messages on ${echoTopic}`,
+        latency,
+      };
+    } finally {
+      await this.withTimeout(client.unsubscribeAsync(echoTopic), 'No UNSUBACK received').catch(
+        () => undefined
+      );
+    }
+  }
+
+  private async subscribeQuietly(client: mqtt.MqttClient, topic: string): Promise<boolean> {
+    try {
+      const granted = await this.withTimeout(
+        client.subscribeAsync(topic, { qos: 1 }),
+        'No SUBACK received'
+      );
+      return (granted[0]?.qos ?? 128) < 128;
+    } catch {
+      return false;
+    }
+  }
+
+  // Publishes the payload and resolves with the round trip in milliseconds, or undefined when it
+  // does not come back in time
+  private waitForEcho(
+    client: mqtt.MqttClient,
+    topic: string,
+    payload: string
+  ): Promise<number | undefined> {
+    return new Promise((resolve, reject) => {
+      const started = Date.now();
+      const onMessage = (received: string, message: Buffer): void => {
+        if (received === topic && message.toString() === payload) {
+          done(Date.now() - started);
+        }
+      };
+      const done = (elapsed: number | undefined): void => {
+        clearTimeout(timer);
+        client.removeListener('message', onMessage);
+        resolve(elapsed);
+      };
+      const timer = setTimeout(() => done(undefined), ECHO_TIMEOUT_MS);
+
+      client.on('message', onMessage);
+      client.publish(topic, payload, { qos: 1, retain: false }, error => {
+        if (error) {
+          clearTimeout(timer);
+          client.removeListener('message', onMessage);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  private withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), STEP_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,366 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeConfig,
+  BrokerEvent,
+  BrokerEventQuery,
+  BrokerEventSummary,
+  ConnectedClient,
+  EventManager,
+  LogEntry,
+  LogManager,
+} from '../types/interfaces';
+
+// CONNACK return codes that mean the credentials were rejected (MQTT 3.1.1 and MQTT 5). The
+// broker only logs the CONNACK it sends at debug level; at the default level a rejected login
+// shows up as "Client <id> disconnected, not authorised" without saying why
+const AUTH_FAILURE_CODES: Record<string, string> = {
+  '4': 'bad username or password',
+  '5': 'not authorised',
+  '134': 'bad username or password',
+  '135': 'not authorised',
+};
+
+const DISCONNECT_PATTERNS: { pattern: RegExp; reason: (match: RegExpMatchArray) => string }[] = [
+  { pattern: /^Client (\S+) disconnected\.$/, reason: () => 'disconnected' },
+  { pattern: /^Client (\S+) closed its connection\.$/, reason: () => 'closed its connection' },
+  {
+    pattern: /^Client (\S+) has exceeded timeout, disconnecting\.$/,
+    reason: () => 'keepalive timeout',
+  },
+  {
+    pattern: /^Client (\S+) already connected, closing old connection\.$/,
+    reason: () => 'replaced by a new connection',
+  },
+  { pattern: /^Client (\S+) disconnected due to (.+?)\.?$/, reason: match => match[2] },
+  { pattern: /^Client (\S+) disconnected: (.+?)\.?$/, reason: match => match[2] },
+];
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+export class EventManagerImpl implements EventManager {
+  private app: PluginServerApp;
+  private logManager: LogManager;
+  private getBridges: () => BridgeConfig[];
+  private capacity: number;
+  private events: BrokerEvent[] = [];
+  private nextId: number = 1;
+  private clients = new Map<string, ConnectedClient>();
+  private bridges: BrokerEventSummary['bridges'] = {};
+  private bridgeAddresses = new Map<string, string>();
+  private pendingAddress: string | undefined;
+  private lastBridgeId: string | undefined;
+  private rejectedClientId: string | undefined;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    app: PluginServerApp,
+    logManager: LogManager,
+    getBridges: () => BridgeConfig[],
+    capacity: number = 1000
+  ) {
+    this.app = app;
+    this.logManager = logManager;
+    this.getBridges = getBridges;
+    this.capacity = capacity;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    // Replay what is already buffered so clients connected before the plugin started are known
+    this.logManager
+      .getEntries({ limit: 1000 })
+      .entries.forEach(entry => this.handleLogEntry(entry));
+    this.unsubscribe = this.logManager.subscribe(entry => this.handleLogEntry(entry));
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  getEvents(query: BrokerEventQuery): BrokerEvent[] {
+    const limit = Math.min(Math.max(query.limit || 100, 1), this.capacity);
+    const since = query.since ? Date.parse(query.since) : NaN;
+
+    const matching = this.events.filter(
+      event =>
+        (!query.type || event.type === query.type) &&
+        (!query.clientId || event.clientId === query.clientId) &&
+        (!query.bridgeId || event.bridgeId === query.bridgeId) &&
+        (isNaN(since) || Date.parse(event.timestamp) >= since)
+    );
+
+    return matching.slice(Math.max(0, matching.length - limit));
+  }
+
+  getConnectedClients(): ConnectedClient[] {
+    return Array.from(this.clients.values());
+  }
+
+  getSummary(): BrokerEventSummary {
+    const cutoff = Date.now() - ONE_HOUR_MS;
+    const recent = (type: BrokerEvent['type']): BrokerEvent[] =>
+      this.events.filter(e => e.type === type && Date.parse(e.timestamp) >= cutoff);
+    const last = (type: BrokerEvent['type']): BrokerEvent | undefined =>
+      [...this.events].reverse().find(e => e.type === type);
+
+    return {
+      authFailuresLastHour: recent('auth_failed').length,
+      socketErrorsLastHour: recent('socket_error').length,
+      lastAuthFailure: last('auth_failed'),
+      lastSocketError: last('socket_error'),
+      bridges: { ...this.bridges },
+    };
+  }
+
+  // The broker logs the address of every bridge connection attempt, which is the only place it
+  // says which of several addresses is in use
+  getBridgeAddress(bridgeId: string): string | undefined {
+    return this.bridgeAddresses.get(bridgeId);
+  }
+
+  private handleLogEntry(entry: LogEntry): void {
+    const message = entry.message.trim();
+    const at = entry.timestamp;
+
+    // A new broker process starts with nobody connected
+    if (/^mosquitto version \S+ (starting|running)/.test(message)) {
+      this.clients.clear();
+      this.bridges = {};
+      this.bridgeAddresses.clear();
+      return;
+    }
+
+    let match = message.match(/^New connection from (\S+) on port \d+\.?$/);
+    if (match) {
+      this.pendingAddress = match[1];
+      return;
+    }
+
+    match = message.match(/^New client connected from (\S+) as (\S+) \(([^)]*)\)\.?$/);
+    if (match) {
+      const client = this.parseClientFlags(match[2], match[1], match[3], at);
+      this.clients.set(client.clientId, client);
+      this.pendingAddress = undefined;
+      this.record(
+        {
+          type: 'client_connected',
+          clientId: client.clientId,
+          username: client.username,
+          address: client.address,
+        },
+        entry
+      );
+      return;
+    }
+
+    match = message.match(/^Client (\S+) disconnected, not authori[sz]ed\.?$/);
+    if (match) {
+      const client = this.removeClient(match[1]);
+      // Already recorded from the CONNACK that preceded this line
+      if (this.rejectedClientId === match[1]) {
+        this.rejectedClientId = undefined;
+        return;
+      }
+      this.record(
+        {
+          type: 'auth_failed',
+          clientId: match[1],
+          username: client?.username,
+          address: client?.address || this.pendingAddress,
+          reason: 'not authorised',
+        },
+        entry
+      );
+      return;
+    }
+
+    match = message.match(/^Sending CONNACK to (\S+) \(\d+, (\d+)\)/);
+    if (match) {
+      if (AUTH_FAILURE_CODES[match[2]]) {
+        this.rejectedClientId = match[1];
+        this.record(
+          {
+            type: 'auth_failed',
+            clientId: match[1],
+            address: this.pendingAddress,
+            reason: AUTH_FAILURE_CODES[match[2]],
+          },
+          entry
+        );
+      }
+      return;
+    }
+
+    match = message.match(/^Socket error on client (\S+), disconnecting\.?$/);
+    if (match) {
+      const bridgeId = this.getBridgeId(match[1]);
+      if (bridgeId) {
+        this.setBridgeState(bridgeId, false, at, 'socket error');
+        this.record({ type: 'bridge_down', bridgeId, reason: 'socket error' }, entry);
+        return;
+      }
+
+      const client = this.removeClient(match[1]);
+      this.record(
+        {
+          type: 'socket_error',
+          clientId: match[1],
+          username: client?.username,
+          address: client?.address,
+          reason: 'socket error',
+        },
+        entry
+      );
+      return;
+    }
+
+    match = message.match(/^Connecting bridge (?:\(step \d\) )?(\S+) \(([^)]+)\)/);
+    if (match) {
+      this.lastBridgeId = match[1];
+      this.bridgeAddresses.set(match[1], match[2]);
+      return;
+    }
+
+    match = message.match(/^Received CONNACK on connection (\S+?)\.?$/);
+    if (match) {
+      const bridgeId = this.getBridgeId(match[1]) || this.lastBridgeId;
+      if (bridgeId) {
+        this.setBridgeState(bridgeId, true, at);
+        this.record(
+          { type: 'bridge_up', bridgeId, address: this.bridgeAddresses.get(bridgeId) },
+          entry
+        );
+      }
+      return;
+    }
+
+    match = message.match(/^(?:Connection Refused|Error creating bridge): (.+?)\.?$/);
+    if (match && this.lastBridgeId) {
+      this.setBridgeState(this.lastBridgeId, false, at, match[1]);
+      this.record(
+        {
+          type: 'bridge_down',
+          bridgeId: this.lastBridgeId,
+          address: this.bridgeAddresses.get(this.lastBridgeId),
+          reason: match[1],
+        },
+        entry
+      );
+      return;
+    }
+
+    for (const { pattern, reason } of DISCONNECT_PATTERNS) {
+      match = message.match(pattern);
+      if (match) {
+        const bridgeId = this.getBridgeId(match[1]);
+        if (bridgeId) {
+          this.setBridgeState(bridgeId, false, at, reason(match));
+          this.record({ type: 'bridge_down', bridgeId, reason: reason(match) }, entry);
+        } else {
+          const client = this.removeClient(match[1]);
+          this.record(
+            {
+              type: 'client_disconnected',
+              clientId: match[1],
+              username: client?.username,
+              address: client?.address,
+              reason: reason(match),
+            },
+            entry
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  // Flags look like "p2, c1, k60, u'user'": protocol version, clean session, keepalive, username
+  private parseClientFlags(
+    clientId: string,
+    address: string,
+    flags: string,
+    connectedAt: string
+  ): ConnectedClient {
+    const client: ConnectedClient = { clientId, address, connectedAt };
+
+    for (const flag of flags.split(',').map(f => f.trim())) {
+      const username = flag.match(/^u'(.*)'$/);
+      if (username) {
+        client.username = username[1];
+      } else if (/^p\d+$/.test(flag)) {
+        client.protocolVersion = parseInt(flag.slice(1), 10);
+      } else if (/^k\d+$/.test(flag)) {
+        client.keepalive = parseInt(flag.slice(1), 10);
+      } else if (/^c[01]$/.test(flag)) {
+        client.cleanSession = flag === 'c1';
+      }
+    }
+
+    return client;
+  }
+
+  // Outgoing bridges appear as local clients named after local_clientid, which defaults to
+  // "local.<remote client id>"; the default remote client id ends with the connection name
+  private getBridgeId(clientId: string): string | undefined {
+    const bridges = this.getBridges();
+    const bridge =
+      bridges.find(b => b.localClientId === clientId) ||
+      bridges.find(
+        b => !b.localClientId && b.remoteClientId && clientId === `local.${b.remoteClientId}`
+      ) ||
+      bridges.find(
+        b =>
+          !b.localClientId &&
+          !b.remoteClientId &&
+          clientId.startsWith('local.') &&
+          clientId.endsWith(`.${b.id}`)
+      );
+    if (bridge) {
+      return bridge.id;
+    }
+
+    // Bridges removed since the line was logged can only be recognised by the default naming
+    if (!clientId.startsWith('local.')) {
+      return undefined;
+    }
+    const parts = clientId.split('.');
+    return parts[parts.length - 1];
+  }
+
+  private removeClient(clientId: string): ConnectedClient | undefined {
+    const client = this.clients.get(clientId);
+    this.clients.delete(clientId);
+    return client;
+  }
+
+  private setBridgeState(bridgeId: string, up: boolean, since: string, reason?: string): void {
+    this.bridges[bridgeId] = { up, since, ...(reason ? { reason } : {}) };
+  }
+
+  private record(fields: Omit<BrokerEvent, 'id' | 'timestamp' | 'message'>, entry: LogEntry): void {
+    const event: BrokerEvent = {
+      id: this.nextId++,
+      timestamp: entry.timestamp,
+      ...fields,
+      message: entry.message,
+    };
+
+    // Drop fields the log line did not provide so the JSON stays compact
+    (Object.keys(event) as (keyof BrokerEvent)[]).forEach(key => {
+      if (event[key] === undefined) {
+        delete event[key];
+      }
+    });
+
+    this.events.push(event);
+    if (this.events.length > this.capacity) {
+      this.events.splice(0, this.events.length - this.capacity);
+    }
+  }
+}
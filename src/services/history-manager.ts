@@ -0,0 +1,275 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeConfig,
+  BridgeManager,
+  ConfigRevision,
+  ConfigRevisionDiff,
+  ConfigRevisionSnapshot,
+  ConfigRevisionState,
+  HistoryManager,
+  SecretStore,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import { DiffUtils } from '../utils/diff-utils';
+import { SecretUtils } from '../utils/secret-utils';
+import * as path from 'path';
+
+export class HistoryManagerImpl implements HistoryManager {
+  private app: PluginServerApp;
+  private secretStore: SecretStore;
+  private bridgeManager: BridgeManager;
+  private dataDir: string;
+  private historyDir: string;
+  private indexFile: string;
+  private maxRevisions: number;
+
+  constructor(
+    app: PluginServerApp,
+    secretStore: SecretStore,
+    bridgeManager: BridgeManager,
+    maxRevisions: number = 200
+  ) {
+    this.app = app;
+    this.secretStore = secretStore;
+    this.bridgeManager = bridgeManager;
+    this.dataDir = FileUtils.getDataDir('signalk-mosquitto');
+    this.historyDir = path.join(this.dataDir, 'history');
+    this.indexFile = path.join(this.historyDir, 'index.json');
+    this.maxRevisions = maxRevisions;
+  }
+
+  async record(route: string, user?: string): Promise<ConfigRevision> {
+    const revisions = await this.listRevisions();
+    const state = await this.readCurrentState();
+
+    // Timestamps as IDs keep revisions sortable; bump on collisions within one millisecond
+    let id = Date.now();
+    const latest = revisions[revisions.length - 1];
+    if (latest && parseInt(latest.id, 10) >= id) {
+      id = parseInt(latest.id, 10) + 1;
+    }
+
+    const revision: ConfigRevision = {
+      id: id.toString(),
+      timestamp: new Date().toISOString(),
+      route,
+      ...(user ? { user } : {}),
+    };
+
+    await FileUtils.ensureDir(this.historyDir);
+    const snapshot: ConfigRevisionSnapshot = { ...revision, state };
+    await FileUtils.writeFile(this.getRevisionFile(revision.id), JSON.stringify(snapshot, null, 2));
+
+    revisions.push(revision);
+    await this.saveIndex(await this.pruneRevisions(revisions));
+
+    console.log(`Recorded configuration revision ${revision.id} (${route})`);
+    return revision;
+  }
+
+  async recordIfChanged(route: string, user?: string): Promise<ConfigRevision | null> {
+    const revisions = await this.listRevisions();
+    const latest = revisions[revisions.length - 1];
+
+    if (latest) {
+      const latestSnapshot = await this.getRevision(latest.id);
+      const current = await this.readCurrentState();
+      if (JSON.stringify(latestSnapshot.state) === JSON.stringify(current)) {
+        return null;
+      }
+    }
+
+    return await this.record(route, user);
+  }
+
+  async listRevisions(): Promise<ConfigRevision[]> {
+    try {
+      if (!(await FileUtils.fileExists(this.indexFile))) {
+        return [];
+      }
+
+      const content = await FileUtils.readFile(this.indexFile);
+      return JSON.parse(content);
+    } catch (error) {
+      console.error(`Failed to load configuration history: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  async getRevision(revisionId: string): Promise<ConfigRevisionSnapshot> {
+    const revisionFile = this.getRevisionFile(revisionId);
+    if (!(await FileUtils.fileExists(revisionFile))) {
+      throw new Error(`Revision '${revisionId}' not found`);
+    }
+
+    const content = await FileUtils.readFile(revisionFile);
+    return JSON.parse(content);
+  }
+
+  async diff(fromId: string, toId: string): Promise<ConfigRevisionDiff> {
+    const fromState = SecretUtils.maskRevisionState(await this.resolveState(fromId));
+    const toState = SecretUtils.maskRevisionState(await this.resolveState(toId));
+
+    const { generatedConfig: fromConfig, ...fromModel } = fromState;
+    const { generatedConfig: toConfig, ...toModel } = toState;
+
+    return {
+      from: fromId,
+      to: toId,
+      model: DiffUtils.unifiedDiff(
+        JSON.stringify(fromModel, null, 2),
+        JSON.stringify(toModel, null, 2),
+        `model@${fromId}`,
+        `model@${toId}`
+      ),
+      generatedConfig: DiffUtils.unifiedDiff(
+        fromConfig,
+        toConfig,
+        `mosquitto.conf@${fromId}`,
+        `mosquitto.conf@${toId}`
+      ),
+    };
+  }
+
+  // Bridges are saved through the bridge manager, so restored passwords end up in the secret
+  // store rather than in bridges.json
+  async restoreRevision(revisionId: string): Promise<void> {
+    const { state } = await this.getRevision(revisionId);
+
+    await FileUtils.ensureDir(this.dataDir);
+    await this.writeJson('webapp-config.json', this.scrubSettings(state.settings));
+    await this.bridgeManager.replaceBridges(await this.restoreBridgePasswords(state));
+    await this.writeJson('users.json', state.users);
+    await this.writeJson('acls.json', state.acls);
+
+    console.log(`Restored configuration stores from revision ${revisionId}`);
+  }
+
+  // Revisions recorded before the secret store hold bridge passwords in clear text; they are
+  // encrypted into the revision's secrets instead
+  async scrubSecrets(): Promise<void> {
+    for (const revision of await this.listRevisions()) {
+      const snapshot = await this.getRevision(revision.id);
+      const { state } = snapshot;
+      const plaintext = (state.bridges || []).filter(b => b.remotePassword);
+      const settingsBridges = state.settings?.bridges || [];
+      const generatedConfig = SecretUtils.maskConfig(state.generatedConfig || '');
+
+      if (
+        plaintext.length === 0 &&
+        !settingsBridges.some(b => b.remotePassword) &&
+        generatedConfig === state.generatedConfig
+      ) {
+        continue;
+      }
+
+      const secrets = { ...state.secrets };
+      for (const bridge of plaintext) {
+        secrets[SecretUtils.bridgePasswordName(bridge.id)] = await this.secretStore.encrypt(
+          bridge.remotePassword!
+        );
+      }
+
+      const scrubbed: ConfigRevisionSnapshot = {
+        ...snapshot,
+        state: {
+          ...state,
+          settings: this.scrubSettings(state.settings),
+          bridges: (state.bridges || []).map(bridge => SecretUtils.stripBridge(bridge)),
+          generatedConfig,
+          secrets,
+        },
+      };
+      await FileUtils.writeFile(
+        this.getRevisionFile(revision.id),
+        JSON.stringify(scrubbed, null, 2)
+      );
+      console.log(`Removed clear-text passwords from configuration revision ${revision.id}`);
+    }
+  }
+
+  private async restoreBridgePasswords(state: ConfigRevisionState): Promise<BridgeConfig[]> {
+    const current = await this.bridgeManager.getBridges();
+
+    return await Promise.all(
+      (state.bridges || []).map(async bridge => {
+        if (bridge.remotePassword) {
+          return bridge;
+        }
+
+        // Without a secrets section the revision cannot tell which bridges had a password,
+        // so the ones currently stored are kept
+        if (!state.secrets) {
+          const password = current.find(b => b.id === bridge.id)?.remotePassword;
+          return password ? { ...bridge, remotePassword: password } : bridge;
+        }
+
+        const secret = state.secrets[SecretUtils.bridgePasswordName(bridge.id)];
+        const password = secret ? await this.secretStore.decrypt(secret) : undefined;
+        return password ? { ...bridge, remotePassword: password } : bridge;
+      })
+    );
+  }
+
+  // Bridges in the settings store are left over from older versions and never read back
+  private scrubSettings(
+    settings: ConfigRevisionState['settings'] | undefined
+  ): ConfigRevisionState['settings'] {
+    return settings?.bridges
+      ? { ...settings, bridges: settings.bridges.map(bridge => SecretUtils.stripBridge(bridge)) }
+      : settings || {};
+  }
+
+  // 'current' compares against the live stores rather than a recorded revision
+  private async resolveState(revisionId: string): Promise<ConfigRevisionState> {
+    if (revisionId === 'current') {
+      return await this.readCurrentState();
+    }
+    return (await this.getRevision(revisionId)).state;
+  }
+
+  private async readCurrentState(): Promise<ConfigRevisionState> {
+    const configFile = path.join(this.dataDir, 'config', 'mosquitto.conf');
+    const bridges: BridgeConfig[] = await this.readJson('bridges.json', []);
+
+    return {
+      settings: this.scrubSettings(await this.readJson('webapp-config.json', {})),
+      bridges: bridges.map(bridge => SecretUtils.stripBridge(bridge)),
+      users: await this.readJson('users.json', []),
+      acls: await this.readJson('acls.json', []),
+      // Passwords are only ever copied into a revision encrypted
+      generatedConfig: (await FileUtils.fileExists(configFile))
+        ? SecretUtils.maskConfig(await FileUtils.readFile(configFile))
+        : '',
+      secrets: await this.secretStore.exportEncrypted('bridges/'),
+    };
+  }
+
+  private async readJson<T>(fileName: string, fallback: T): Promise<T> {
+    const filePath = path.join(this.dataDir, fileName);
+    if (!(await FileUtils.fileExists(filePath))) {
+      return fallback;
+    }
+    return JSON.parse(await FileUtils.readFile(filePath));
+  }
+
+  private async writeJson(fileName: string, value: unknown): Promise<void> {
+    await FileUtils.writeFile(path.join(this.dataDir, fileName), JSON.stringify(value, null, 2));
+  }
+
+  private async pruneRevisions(revisions: ConfigRevision[]): Promise<ConfigRevision[]> {
+    while (revisions.length > this.maxRevisions) {
+      const removed = revisions.shift()!;
+      await FileUtils.deleteFile(this.getRevisionFile(removed.id));
+    }
+    return revisions;
+  }
+
+  private async saveIndex(revisions: ConfigRevision[]): Promise<void> {
+    await FileUtils.writeFile(this.indexFile, JSON.stringify(revisions, null, 2));
+  }
+
+  private getRevisionFile(revisionId: string): string {
+    return path.join(this.historyDir, `${path.basename(revisionId)}.json`);
+  }
+}
@@ -0,0 +1,289 @@
+import { Context, Path, PluginServerApp, SourceRef, Timestamp, Value } from '@signalk/server-api';
+import {
+  IngestionManager,
+  IngestionMapping,
+  IngestionMappingStatus,
+  IngestionStatus,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import { IngestionUtils } from '../utils/ingestion-utils';
+import { MqttUtils } from '../utils/mqtt-utils';
+import { ValidationUtils } from '../utils/validation';
+import * as mqtt from 'mqtt';
+import * as path from 'path';
+
+const PLUGIN_ID = 'signalk-mosquitto';
+const CLIENT_ID = 'signalk-mosquitto-ingestion';
+const RECONNECT_PERIOD_MS = 5000;
+
+interface CompiledMapping {
+  mapping: IngestionMapping;
+  pattern: RegExp;
+}
+
+export class IngestionManagerImpl implements IngestionManager {
+  private app: PluginServerApp;
+  private getEndpoint: () => { host: string; port: number };
+  private mappingsFile: string;
+  private mappings: IngestionMapping[] = [];
+  private compiled: CompiledMapping[] = [];
+  private status = new Map<string, IngestionMappingStatus>();
+  private subscribedTopics: string[] = [];
+  private client: mqtt.MqttClient | null = null;
+  private errorLogged: boolean = false;
+  private running: boolean = false;
+
+  constructor(app: PluginServerApp, getEndpoint: () => { host: string; port: number }) {
+    this.app = app;
+    this.getEndpoint = getEndpoint;
+    this.mappingsFile = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'ingestion.json');
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      if (await FileUtils.fileExists(this.mappingsFile)) {
+        this.mappings = JSON.parse(await FileUtils.readFile(this.mappingsFile));
+      }
+    } catch (error) {
+      console.error(`Failed to load ingestion mappings: ${(error as Error).message}`);
+    }
+
+    this.applyMappings();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.compiled = [];
+    this.disconnect();
+  }
+
+  getMappings(): IngestionMapping[] {
+    return this.mappings.map(mapping => ({ ...mapping }));
+  }
+
+  async addMapping(mapping: IngestionMapping): Promise<IngestionMapping> {
+    const validation = ValidationUtils.validateIngestionMapping(mapping);
+    if (validation.length > 0) {
+      throw new Error(`Ingestion mapping validation failed: ${validation.join(', ')}`);
+    }
+
+    const added = { ...mapping, id: mapping.id || Date.now().toString() };
+    if (this.mappings.some(m => m.id === added.id)) {
+      throw new Error(`Ingestion mapping with ID '${added.id}' already exists`);
+    }
+
+    await this.saveMappings([...this.mappings, added]);
+    console.log(`Ingestion mapping '${added.name}' added successfully`);
+    return added;
+  }
+
+  async updateMapping(mappingId: string, mapping: IngestionMapping): Promise<IngestionMapping> {
+    const validation = ValidationUtils.validateIngestionMapping(mapping);
+    if (validation.length > 0) {
+      throw new Error(`Ingestion mapping validation failed: ${validation.join(', ')}`);
+    }
+
+    if (!this.mappings.some(m => m.id === mappingId)) {
+      throw new Error(`Ingestion mapping with ID '${mappingId}' not found`);
+    }
+
+    const updated = { ...mapping, id: mappingId };
+    await this.saveMappings(this.mappings.map(m => (m.id === mappingId ? updated : m)));
+    console.log(`Ingestion mapping '${updated.name}' updated successfully`);
+    return updated;
+  }
+
+  async removeMapping(mappingId: string): Promise<void> {
+    const removed = this.mappings.find(m => m.id === mappingId);
+    if (!removed) {
+      throw new Error(`Ingestion mapping with ID '${mappingId}' not found`);
+    }
+
+    await this.saveMappings(this.mappings.filter(m => m.id !== mappingId));
+    console.log(`Ingestion mapping '${removed.name}' removed successfully`);
+  }
+
+  getStatus(): IngestionStatus {
+    return {
+      connected: this.client?.connected ?? false,
+      mappings: this.mappings.map(mapping => ({ ...this.getMappingStatus(mapping.id) })),
+    };
+  }
+
+  private async saveMappings(mappings: IngestionMapping[]): Promise<void> {
+    await FileUtils.ensureDir(path.dirname(this.mappingsFile));
+    await FileUtils.writeFile(this.mappingsFile, JSON.stringify(mappings, null, 2));
+    this.mappings = mappings;
+
+    for (const mappingId of this.status.keys()) {
+      if (!mappings.some(m => m.id === mappingId)) {
+        this.status.delete(mappingId);
+      }
+    }
+
+    if (this.running) {
+      this.applyMappings();
+    }
+  }
+
+  // The broker connection is only kept open while at least one mapping is enabled
+  private applyMappings(): void {
+    const enabled = this.mappings.filter(m => m.enabled);
+    this.compiled = enabled.map(mapping => ({
+      mapping,
+      pattern: IngestionUtils.compileTopicPattern(mapping.topic),
+    }));
+
+    if (enabled.length === 0) {
+      this.disconnect();
+      return;
+    }
+
+    const topics = Array.from(new Set(enabled.map(m => m.topic)));
+    if (!this.client) {
+      this.subscribedTopics = topics;
+      this.connect();
+      return;
+    }
+
+    const removed = this.subscribedTopics.filter(t => !topics.includes(t));
+    const added = topics.filter(t => !this.subscribedTopics.includes(t));
+    if (removed.length > 0) {
+      this.client.unsubscribe(removed);
+    }
+    if (added.length > 0) {
+      this.client.subscribe(added, { qos: 0 });
+    }
+    this.subscribedTopics = topics;
+  }
+
+  private connect(): void {
+    const client = MqttUtils.connectToEndpoint(
+      this.getEndpoint,
+      {
+        clientId: CLIENT_ID,
+        reconnectPeriod: RECONNECT_PERIOD_MS,
+        connectTimeout: 5000,
+        // MQTT 5 passes on the user property that marks the publisher's own messages
+        protocolVersion: 5,
+      },
+      () => {
+        this.disconnect();
+        this.applyMappings();
+      }
+    );
+    this.client = client;
+
+    // Subscriptions made before the connection is up are queued, and mqtt.js re-subscribes
+    // to everything subscribed when it reconnects
+    client.subscribe(this.subscribedTopics, { qos: 0 });
+
+    client.on('connect', () => {
+      this.errorLogged = false;
+    });
+
+    client.on('message', (topic, message, packet) => {
+      if (packet.properties?.userProperties?.[IngestionUtils.ORIGIN_PROPERTY]) {
+        return;
+      }
+      this.handleMessage(topic, message.toString());
+    });
+
+    client.on('error', error => {
+      // Reconnection keeps failing while the broker is stopped; one line per outage is enough
+      if (!this.errorLogged) {
+        this.errorLogged = true;
+        console.log(`Ingestion client error: ${error.message}`);
+      }
+    });
+  }
+
+  private disconnect(): void {
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.on('error', () => {});
+      this.client.end(true);
+      this.client = null;
+    }
+    this.subscribedTopics = [];
+  }
+
+  private handleMessage(topic: string, payload: string): void {
+    for (const { mapping, pattern } of this.compiled) {
+      const match = topic.match(pattern);
+      if (!match) {
+        continue;
+      }
+
+      const status = this.getMappingStatus(mapping.id);
+      status.received++;
+      status.lastTopic = topic;
+      status.lastReceivedAt = new Date().toISOString();
+
+      try {
+        const skPath = IngestionUtils.renderPath(mapping.path, match.slice(1));
+        const value = this.convertValue(mapping, payload);
+
+        this.app.handleMessage(PLUGIN_ID, {
+          ...(mapping.context ? { context: mapping.context as Context } : {}),
+          updates: [
+            {
+              $source: mapping.source as SourceRef,
+              timestamp: new Date().toISOString() as Timestamp,
+              values: [{ path: skPath as Path, value: value as Value }],
+            },
+          ],
+        });
+
+        status.emitted++;
+        status.lastPath = skPath;
+        status.lastValue = value;
+        delete status.lastError;
+      } catch (error) {
+        status.lastError = (error as Error).message;
+      }
+    }
+  }
+
+  // Extraction first, then scaling (value * scale + offset), then conversion to SI units
+  private convertValue(mapping: IngestionMapping, payload: string): unknown {
+    let value = IngestionUtils.parsePayload(payload);
+
+    if (mapping.jsonPath) {
+      value = IngestionUtils.extractJsonPath(value, mapping.jsonPath);
+      if (value === undefined) {
+        throw new Error(`${mapping.jsonPath} not found in payload`);
+      }
+    }
+
+    const numeric =
+      mapping.scale !== undefined || mapping.offset !== undefined || mapping.unitConversion;
+    if (!numeric) {
+      return value;
+    }
+
+    const parsed = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof parsed !== 'number' || isNaN(parsed)) {
+      throw new Error(`Payload value ${JSON.stringify(value)} is not a number`);
+    }
+
+    const scaled = parsed * (mapping.scale ?? 1) + (mapping.offset ?? 0);
+    return mapping.unitConversion
+      ? IngestionUtils.convertUnit(scaled, mapping.unitConversion)
+      : scaled;
+  }
+
+  private getMappingStatus(mappingId: string): IngestionMappingStatus {
+    let status = this.status.get(mappingId);
+    if (!status) {
+      status = { mappingId, received: 0, emitted: 0 };
+      this.status.set(mappingId, status);
+    }
+    return status;
+  }
+}
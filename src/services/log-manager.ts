@@ -0,0 +1,193 @@
+import { PluginServerApp } from '@signalk/server-api';
+import { LogEntry, LogManager, LogPage, LogQuery } from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import * as path from 'path';
+
+const LEVEL_ORDER: LogEntry['level'][] = ['debug', 'information', 'notice', 'warning', 'error'];
+
+// Mosquitto does not write the log type next to each line, so it is inferred from the message
+const LEVEL_PATTERNS: { level: LogEntry['level']; pattern: RegExp }[] = [
+  { level: 'error', pattern: /^(Error|Unable to|Out of memory)/i },
+  { level: 'warning', pattern: /^Warning|Socket error|Connection error|exceeded timeout/i },
+  { level: 'debug', pattern: /^(Sending|Received) [A-Z]+/ },
+  {
+    level: 'notice',
+    pattern:
+      /^(New connection|New client|New bridge|Client .* (disconnected|closed its connection|already connected)|Connecting bridge|Bridge .* (doing|sending)|mosquitto version|Opening|Config loaded|Saving in-memory|Reloading config|Running as|Loading plugin|Closing)/,
+  },
+];
+
+const INITIAL_READ_BYTES = 256 * 1024;
+const MAX_READ_BYTES = 1024 * 1024;
+
+export class LogManagerImpl implements LogManager {
+  private app: PluginServerApp;
+  private logFile: string;
+  private capacity: number;
+  private pollIntervalMs: number;
+  private entries: LogEntry[] = [];
+  private nextId: number = 1;
+  private listeners = new Set<(entry: LogEntry) => void>();
+  private partialLines: Partial<Record<LogEntry['source'], string>> = {};
+  private fileOffset: number = 0;
+  private fileInode: number | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+
+  constructor(app: PluginServerApp, capacity: number = 5000, pollIntervalMs: number = 1000) {
+    this.app = app;
+    this.logFile = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'mosquitto.log');
+    this.capacity = capacity;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    // Backfill the buffer with the end of the existing log, starting at a whole line
+    const info = await FileUtils.getFileInfo(this.logFile);
+    if (info) {
+      const start = Math.max(0, info.size - INITIAL_READ_BYTES);
+      const content = await FileUtils.readFileRange(this.logFile, start, info.size);
+      this.ingest('file', start > 0 ? content.slice(content.indexOf('\n') + 1) : content);
+      this.fileOffset = info.size;
+      this.fileInode = info.inode;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.pollLogFile();
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.listeners.clear();
+  }
+
+  ingest(source: LogEntry['source'], chunk: string): void {
+    const text = (this.partialLines[source] || '') + chunk;
+    const lines = text.split('\n');
+    this.partialLines[source] = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        this.append(this.parseLine(line.replace(/\r$/, ''), source));
+      }
+    }
+  }
+
+  getEntries(query: LogQuery): LogPage {
+    const limit = Math.min(Math.max(query.limit || 200, 1), 1000);
+    const matching = this.entries.filter(entry => this.matches(entry, query));
+
+    // Pages are counted back from the newest entry; each page is returned oldest first
+    const page = matching.slice(Math.max(0, matching.length - limit));
+    return {
+      entries: page,
+      total: matching.length,
+      hasMore: matching.length > page.length,
+    };
+  }
+
+  matches(entry: LogEntry, query: LogQuery): boolean {
+    if (query.before !== undefined && entry.id >= query.before) {
+      return false;
+    }
+    if (query.after !== undefined && entry.id <= query.after) {
+      return false;
+    }
+    if (query.level && LEVEL_ORDER.indexOf(entry.level) < LEVEL_ORDER.indexOf(query.level)) {
+      return false;
+    }
+    if (query.search && !entry.message.toLowerCase().includes(query.search.toLowerCase())) {
+      return false;
+    }
+    return true;
+  }
+
+  subscribe(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private append(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error(`Log listener failed: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private parseLine(line: string, source: LogEntry['source']): LogEntry {
+    let timestamp = new Date();
+    let message = line;
+
+    // log_timestamp true prefixes epoch seconds; log_timestamp_format may give ISO 8601 instead
+    const epochMatch = line.match(/^(\d{9,}):\s?(.*)$/);
+    const isoMatch = line.match(/^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}[^:\s]*):\s?(.*)$/);
+    if (epochMatch) {
+      timestamp = new Date(parseInt(epochMatch[1], 10) * 1000);
+      message = epochMatch[2];
+    } else if (isoMatch && !isNaN(Date.parse(isoMatch[1]))) {
+      timestamp = new Date(isoMatch[1]);
+      message = isoMatch[2];
+    }
+
+    const matched = LEVEL_PATTERNS.find(p => p.pattern.test(message));
+    const level = matched ? matched.level : source === 'stderr' ? 'error' : 'information';
+
+    return {
+      id: this.nextId++,
+      timestamp: timestamp.toISOString(),
+      level,
+      message,
+      source,
+    };
+  }
+
+  private async pollLogFile(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const info = await FileUtils.getFileInfo(this.logFile);
+      if (!info) {
+        return;
+      }
+
+      // Rotated or truncated: start again from the top of the new file
+      if (info.inode !== this.fileInode || info.size < this.fileOffset) {
+        this.fileOffset = 0;
+        this.fileInode = info.inode;
+        this.partialLines.file = '';
+      }
+
+      if (info.size > this.fileOffset) {
+        const end = Math.min(info.size, this.fileOffset + MAX_READ_BYTES);
+        const content = await FileUtils.readFileRange(this.logFile, this.fileOffset, end);
+        this.fileOffset = end;
+        this.ingest('file', content);
+      }
+    } catch (error) {
+      console.error(`Failed to read broker log: ${(error as Error).message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
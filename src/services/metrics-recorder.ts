@@ -0,0 +1,243 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BrokerStatsSnapshot,
+  MetricDefinition,
+  MetricSample,
+  MetricsHistory,
+  MetricsHistoryQuery,
+  MetricsRecorder,
+  StatsManager,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import * as path from 'path';
+
+const METRICS: MetricDefinition[] = [
+  { name: 'connectedClients', unit: 'clients', description: 'Connected clients' },
+  { name: 'messagesReceived', unit: 'messages/min', description: 'Messages received' },
+  { name: 'messagesSent', unit: 'messages/min', description: 'Messages sent' },
+  { name: 'bytesReceived', unit: 'bytes/min', description: 'Bytes received' },
+  { name: 'bytesSent', unit: 'bytes/min', description: 'Bytes sent' },
+  { name: 'subscriptions', unit: 'subscriptions', description: 'Active subscriptions' },
+  { name: 'retainedMessages', unit: 'messages', description: 'Retained messages' },
+  { name: 'heapCurrent', unit: 'bytes', description: 'Broker heap in use' },
+];
+
+// Rate metrics are derived from the difference between two samples of a $SYS counter
+const RATE_COUNTERS: Record<string, keyof BrokerStatsSnapshot> = {
+  messagesReceived: 'messagesReceived',
+  messagesSent: 'messagesPublished',
+  bytesReceived: 'bytesReceived',
+  bytesSent: 'bytesPublished',
+};
+
+const MINUTE_MS = 60 * 1000;
+const QUARTER_HOUR_MS = 15 * MINUTE_MS;
+const MINUTE_RETENTION_MS = 24 * 60 * MINUTE_MS;
+const QUARTER_HOUR_RETENTION_MS = 30 * 24 * 60 * MINUTE_MS;
+const MAX_POINTS = 1500;
+const PERSIST_EVERY_SAMPLES = 5;
+
+interface StoredHistory {
+  minute: MetricSample[];
+  quarterHour: MetricSample[];
+}
+
+export class MetricsRecorderImpl implements MetricsRecorder {
+  private app: PluginServerApp;
+  private statsManager: StatsManager;
+  private historyFile: string;
+  private sampleIntervalMs: number;
+  private minuteSamples: MetricSample[] = [];
+  private quarterHourSamples: MetricSample[] = [];
+  private previous: { timestamp: number; snapshot: BrokerStatsSnapshot } | null = null;
+  private sampleTimer: NodeJS.Timeout | null = null;
+  private unsavedSamples: number = 0;
+
+  constructor(
+    app: PluginServerApp,
+    statsManager: StatsManager,
+    sampleIntervalMs: number = MINUTE_MS
+  ) {
+    this.app = app;
+    this.statsManager = statsManager;
+    this.historyFile = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'metrics-history.json');
+    this.sampleIntervalMs = sampleIntervalMs;
+  }
+
+  async start(): Promise<void> {
+    if (this.sampleTimer) {
+      return;
+    }
+
+    try {
+      if (await FileUtils.fileExists(this.historyFile)) {
+        const stored: StoredHistory = JSON.parse(await FileUtils.readFile(this.historyFile));
+        this.minuteSamples = stored.minute || [];
+        this.quarterHourSamples = stored.quarterHour || [];
+        this.prune(Date.now());
+      }
+    } catch (error) {
+      console.error(`Failed to load metrics history: ${(error as Error).message}`);
+    }
+
+    this.sampleTimer = setInterval(() => {
+      this.sample();
+    }, this.sampleIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+    this.previous = null;
+    await this.persist();
+  }
+
+  getMetricDefinitions(): MetricDefinition[] {
+    return METRICS.map(metric => ({ ...metric }));
+  }
+
+  getHistory(query: MetricsHistoryQuery): MetricsHistory {
+    const definition = METRICS.find(m => m.name === query.metric);
+    if (!definition) {
+      throw new Error(
+        `Unknown metric: ${query.metric}. Available metrics: ${METRICS.map(m => m.name).join(', ')}`
+      );
+    }
+
+    const now = Date.now();
+    const to = query.to !== undefined ? query.to : now;
+    const from = query.from !== undefined ? query.from : to - MINUTE_RETENTION_MS;
+    if (from >= to) {
+      throw new Error('from must be earlier than to');
+    }
+
+    // Ranges reaching back beyond a day are served from the 15-minute tier
+    const useMinuteTier = from >= now - MINUTE_RETENTION_MS;
+    const samples = useMinuteTier ? this.minuteSamples : this.quarterHourSamples;
+    const resolution = useMinuteTier ? MINUTE_MS : QUARTER_HOUR_MS;
+
+    const requested = Math.max(query.step ? query.step * 1000 : resolution, resolution);
+    const minimum = Math.ceil((to - from) / MAX_POINTS / resolution) * resolution;
+    const step = Math.max(requested, minimum);
+
+    const inRange = samples.filter(
+      s => s.timestamp >= from && s.timestamp <= to && s.values[query.metric] !== undefined
+    );
+    const points = this.bucket(inRange, step).map(sample => ({
+      timestamp: new Date(sample.timestamp).toISOString(),
+      value: sample.values[query.metric],
+    }));
+
+    return { metric: definition.name, unit: definition.unit, step: step / 1000, points };
+  }
+
+  private sample(): void {
+    const snapshot = this.statsManager.getSnapshot();
+
+    // Nothing is recorded while the broker is unreachable, which leaves a gap in the charts
+    if (!snapshot.connected || !snapshot.updatedAt) {
+      this.previous = null;
+      return;
+    }
+
+    const now = Date.now();
+    const metrics = this.statsManager.getMetrics();
+    const values: Record<string, number> = { connectedClients: snapshot.connectedClients };
+
+    if (metrics.subscriptions !== undefined) {
+      values.subscriptions = metrics.subscriptions;
+    }
+    if (metrics.messages.retained !== undefined) {
+      values.retainedMessages = metrics.messages.retained;
+    }
+    if (metrics.heap.current !== undefined) {
+      values.heapCurrent = metrics.heap.current;
+    }
+
+    if (this.previous) {
+      const minutes = (now - this.previous.timestamp) / MINUTE_MS;
+      for (const [metric, counter] of Object.entries(RATE_COUNTERS)) {
+        const delta = (snapshot[counter] as number) - (this.previous.snapshot[counter] as number);
+        // A negative delta means the broker restarted and its counters were reset
+        if (delta >= 0 && minutes > 0) {
+          values[metric] = Math.round((delta / minutes) * 100) / 100;
+        }
+      }
+    }
+    this.previous = { timestamp: now, snapshot };
+
+    this.minuteSamples.push({ timestamp: now, values });
+    this.downsample(now);
+    this.prune(now);
+
+    this.unsavedSamples++;
+    if (this.unsavedSamples >= PERSIST_EVERY_SAMPLES) {
+      this.persist();
+    }
+  }
+
+  // Folds every completed 15-minute bucket of minute samples into one averaged sample
+  private downsample(now: number): void {
+    const last = this.quarterHourSamples[this.quarterHourSamples.length - 1];
+    const after = last ? last.timestamp + QUARTER_HOUR_MS : -Infinity;
+    const currentBucket = Math.floor(now / QUARTER_HOUR_MS) * QUARTER_HOUR_MS;
+
+    const complete = this.minuteSamples.filter(
+      s => s.timestamp >= after && s.timestamp < currentBucket
+    );
+    this.quarterHourSamples.push(...this.bucket(complete, QUARTER_HOUR_MS));
+  }
+
+  private bucket(samples: MetricSample[], stepMs: number): MetricSample[] {
+    const buckets = new Map<
+      number,
+      { sums: Record<string, number>; counts: Record<string, number> }
+    >();
+
+    for (const sample of samples) {
+      const start = Math.floor(sample.timestamp / stepMs) * stepMs;
+      let bucket = buckets.get(start);
+      if (!bucket) {
+        bucket = { sums: {}, counts: {} };
+        buckets.set(start, bucket);
+      }
+      for (const [metric, value] of Object.entries(sample.values)) {
+        bucket.sums[metric] = (bucket.sums[metric] || 0) + value;
+        bucket.counts[metric] = (bucket.counts[metric] || 0) + 1;
+      }
+    }
+
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, { sums, counts }]) => {
+        const values: Record<string, number> = {};
+        for (const metric of Object.keys(sums)) {
+          values[metric] = Math.round((sums[metric] / counts[metric]) * 100) / 100;
+        }
+        return { timestamp, values };
+      });
+  }
+
+  private prune(now: number): void {
+    this.minuteSamples = this.minuteSamples.filter(s => s.timestamp >= now - MINUTE_RETENTION_MS);
+    this.quarterHourSamples = this.quarterHourSamples.filter(
+      s => s.timestamp >= now - QUARTER_HOUR_RETENTION_MS
+    );
+  }
+
+  private async persist(): Promise<void> {
+    this.unsavedSamples = 0;
+    try {
+      const stored: StoredHistory = {
+        minute: this.minuteSamples,
+        quarterHour: this.quarterHourSamples,
+      };
+      await FileUtils.ensureDir(path.dirname(this.historyFile));
+      await FileUtils.writeFile(this.historyFile, JSON.stringify(stored));
+    } catch (error) {
+      console.error(`Failed to save metrics history: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,14 +1,46 @@
 import { PluginServerApp } from '@signalk/server-api';
 import {
+  BridgeConfig,
+  BrokerProcessRecord,
+  ConfigApplyResult,
+  ConfigValidationError,
+  ConfigValidationResult,
+  ListenerConfig,
+  LogManager,
   MosquittoCompleteConfig,
   MosquittoManager,
   MosquittoStatus,
   MonitoringMetrics,
+  StatsManager,
 } from '../types/interfaces';
 import { FileUtils } from '../utils/file-utils';
+import { ListenerUtils } from '../utils/listener-utils';
+import { DiffUtils } from '../utils/diff-utils';
+import { ValidationUtils } from '../utils/validation';
 import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
 
+// Directives Mosquitto re-reads on SIGHUP; a change to anything else needs a full restart
+const RELOADABLE_DIRECTIVES = new Set([
+  'allow_anonymous',
+  'password_file',
+  'acl_file',
+  'log_dest',
+  'log_type',
+  'log_timestamp',
+  'autosave_interval',
+]);
+
+// log_type values are separate flags rather than a threshold, so each level up to the chosen
+// one gets its own line
+const LOG_TYPES: MosquittoCompleteConfig['logLevel'][] = [
+  'error',
+  'warning',
+  'notice',
+  'information',
+  'debug',
+];
+
 export class MosquittoManagerImpl implements MosquittoManager {
   private app: PluginServerApp;
   private config: MosquittoCompleteConfig;
@@ -17,17 +49,30 @@ export class MosquittoManagerImpl implements MosquittoManager {
   private dataDir: string;
   private configFile: string;
   private pidFile: string;
+  private ownerFile: string;
   private logFile: string;
   private lastStatsTime: number = 0;
   private lastStats: Partial<MosquittoStatus> = {};
-
-  constructor(app: PluginServerApp, config: MosquittoCompleteConfig) {
+  private appliedConfigContent: string | null = null;
+  private adoptedPid: number | null = null;
+  private logManager: LogManager | null;
+  private statsManager: StatsManager | null;
+
+  constructor(
+    app: PluginServerApp,
+    config: MosquittoCompleteConfig,
+    logManager?: LogManager,
+    statsManager?: StatsManager
+  ) {
     this.app = app;
     this.config = config;
+    this.logManager = logManager || null;
+    this.statsManager = statsManager || null;
     this.dataDir = FileUtils.getDataDir('signalk-mosquitto');
     this.configDir = path.join(this.dataDir, 'config');
     this.configFile = path.join(this.configDir, 'mosquitto.conf');
     this.pidFile = path.join(this.dataDir, 'mosquitto.pid');
+    this.ownerFile = path.join(this.dataDir, 'mosquitto.owner.json');
     this.logFile = path.join(this.dataDir, 'mosquitto.log');
   }
 
@@ -43,6 +88,26 @@ export class MosquittoManagerImpl implements MosquittoManager {
       }
 
       const configContent = await this.generateConfig(this.config);
+
+      // A broker left running by a previous SignalK process is adopted only if it
+      // is still serving the exact configuration we would start it with
+      const orphanPid = await this.findOrphanedInstance();
+      if (orphanPid !== null) {
+        const runningContent = (await FileUtils.fileExists(this.configFile))
+          ? await FileUtils.readFile(this.configFile)
+          : null;
+
+        if (runningContent === configContent) {
+          this.adoptedPid = orphanPid;
+          this.appliedConfigContent = configContent;
+          console.log(`Adopted running Mosquitto instance (pid ${orphanPid})`);
+          return;
+        }
+
+        console.log(`Stopping orphaned Mosquitto instance (pid ${orphanPid}) with stale config`);
+        await this.terminatePid(orphanPid);
+      }
+
       await this.writeConfig(configContent);
 
       if (!(await this.validateConfig())) {
@@ -50,6 +115,7 @@ export class MosquittoManagerImpl implements MosquittoManager {
       }
 
       await this.startMosquittoProcess();
+      this.appliedConfigContent = configContent;
       console.log('Mosquitto broker started successfully');
     } catch (error) {
       console.error(`Failed to start Mosquitto: ${(error as Error).message}`);
@@ -60,25 +126,26 @@ export class MosquittoManagerImpl implements MosquittoManager {
   async stop(): Promise<void> {
     try {
       if (this.mosquittoProcess) {
-        this.mosquittoProcess.kill('SIGTERM');
+        // The close handler clears mosquittoProcess as soon as the child exits
+        const child = this.mosquittoProcess;
+        child.kill('SIGTERM');
 
-        const processExited = await FileUtils.waitForProcess(this.mosquittoProcess.pid!, 5000);
-        if (!processExited) {
+        const processExited = await FileUtils.waitForProcess(child.pid!, 5000);
+        if (!processExited && child.exitCode === null && child.signalCode === null) {
           console.log('Mosquitto process did not exit gracefully, force killing');
-          this.mosquittoProcess.kill('SIGKILL');
+          child.kill('SIGKILL');
         }
 
         this.mosquittoProcess = null;
+      } else if (this.adoptedPid !== null) {
+        await this.terminatePid(this.adoptedPid);
       }
 
-      const pids = await FileUtils.findProcessByName('mosquitto');
-      for (const pid of pids) {
-        await FileUtils.killProcess(pid);
-      }
+      this.adoptedPid = null;
+      this.appliedConfigContent = null;
 
-      if (await FileUtils.fileExists(this.pidFile)) {
-        await FileUtils.deleteFile(this.pidFile);
-      }
+      await FileUtils.deleteFile(this.ownerFile);
+      await FileUtils.deleteFile(this.pidFile);
 
       console.log('Mosquitto broker stopped');
     } catch (error) {
@@ -93,6 +160,114 @@ export class MosquittoManagerImpl implements MosquittoManager {
     await this.start();
   }
 
+  async reload(): Promise<void> {
+    const pid = await this.getOwnedPid();
+    if (pid === null) {
+      throw new Error('Mosquitto is not running under this plugin');
+    }
+
+    process.kill(pid, 'SIGHUP');
+    console.log(`Sent SIGHUP to Mosquitto (pid ${pid})`);
+  }
+
+  async getOwnedPid(): Promise<number | null> {
+    if (this.mosquittoProcess?.pid && this.mosquittoProcess.exitCode === null) {
+      return this.mosquittoProcess.pid;
+    }
+
+    if (this.adoptedPid !== null) {
+      if (await this.isRecordedInstance(this.adoptedPid)) {
+        return this.adoptedPid;
+      }
+      console.log(`Adopted Mosquitto instance (pid ${this.adoptedPid}) is gone`);
+      this.adoptedPid = null;
+    }
+
+    return null;
+  }
+
+  async waitForHealthy(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    const { host, port } = ListenerUtils.getLocalEndpoint(this.config);
+
+    // Give a reloaded broker a moment to exit if it rejected the new files
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    while (Date.now() < deadline) {
+      const pid = await this.getOwnedPid();
+      if (pid !== null && (await FileUtils.canConnect(host, port))) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    return false;
+  }
+
+  async planApply(configContent: string): Promise<ConfigApplyResult> {
+    const previousContent = this.appliedConfigContent;
+    const changedDirectives = DiffUtils.getChangedDirectives(previousContent, configContent);
+
+    if ((await this.getOwnedPid()) === null || previousContent === null) {
+      return { method: 'restart', reason: 'Broker is not running', changedDirectives };
+    }
+
+    const blocking = changedDirectives.filter(d => !RELOADABLE_DIRECTIVES.has(d));
+    if (blocking.length > 0) {
+      return {
+        method: 'restart',
+        reason: `Changed settings require a restart: ${blocking.join(', ')}`,
+        changedDirectives,
+      };
+    }
+
+    const reason =
+      changedDirectives.length > 0
+        ? `Reloaded settings: ${changedDirectives.join(', ')}`
+        : 'Reloaded password and ACL files';
+    return { method: 'reload', reason, changedDirectives };
+  }
+
+  async applyConfig(config: MosquittoCompleteConfig): Promise<ConfigApplyResult> {
+    this.config = config;
+
+    const configContent = await this.generateConfig(config);
+    const plan = await this.planApply(configContent);
+
+    if (plan.method === 'restart') {
+      await this.restart();
+      console.log(`Configuration applied with restart (${plan.reason})`);
+      return plan;
+    }
+
+    // Checked before it is written, so a rejected configuration never replaces the file the
+    // next restart reads
+    const validation = await this.validateConfigContent(configContent);
+    if (!validation.valid) {
+      for (const error of validation.errors) {
+        console.error(`Configuration validation error: ${this.formatValidationError(error)}`);
+      }
+      throw new Error('Generated configuration is invalid');
+    }
+
+    await this.writeConfig(configContent);
+    this.appliedConfigContent = configContent;
+
+    await this.reload();
+    console.log(`Configuration applied with reload (${plan.reason})`);
+    return plan;
+  }
+
+  async getLiveConfig(): Promise<string> {
+    if (this.appliedConfigContent !== null) {
+      return this.appliedConfigContent;
+    }
+    if (await FileUtils.fileExists(this.configFile)) {
+      return await FileUtils.readFile(this.configFile);
+    }
+    return '';
+  }
+
   async getStatus(): Promise<MosquittoStatus> {
     const status: MosquittoStatus = {
       running: false,
@@ -105,11 +280,12 @@ export class MosquittoManagerImpl implements MosquittoManager {
     };
 
     try {
-      const pids = await FileUtils.findProcessByName('mosquitto');
-      status.running = pids.length > 0;
+      const pid = await this.getOwnedPid();
+      status.running = pid !== null;
 
-      if (status.running && pids.length > 0) {
-        status.pid = pids[0];
+      if (pid !== null) {
+        status.pid = pid;
+        status.adopted = pid === this.adoptedPid;
 
         try {
           const uptime = await this.getProcessUptime(status.pid);
@@ -125,11 +301,9 @@ export class MosquittoManagerImpl implements MosquittoManager {
           console.log(`Failed to get Mosquitto version: ${(error as Error).message}`);
         }
 
-        try {
-          const stats = await this.getConnectionStats();
-          Object.assign(status, stats);
-        } catch (error) {
-          console.log(`Failed to get connection stats: ${(error as Error).message}`);
+        Object.assign(status, this.getConnectionStats());
+        if (this.statsManager) {
+          status.metrics = this.statsManager.getMetrics();
         }
       }
     } catch (error) {
@@ -147,8 +321,7 @@ export class MosquittoManagerImpl implements MosquittoManager {
     lines.push('');
 
     lines.push('# Basic configuration');
-    lines.push(`listener ${config.brokerPort} ${config.brokerHost}`);
-    lines.push(`max_connections ${config.maxConnections}`);
+    lines.push('per_listener_settings true');
 
     if (config.persistence) {
       lines.push('persistence true');
@@ -161,7 +334,7 @@ export class MosquittoManagerImpl implements MosquittoManager {
 
     if (config.enableLogging) {
       lines.push(`log_dest file ${this.logFile}`);
-      lines.push(`log_type ${config.logLevel}`);
+      lines.push(...this.getLogTypes(config.logLevel).map(type => `log_type ${type}`));
       lines.push('log_timestamp true');
     }
 
@@ -172,41 +345,11 @@ export class MosquittoManagerImpl implements MosquittoManager {
     lines.push('# System monitoring');
     lines.push('sys_interval 10');
 
-    if (config.enableWebsockets) {
-      lines.push('');
-      lines.push('# WebSocket configuration');
-      lines.push(`listener ${config.websocketPort} ${config.brokerHost}`);
-      lines.push('protocol websockets');
-    }
-
-    if (config.allowAnonymous) {
-      lines.push('allow_anonymous true');
-    } else if (config.enableSecurity) {
-      lines.push('');
-      lines.push('# Security configuration');
-      lines.push('allow_anonymous false');
-
-      const passwordFile = path.join(this.configDir, 'passwd');
-      lines.push(`password_file ${passwordFile}`);
-
-      if (config.acls.length > 0) {
-        const aclFile = path.join(this.configDir, 'acl');
-        lines.push(`acl_file ${aclFile}`);
-      }
-    }
-
-    if (config.tlsEnabled && config.tlsCertPath && config.tlsKeyPath) {
-      lines.push('');
-      lines.push('# TLS configuration');
-      lines.push(`certfile ${config.tlsCertPath}`);
-      lines.push(`keyfile ${config.tlsKeyPath}`);
-
-      if (config.tlsCaPath) {
-        lines.push(`cafile ${config.tlsCaPath}`);
+    for (const listener of ListenerUtils.resolveListeners(config)) {
+      if (listener.enabled) {
+        lines.push('');
+        lines.push(...this.generateListenerConfig(listener, config));
       }
-
-      lines.push('require_certificate false');
-      lines.push('use_identity_as_username false');
     }
 
     if (config.bridges.length > 0) {
@@ -218,29 +361,38 @@ export class MosquittoManagerImpl implements MosquittoManager {
           lines.push('');
           lines.push(`# Bridge: ${bridge.name}`);
           lines.push(`connection ${bridge.id}`);
-          lines.push(`address ${bridge.remoteHost}:${bridge.remotePort}`);
+          // Mosquitto tries the addresses of one connection in the order they are listed
+          const addresses = [
+            { host: bridge.remoteHost, port: bridge.remotePort },
+            ...(bridge.fallbackAddresses || []),
+          ];
+          lines.push(`address ${addresses.map(a => `${a.host}:${a.port}`).join(' ')}`);
 
           if (bridge.remoteUsername) {
             lines.push(`remote_username ${bridge.remoteUsername}`);
           }
 
           if (bridge.remotePassword) {
+            // Passwords come from the secret store, so check them again before they are written
+            if (ValidationUtils.hasControlCharacters(bridge.remotePassword)) {
+              throw new Error(
+                `Bridge '${bridge.id}': remote password must not contain control characters`
+              );
+            }
             lines.push(`remote_password ${bridge.remotePassword}`);
           }
 
           lines.push(`keepalive_interval ${bridge.keepalive}`);
           lines.push(`cleansession ${bridge.cleanSession}`);
           lines.push(`try_private ${bridge.tryPrivate}`);
+          lines.push(...this.generateBridgeOptions(bridge));
 
           for (const topic of bridge.topics) {
             let topicLine = `topic ${topic.pattern} ${topic.direction} ${topic.qos}`;
 
-            if (topic.localPrefix) {
-              topicLine += ` ${topic.localPrefix}`;
-            }
-
-            if (topic.remotePrefix) {
-              topicLine += ` ${topic.remotePrefix}`;
+            // Mosquitto reads the prefixes as a pair, so an empty one is written as ""
+            if (topic.localPrefix || topic.remotePrefix) {
+              topicLine += ` ${topic.localPrefix || '""'} ${topic.remotePrefix || '""'}`;
             }
 
             lines.push(topicLine);
@@ -256,6 +408,12 @@ export class MosquittoManagerImpl implements MosquittoManager {
             if (bridge.tlsCaPath) {
               lines.push(`bridge_cafile ${bridge.tlsCaPath}`);
             }
+            if (bridge.tlsVersion) {
+              lines.push(`bridge_tls_version ${bridge.tlsVersion}`);
+            }
+            if (bridge.tlsAlpn) {
+              lines.push(`bridge_alpn ${bridge.tlsAlpn}`);
+            }
             lines.push('bridge_insecure false');
           }
         }
@@ -266,36 +424,282 @@ export class MosquittoManagerImpl implements MosquittoManager {
   }
 
   async writeConfig(configContent: string): Promise<void> {
-    await FileUtils.writeFile(this.configFile, configContent);
+    // Bridge passwords are written in clear text, as mosquitto requires
+    await FileUtils.writePrivateFile(this.configFile, configContent);
     console.log(`Configuration written to ${this.configFile}`);
   }
 
   async validateConfig(): Promise<boolean> {
     try {
-      // Just check if the config file exists and is readable
       const configContent = await FileUtils.readFile(this.configFile);
-      if (!configContent || configContent.trim().length === 0) {
-        console.error('Configuration file is empty or unreadable');
-        return false;
-      }
+      const result = await this.validateConfigContent(configContent);
 
-      // Basic syntax validation - check for required listener directive
-      if (!configContent.includes('listener')) {
-        console.error('Configuration missing required listener directive');
-        return false;
+      for (const error of result.errors) {
+        console.error(`Configuration validation error: ${this.formatValidationError(error)}`);
       }
 
-      return true;
+      return result.valid;
     } catch (error) {
       console.error(`Configuration validation error: ${(error as Error).message}`);
       return false;
     }
   }
 
+  async validateConfigContent(configContent: string): Promise<ConfigValidationResult> {
+    if (!configContent || configContent.trim().length === 0) {
+      return { valid: false, errors: [{ message: 'Configuration is empty' }] };
+    }
+
+    if (!configContent.includes('listener')) {
+      return {
+        valid: false,
+        errors: [{ directive: 'listener', message: 'Configuration has no listener directive' }],
+      };
+    }
+
+    const mosquittoPath = await this.resolveMosquittoBinary();
+    if (!mosquittoPath) {
+      console.log('Mosquitto binary not found, skipping parser validation');
+      return { valid: true, errors: [] };
+    }
+
+    const tempDir = await FileUtils.createTempDir('signalk-mosquitto-validate-');
+    try {
+      const { content, lineMap } = await this.buildTestConfig(configContent);
+      const testConfigFile = path.join(tempDir, 'mosquitto.conf');
+      await FileUtils.writeFile(testConfigFile, content);
+
+      const { exitCode, output } = await this.runTestInstance(mosquittoPath, testConfigFile);
+      if (exitCode === null) {
+        return { valid: true, errors: [] };
+      }
+
+      const originalLines = configContent.split('\n');
+      const errors = ValidationUtils.parseMosquittoOutput(
+        output,
+        testConfigFile,
+        lineMap,
+        originalLines
+      );
+      if (errors.length === 0) {
+        errors.push({ message: `Mosquitto exited with code ${exitCode} during validation` });
+      }
+
+      return { valid: false, errors };
+    } finally {
+      await FileUtils.removeDir(tempDir);
+    }
+  }
+
+  formatValidationError(error: ConfigValidationError): string {
+    const location = [
+      error.line !== undefined ? `line ${error.line}` : null,
+      error.directive ? `'${error.directive}'` : null,
+    ]
+      .filter(part => part !== null)
+      .join(' ');
+
+    return location ? `${location}: ${error.message}` : error.message;
+  }
+
+  // Rewrites the config so a throwaway instance can parse it without touching the live
+  // broker: free ports, no pid/persistence files, errors to stderr and lazy bridges
+  private async buildTestConfig(
+    configContent: string
+  ): Promise<{ content: string; lineMap: (number | null)[] }> {
+    const outputLines: string[] = [];
+    const lineMap: (number | null)[] = [];
+    const push = (line: string, originalLine: number | null): void => {
+      outputLines.push(line);
+      lineMap.push(originalLine);
+    };
+
+    push('log_dest stderr', null);
+    push('log_type error', null);
+    push('log_timestamp false', null);
+
+    const originalLines = configContent.split('\n');
+    for (let index = 0; index < originalLines.length; index++) {
+      const line = originalLines[index];
+      const [directive, ...args] = line.trim().split(/\s+/);
+
+      switch (directive) {
+        case 'listener': {
+          const port = await FileUtils.findFreePort();
+          push(['listener', port.toString(), ...args.slice(1)].join(' '), index + 1);
+          break;
+        }
+        case 'persistence':
+          push('persistence false', index + 1);
+          break;
+        case 'pid_file':
+        case 'log_dest':
+        case 'log_type':
+        case 'log_timestamp':
+        case 'start_type':
+          break;
+        case 'connection':
+          push(line, index + 1);
+          push('start_type lazy', null);
+          break;
+        default:
+          push(line, index + 1);
+      }
+    }
+
+    return { content: outputLines.join('\n') + '\n', lineMap };
+  }
+
+  private async runTestInstance(
+    mosquittoPath: string,
+    configFile: string
+  ): Promise<{ exitCode: number | null; output: string }> {
+    return new Promise(resolve => {
+      let output = '';
+      const testProcess = spawn(mosquittoPath, ['-c', configFile], {
+        detached: false,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      testProcess.stdout?.on('data', data => (output += data.toString()));
+      testProcess.stderr?.on('data', data => (output += data.toString()));
+
+      // Parse and startup errors surface almost immediately; still running means valid
+      const timeout = setTimeout(() => {
+        testProcess.removeAllListeners('close');
+        testProcess.kill('SIGKILL');
+        resolve({ exitCode: null, output });
+      }, 1500);
+
+      testProcess.on('close', code => {
+        clearTimeout(timeout);
+        resolve({ exitCode: code ?? 1, output });
+      });
+
+      testProcess.on('error', error => {
+        clearTimeout(timeout);
+        resolve({ exitCode: 1, output: `Error: ${error.message}` });
+      });
+    });
+  }
+
+  private async resolveMosquittoBinary(): Promise<string | null> {
+    if (await FileUtils.isCommandAvailable('mosquitto')) {
+      return 'mosquitto';
+    }
+
+    const binPath = FileUtils.getMosquittoBinPath();
+    return (await FileUtils.fileExists(binPath)) ? binPath : null;
+  }
+
+  private generateListenerConfig(
+    listener: ListenerConfig,
+    config: MosquittoCompleteConfig
+  ): string[] {
+    const lines: string[] = [];
+
+    lines.push(`# Listener: ${listener.name || listener.id}`);
+    lines.push(
+      listener.bindAddress
+        ? `listener ${listener.port} ${listener.bindAddress}`
+        : `listener ${listener.port}`
+    );
+    if (listener.bindInterface) {
+      lines.push(`bind_interface ${listener.bindInterface}`);
+    }
+    lines.push(`protocol ${listener.protocol}`);
+    if (listener.mountPoint) {
+      lines.push(`mount_point ${listener.mountPoint}`);
+    }
+    lines.push(`max_connections ${listener.maxConnections ?? config.maxConnections}`);
+
+    // Authentication is scoped to this listener by per_listener_settings
+    if (listener.authMode === 'anonymous') {
+      lines.push('allow_anonymous true');
+    } else {
+      lines.push('allow_anonymous false');
+      lines.push(`password_file ${path.join(this.configDir, 'passwd')}`);
+
+      if (config.acls.length > 0) {
+        lines.push(`acl_file ${path.join(this.configDir, 'acl')}`);
+      }
+    }
+
+    if (listener.tlsEnabled && listener.tlsCertPath && listener.tlsKeyPath) {
+      lines.push(`certfile ${listener.tlsCertPath}`);
+      lines.push(`keyfile ${listener.tlsKeyPath}`);
+
+      if (listener.tlsCaPath) {
+        lines.push(`cafile ${listener.tlsCaPath}`);
+      }
+
+      lines.push(`require_certificate ${listener.requireCertificate ? 'true' : 'false'}`);
+      lines.push('use_identity_as_username false');
+    }
+
+    return lines;
+  }
+
+  // Connection, disconnection and bridge messages are logged at notice level, which the event
+  // history relies on, so that level is always included
+  private getLogTypes(
+    logLevel: MosquittoCompleteConfig['logLevel']
+  ): MosquittoCompleteConfig['logLevel'][] {
+    const types = LOG_TYPES.slice(0, LOG_TYPES.indexOf(logLevel) + 1);
+    return types.includes('notice') ? types : [...types, 'notice'];
+  }
+
+  // Only options that were set are written, so mosquitto's defaults apply to the rest
+  private generateBridgeOptions(bridge: BridgeConfig): string[] {
+    const lines: string[] = [];
+
+    if (bridge.roundRobin !== undefined) {
+      lines.push(`round_robin ${bridge.roundRobin}`);
+    }
+    if (bridge.protocolVersion) {
+      lines.push(`bridge_protocol_version ${bridge.protocolVersion}`);
+    }
+    if (bridge.remoteClientId) {
+      lines.push(`remote_clientid ${bridge.remoteClientId}`);
+    }
+    if (bridge.localClientId) {
+      lines.push(`local_clientid ${bridge.localClientId}`);
+    }
+    if (bridge.startType) {
+      lines.push(`start_type ${bridge.startType}`);
+    }
+    if (bridge.restartTimeout !== undefined) {
+      // With a maximum, mosquitto backs off from the base value up to the cap
+      lines.push(
+        bridge.restartTimeoutMax !== undefined
+          ? `restart_timeout ${bridge.restartTimeout} ${bridge.restartTimeoutMax}`
+          : `restart_timeout ${bridge.restartTimeout}`
+      );
+    }
+    if (bridge.idleTimeout !== undefined) {
+      lines.push(`idle_timeout ${bridge.idleTimeout}`);
+    }
+    if (bridge.threshold !== undefined) {
+      lines.push(`threshold ${bridge.threshold}`);
+    }
+    if (bridge.notifications !== undefined) {
+      lines.push(`notifications ${bridge.notifications}`);
+    }
+    if (bridge.notificationTopic) {
+      lines.push(`notification_topic ${bridge.notificationTopic}`);
+    }
+    if (bridge.outgoingRetain !== undefined) {
+      lines.push(`bridge_outgoing_retain ${bridge.outgoingRetain}`);
+    }
+    if (bridge.maxPacketSize !== undefined) {
+      lines.push(`bridge_max_packet_size ${bridge.maxPacketSize}`);
+    }
+
+    return lines;
+  }
+
   private async startMosquittoProcess(): Promise<void> {
-    const mosquittoPath = (await FileUtils.isCommandAvailable('mosquitto'))
-      ? 'mosquitto'
-      : FileUtils.getMosquittoBinPath();
+    const mosquittoPath = (await this.resolveMosquittoBinary()) || FileUtils.getMosquittoBinPath();
 
     this.mosquittoProcess = spawn(mosquittoPath, ['-c', this.configFile], {
       detached: false,
@@ -303,11 +707,17 @@ export class MosquittoManagerImpl implements MosquittoManager {
     });
 
     this.mosquittoProcess.stdout?.on('data', data => {
-      console.log(`Mosquitto stdout: ${data}`);
+      if (this.logManager) {
+        this.logManager.ingest('stdout', data.toString());
+      } else {
+        console.log(`Mosquitto stdout: ${data}`);
+      }
     });
 
+    // Startup failures are written to stderr, so keep them in the server log as well
     this.mosquittoProcess.stderr?.on('data', data => {
       console.log(`Mosquitto stderr: ${data}`);
+      this.logManager?.ingest('stderr', data.toString());
     });
 
     this.mosquittoProcess.on('close', code => {
@@ -320,15 +730,21 @@ export class MosquittoManagerImpl implements MosquittoManager {
       this.mosquittoProcess = null;
     });
 
+    const child = this.mosquittoProcess;
+
     await new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
+        clearInterval(checkProcess);
         reject(new Error('Mosquitto start timeout'));
       }, 10000);
 
       const checkProcess = setInterval(async () => {
         try {
-          const pids = await FileUtils.findProcessByName('mosquitto');
-          if (pids.length > 0) {
+          if (child.exitCode !== null || this.mosquittoProcess !== child) {
+            throw new Error(`Mosquitto exited during startup with code ${child.exitCode}`);
+          }
+
+          if (child.pid && (await FileUtils.isProcessAlive(child.pid))) {
             clearTimeout(timeout);
             clearInterval(checkProcess);
             resolve(void 0);
@@ -340,6 +756,76 @@ export class MosquittoManagerImpl implements MosquittoManager {
         }
       }, 500);
     });
+
+    await this.writeProcessRecord(child.pid!);
+  }
+
+  private async writeProcessRecord(pid: number): Promise<void> {
+    const startTime = await FileUtils.getProcessStartTime(pid);
+    if (!startTime) {
+      console.log(`Could not read start time for Mosquitto pid ${pid}, skipping ownership record`);
+      return;
+    }
+
+    const record: BrokerProcessRecord = { pid, startTime, configFile: this.configFile };
+    await FileUtils.writeFile(this.ownerFile, JSON.stringify(record, null, 2));
+  }
+
+  private async readProcessRecord(): Promise<BrokerProcessRecord | null> {
+    try {
+      if (!(await FileUtils.fileExists(this.ownerFile))) {
+        return null;
+      }
+      return JSON.parse(await FileUtils.readFile(this.ownerFile));
+    } catch {
+      return null;
+    }
+  }
+
+  private async isRecordedInstance(pid: number): Promise<boolean> {
+    const record = await this.readProcessRecord();
+    if (!record || record.pid !== pid || !(await FileUtils.isProcessAlive(pid))) {
+      return false;
+    }
+
+    // A matching start time rules out a recycled PID belonging to another process
+    return (await FileUtils.getProcessStartTime(pid)) === record.startTime;
+  }
+
+  private async findOrphanedInstance(): Promise<number | null> {
+    const record = await this.readProcessRecord();
+    if (!record || record.configFile !== this.configFile) {
+      return null;
+    }
+
+    if (await FileUtils.fileExists(this.pidFile)) {
+      const pidFromFile = parseInt((await FileUtils.readFile(this.pidFile)).trim(), 10);
+      if (pidFromFile !== record.pid) {
+        console.log(`Ignoring ownership record: pid file names ${pidFromFile}, not ${record.pid}`);
+        return null;
+      }
+    }
+
+    if (!(await this.isRecordedInstance(record.pid))) {
+      await FileUtils.deleteFile(this.ownerFile);
+      return null;
+    }
+
+    const commandLine = await FileUtils.getProcessCommandLine(record.pid);
+    if (!commandLine || !commandLine.includes(this.configFile)) {
+      return null;
+    }
+
+    return record.pid;
+  }
+
+  private async terminatePid(pid: number): Promise<void> {
+    await FileUtils.killProcess(pid, 'TERM');
+
+    if (!(await FileUtils.waitForProcess(pid, 5000))) {
+      console.log(`Mosquitto process ${pid} did not exit gracefully, force killing`);
+      await FileUtils.killProcess(pid, 'KILL');
+    }
   }
 
   private async getProcessUptime(pid: number): Promise<number> {
@@ -383,95 +869,27 @@ export class MosquittoManagerImpl implements MosquittoManager {
     }
   }
 
-  private async getConnectionStats(): Promise<Partial<MosquittoStatus>> {
-    try {
-      // Connect to broker and query $SYS topics for statistics
-      const mqtt = await import('mqtt');
-      const client = mqtt.connect(`mqtt://localhost:${this.config.brokerPort}`);
-
-      return new Promise(resolve => {
-        const stats: Partial<MosquittoStatus> = {
-          connectedClients: 0,
-          totalConnections: 0,
-          messagesReceived: 0,
-          messagesPublished: 0,
-          bytesReceived: 0,
-          bytesPublished: 0,
-        };
-
-        let responseCount = 0;
-        const expectedResponses = 6;
-
-        const timeout = setTimeout(() => {
-          client.end();
-          resolve(stats);
-        }, 2000);
-
-        client.on('connect', () => {
-          // Subscribe to Mosquitto system topics
-          client.subscribe('$SYS/broker/clients/connected', { qos: 0 });
-          client.subscribe('$SYS/broker/clients/total', { qos: 0 });
-          client.subscribe('$SYS/broker/messages/received', { qos: 0 });
-          client.subscribe('$SYS/broker/messages/sent', { qos: 0 });
-          client.subscribe('$SYS/broker/bytes/received', { qos: 0 });
-          client.subscribe('$SYS/broker/bytes/sent', { qos: 0 });
-        });
-
-        client.on('message', (topic, message) => {
-          const value = parseInt(message.toString()) || 0;
-
-          switch (topic) {
-            case '$SYS/broker/clients/connected':
-              stats.connectedClients = value;
-              break;
-            case '$SYS/broker/clients/total':
-              stats.totalConnections = value;
-              break;
-            case '$SYS/broker/messages/received':
-              stats.messagesReceived = value;
-              break;
-            case '$SYS/broker/messages/sent':
-              stats.messagesPublished = value;
-              break;
-            case '$SYS/broker/bytes/received':
-              stats.bytesReceived = value;
-              break;
-            case '$SYS/broker/bytes/sent':
-              stats.bytesPublished = value;
-              break;
-          }
-
-          responseCount++;
-          if (responseCount >= expectedResponses) {
-            clearTimeout(timeout);
-            client.end();
-            resolve(stats);
-          }
-        });
-
-        client.on('error', () => {
-          clearTimeout(timeout);
-          client.end();
-          resolve(stats);
-        });
-      });
-    } catch (error) {
-      console.error(`Failed to get connection stats: ${(error as Error).message}`);
-      return {
-        connectedClients: 0,
-        totalConnections: 0,
-        messagesReceived: 0,
-        messagesPublished: 0,
-        bytesReceived: 0,
-        bytesPublished: 0,
-      };
+  // Served from the statistics client's last $SYS snapshot, so this never waits on the broker
+  private getConnectionStats(): Partial<MosquittoStatus> {
+    if (!this.statsManager) {
+      return {};
     }
+
+    const snapshot = this.statsManager.getSnapshot();
+    return {
+      connectedClients: snapshot.connectedClients,
+      totalConnections: snapshot.totalConnections,
+      messagesReceived: snapshot.messagesReceived,
+      messagesPublished: snapshot.messagesPublished,
+      bytesReceived: snapshot.bytesReceived,
+      bytesPublished: snapshot.bytesPublished,
+    };
   }
 
   async getMonitoringMetrics(): Promise<MonitoringMetrics> {
     try {
       const currentTime = Date.now();
-      const currentStats = await this.getConnectionStats();
+      const currentStats = this.getConnectionStats();
 
       // Show current active connections instead of rate
       const activeConnections = `${currentStats.connectedClients || 0}`;
@@ -512,6 +930,7 @@ export class MosquittoManagerImpl implements MosquittoManager {
         messageRate,
         dataRate,
         monitorStatus: 'Active',
+        metrics: this.statsManager ? this.statsManager.getMetrics() : undefined,
       };
     } catch (error) {
       console.error(`Failed to get monitoring metrics: ${(error as Error).message}`);
@@ -0,0 +1,191 @@
+import { ALARM_METHOD, ALARM_STATE, Path, PluginServerApp, Timestamp } from '@signalk/server-api';
+import {
+  BridgeMonitor,
+  NotificationCondition,
+  NotificationManager,
+  NotificationSettings,
+  NotificationState,
+  ProcessMonitor,
+  ProcessMonitorEvent,
+  StatsManager,
+} from '../types/interfaces';
+
+const PLUGIN_ID = 'signalk-mosquitto';
+const BRIDGE_POLL_INTERVAL_MS = 5000;
+const BRIDGE_PATH_PREFIX = 'notifications.mqtt.bridge.';
+
+interface TrackedNotification {
+  state: NotificationState;
+  pending: NodeJS.Timeout | null;
+  pendingState: NotificationState | null;
+}
+
+export class NotificationManagerImpl implements NotificationManager {
+  private app: PluginServerApp;
+  private processMonitor: ProcessMonitor;
+  private statsManager: StatsManager;
+  private bridgeMonitor: BridgeMonitor;
+  private settings: NotificationSettings;
+  private tracked = new Map<string, TrackedNotification>();
+  private unsubscribe: (() => void) | null = null;
+  private bridgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    app: PluginServerApp,
+    processMonitor: ProcessMonitor,
+    statsManager: StatsManager,
+    bridgeMonitor: BridgeMonitor,
+    settings: NotificationSettings
+  ) {
+    this.app = app;
+    this.processMonitor = processMonitor;
+    this.statsManager = statsManager;
+    this.bridgeMonitor = bridgeMonitor;
+    this.settings = settings;
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = this.processMonitor.subscribe(event => this.handleMonitorEvent(event));
+    this.bridgeTimer = setInterval(() => {
+      this.checkBridges();
+    }, BRIDGE_POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.bridgeTimer) {
+      clearInterval(this.bridgeTimer);
+      this.bridgeTimer = null;
+    }
+    // Nothing would ever clear an alarm left raised once the plugin has stopped
+    for (const path of this.tracked.keys()) {
+      this.clear(path, 'MQTT monitoring stopped');
+    }
+    this.tracked.clear();
+  }
+
+  private handleMonitorEvent(event: ProcessMonitorEvent): void {
+    const path = 'notifications.mqtt.broker';
+
+    switch (event.type) {
+      case 'down':
+        this.raise(path, this.settings.brokerDown, event.message);
+        break;
+      case 'failed':
+        this.raise(path, this.settings.brokerFailed, event.message);
+        break;
+      case 'recovered':
+        this.clear(path, event.message);
+        break;
+    }
+  }
+
+  // Bridge state comes from the bridge monitor, which only sees the broker while the broker is
+  // reachable; a stopped broker is reported by the broker notification
+  private checkBridges(): void {
+    if (!this.statsManager.getSnapshot().connected) {
+      return;
+    }
+
+    const configured = new Set<string>();
+    for (const { bridgeId, state } of this.bridgeMonitor.getStatuses()) {
+      const path = this.getBridgePath(bridgeId);
+      configured.add(path);
+      if (state === 'connected') {
+        this.clear(path, `MQTT bridge ${bridgeId} is connected`);
+      } else if (state === 'disabled') {
+        this.clear(path, `MQTT bridge ${bridgeId} is disabled`);
+      } else if (state === 'disconnected') {
+        this.raise(path, this.settings.bridgeDown, `MQTT bridge ${bridgeId} is disconnected`);
+      }
+    }
+
+    // A bridge deleted while down would otherwise stay in alarm forever
+    for (const path of Array.from(this.tracked.keys())) {
+      if (path.startsWith(BRIDGE_PATH_PREFIX) && !configured.has(path)) {
+        this.clear(path, 'MQTT bridge was removed');
+        this.tracked.delete(path);
+      }
+    }
+  }
+
+  private getBridgePath(bridgeId: string): string {
+    return `${BRIDGE_PATH_PREFIX}${bridgeId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+  }
+
+  private raise(path: string, condition: NotificationCondition, message: string): void {
+    const notification = this.getTracked(path);
+
+    if (notification.state === condition.state || notification.pendingState === condition.state) {
+      return;
+    }
+    this.cancelPending(notification);
+
+    // The condition has to persist for the debounce period before anyone is alerted
+    notification.pendingState = condition.state;
+    notification.pending = setTimeout(
+      () => {
+        notification.pending = null;
+        notification.pendingState = null;
+        notification.state = condition.state;
+        this.send(path, condition.state, message);
+      },
+      Math.max(condition.debounceSeconds, 0) * 1000
+    );
+  }
+
+  private clear(path: string, message: string): void {
+    const notification = this.tracked.get(path);
+    if (!notification) {
+      return;
+    }
+
+    this.cancelPending(notification);
+    if (notification.state !== 'normal') {
+      notification.state = 'normal';
+      this.send(path, 'normal', message);
+    }
+  }
+
+  private getTracked(path: string): TrackedNotification {
+    let notification = this.tracked.get(path);
+    if (!notification) {
+      notification = { state: 'normal', pending: null, pendingState: null };
+      this.tracked.set(path, notification);
+    }
+    return notification;
+  }
+
+  private cancelPending(notification: TrackedNotification): void {
+    if (notification.pending) {
+      clearTimeout(notification.pending);
+      notification.pending = null;
+      notification.pendingState = null;
+    }
+  }
+
+  private send(path: string, state: NotificationState, message: string): void {
+    const method = state === 'normal' ? [] : [ALARM_METHOD.visual, ALARM_METHOD.sound];
+    try {
+      this.app.handleMessage(PLUGIN_ID, {
+        updates: [
+          {
+            timestamp: new Date().toISOString() as Timestamp,
+            values: [
+              { path: path as Path, value: { state: state as ALARM_STATE, method, message } },
+            ],
+          },
+        ],
+      });
+    } catch (error) {
+      console.error(`Failed to send notification ${path}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { PluginServerApp } from '@signalk/server-api';
-import { ProcessMonitor, MosquittoStatus, MosquittoManager } from '../types/interfaces';
+import {
+  ProcessMonitor,
+  ProcessMonitorEvent,
+  MosquittoStatus,
+  MosquittoManager,
+} from '../types/interfaces';
 import { FileUtils } from '../utils/file-utils';
 
 export class ProcessMonitorImpl implements ProcessMonitor {
@@ -12,8 +17,12 @@ export class ProcessMonitorImpl implements ProcessMonitor {
   private statusCheckIntervalMs: number = 5000; // 5 seconds
   private maxRestartAttempts: number = 3;
   private restartAttempts: number = 0;
+  private totalRestarts: number = 0;
+  private failedRestarts: number = 0;
   private lastHealthCheck: Date | null = null;
   private consecutiveFailures: number = 0;
+  private listeners = new Set<(event: ProcessMonitorEvent) => void>();
+  private lastEvent: ProcessMonitorEvent['type'] = 'recovered';
 
   constructor(app: PluginServerApp, mosquittoManager: MosquittoManager) {
     this.app = app;
@@ -62,22 +71,35 @@ export class ProcessMonitorImpl implements ProcessMonitor {
     }
   }
 
-  async isHealthy(): Promise<boolean> {
-    try {
-      const status = await this.mosquittoManager.getStatus();
-
-      if (!status.running) {
-        return false;
-      }
+  subscribe(listener: (event: ProcessMonitorEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
-      if (status.pid) {
-        const isProcessAlive = await this.isProcessAlive(status.pid);
-        if (!isProcessAlive) {
-          return false;
-        }
+  private notify(type: ProcessMonitorEvent['type'], message: string): void {
+    // Only transitions are reported; a failed broker stays failed until it recovers
+    if (type === this.lastEvent || (type === 'down' && this.lastEvent === 'failed')) {
+      return;
+    }
+    this.lastEvent = type;
+
+    const event: ProcessMonitorEvent = { type, restartAttempts: this.restartAttempts, message };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Process monitor listener failed: ${(error as Error).message}`);
       }
+    }
+  }
 
-      return true;
+  async isHealthy(): Promise<boolean> {
+    try {
+      // Only the broker instance the manager spawned or adopted counts as healthy
+      const pid = await this.mosquittoManager.getOwnedPid();
+      return pid !== null;
     } catch (error) {
       console.log(`Health check error: ${(error as Error).message}`);
       return false;
@@ -112,6 +134,7 @@ export class ProcessMonitorImpl implements ProcessMonitor {
       if (!status.running) {
         this.consecutiveFailures++;
         console.log(`Mosquitto process not running (failure ${this.consecutiveFailures})`);
+        this.notify('down', 'Mosquitto broker is not running');
 
         if (this.consecutiveFailures >= 2 && this.restartAttempts < this.maxRestartAttempts) {
           await this.attemptRestart();
@@ -122,6 +145,7 @@ export class ProcessMonitorImpl implements ProcessMonitor {
           this.consecutiveFailures = 0;
           this.restartAttempts = 0;
         }
+        this.notify('recovered', 'Mosquitto broker is running');
       }
     } catch (error) {
       this.consecutiveFailures++;
@@ -146,6 +170,7 @@ export class ProcessMonitorImpl implements ProcessMonitor {
 
       if (!isHealthy) {
         console.log('Health check failed - Mosquitto is not healthy');
+        this.notify('down', 'Mosquitto broker is not healthy');
 
         if (this.restartAttempts < this.maxRestartAttempts) {
           await this.attemptRestart();
@@ -153,6 +178,10 @@ export class ProcessMonitorImpl implements ProcessMonitor {
           console.error(
             `Mosquitto health check failed after ${this.maxRestartAttempts} restart attempts`
           );
+          this.notify(
+            'failed',
+            `Mosquitto broker failed and was not recovered after ${this.maxRestartAttempts} restart attempts`
+          );
         }
       } else {
         if (this.restartAttempts > 0) {
@@ -160,6 +189,7 @@ export class ProcessMonitorImpl implements ProcessMonitor {
           this.restartAttempts = 0;
           this.consecutiveFailures = 0;
         }
+        this.notify('recovered', 'Mosquitto broker is running');
       }
     } catch (error) {
       console.error(`Health check error: ${(error as Error).message}`);
@@ -169,10 +199,15 @@ export class ProcessMonitorImpl implements ProcessMonitor {
   private async attemptRestart(): Promise<void> {
     if (this.restartAttempts >= this.maxRestartAttempts) {
       console.error(`Maximum restart attempts (${this.maxRestartAttempts}) reached`);
+      this.notify(
+        'failed',
+        `Mosquitto broker failed and was not recovered after ${this.maxRestartAttempts} restart attempts`
+      );
       return;
     }
 
     this.restartAttempts++;
+    this.totalRestarts++;
     console.log(
       `Attempting to restart Mosquitto (attempt ${this.restartAttempts}/${this.maxRestartAttempts})`
     );
@@ -189,19 +224,11 @@ export class ProcessMonitorImpl implements ProcessMonitor {
         this.consecutiveFailures = 0;
       } else {
         console.log('Mosquitto restart failed - process is not healthy');
+        this.failedRestarts++;
       }
     } catch (error) {
       console.error(`Failed to restart Mosquitto: ${(error as Error).message}`);
-    }
-  }
-
-  private async isProcessAlive(pid: number): Promise<boolean> {
-    try {
-      // Use kill -0 to check if process exists without actually killing it
-      await FileUtils.executeCommand('kill', ['-0', pid.toString()]);
-      return true;
-    } catch {
-      return false;
+      this.failedRestarts++;
     }
   }
 
@@ -211,6 +238,8 @@ export class ProcessMonitorImpl implements ProcessMonitor {
     consecutiveFailures: number;
     restartAttempts: number;
     maxRestartAttempts: number;
+    totalRestarts: number;
+    failedRestarts: number;
   } {
     return {
       isMonitoring: this.isMonitoring,
@@ -218,6 +247,8 @@ export class ProcessMonitorImpl implements ProcessMonitor {
       consecutiveFailures: this.consecutiveFailures,
       restartAttempts: this.restartAttempts,
       maxRestartAttempts: this.maxRestartAttempts,
+      totalRestarts: this.totalRestarts,
+      failedRestarts: this.failedRestarts,
     };
   }
 
@@ -260,6 +291,8 @@ export class ProcessMonitorImpl implements ProcessMonitor {
       consecutiveFailures: number;
       restartAttempts: number;
       maxRestartAttempts: number;
+      totalRestarts: number;
+      failedRestarts: number;
     };
     mosquitto: MosquittoStatus;
     system: {
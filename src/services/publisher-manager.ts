@@ -0,0 +1,340 @@
+import { Context, Delta, Path, PluginServerApp } from '@signalk/server-api';
+import {
+  PublisherManager,
+  PublisherRule,
+  PublisherRuleStatus,
+  PublisherStatus,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import { IngestionUtils } from '../utils/ingestion-utils';
+import { MqttUtils } from '../utils/mqtt-utils';
+import { ValidationUtils } from '../utils/validation';
+import * as mqtt from 'mqtt';
+import * as path from 'path';
+
+const CLIENT_ID = 'signalk-mosquitto-publisher';
+const RECONNECT_PERIOD_MS = 5000;
+const DEFAULT_CONTEXT = 'vessels.self';
+
+interface PendingPublish {
+  timer: NodeJS.Timeout;
+  topic: string;
+  payload: string;
+}
+
+export class PublisherManagerImpl implements PublisherManager {
+  private app: PluginServerApp;
+  private getEndpoint: () => { host: string; port: number };
+  private rulesFile: string;
+  private rules: PublisherRule[] = [];
+  private status = new Map<string, PublisherRuleStatus>();
+  private lastPublished = new Map<string, number>();
+  private pending = new Map<string, PendingPublish>();
+  private unsubscribes: (() => void)[] = [];
+  private client: mqtt.MqttClient | null = null;
+  private errorLogged: boolean = false;
+  private running: boolean = false;
+
+  constructor(app: PluginServerApp, getEndpoint: () => { host: string; port: number }) {
+    this.app = app;
+    this.getEndpoint = getEndpoint;
+    this.rulesFile = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'publisher.json');
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      if (await FileUtils.fileExists(this.rulesFile)) {
+        this.rules = JSON.parse(await FileUtils.readFile(this.rulesFile));
+      }
+    } catch (error) {
+      console.error(`Failed to load publisher rules: ${(error as Error).message}`);
+    }
+
+    this.applyRules();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.unsubscribeAll();
+    this.clearPending();
+    this.disconnect();
+  }
+
+  getRules(): PublisherRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  async addRule(rule: PublisherRule): Promise<PublisherRule> {
+    const validation = ValidationUtils.validatePublisherRule(rule);
+    if (validation.length > 0) {
+      throw new Error(`Publisher rule validation failed: ${validation.join(', ')}`);
+    }
+
+    const added = { ...rule, id: rule.id || Date.now().toString() };
+    if (this.rules.some(r => r.id === added.id)) {
+      throw new Error(`Publisher rule with ID '${added.id}' already exists`);
+    }
+
+    await this.saveRules([...this.rules, added]);
+    console.log(`Publisher rule '${added.name}' added successfully`);
+    return added;
+  }
+
+  async updateRule(ruleId: string, rule: PublisherRule): Promise<PublisherRule> {
+    const validation = ValidationUtils.validatePublisherRule(rule);
+    if (validation.length > 0) {
+      throw new Error(`Publisher rule validation failed: ${validation.join(', ')}`);
+    }
+
+    if (!this.rules.some(r => r.id === ruleId)) {
+      throw new Error(`Publisher rule with ID '${ruleId}' not found`);
+    }
+
+    const updated = { ...rule, id: ruleId };
+    await this.saveRules(this.rules.map(r => (r.id === ruleId ? updated : r)));
+    console.log(`Publisher rule '${updated.name}' updated successfully`);
+    return updated;
+  }
+
+  async removeRule(ruleId: string): Promise<void> {
+    const removed = this.rules.find(r => r.id === ruleId);
+    if (!removed) {
+      throw new Error(`Publisher rule with ID '${ruleId}' not found`);
+    }
+
+    await this.saveRules(this.rules.filter(r => r.id !== ruleId));
+    console.log(`Publisher rule '${removed.name}' removed successfully`);
+  }
+
+  getStatus(): PublisherStatus {
+    return {
+      connected: this.client?.connected ?? false,
+      rules: this.rules.map(rule => ({ ...this.getRuleStatus(rule.id) })),
+    };
+  }
+
+  private async saveRules(rules: PublisherRule[]): Promise<void> {
+    await FileUtils.ensureDir(path.dirname(this.rulesFile));
+    await FileUtils.writeFile(this.rulesFile, JSON.stringify(rules, null, 2));
+    this.rules = rules;
+
+    for (const ruleId of this.status.keys()) {
+      if (!rules.some(r => r.id === ruleId)) {
+        this.status.delete(ruleId);
+      }
+    }
+
+    if (this.running) {
+      this.applyRules();
+    }
+  }
+
+  // Every rule change re-creates all subscriptions; the broker connection is only kept open
+  // while at least one rule is enabled
+  private applyRules(): void {
+    this.unsubscribeAll();
+    this.clearPending();
+    this.lastPublished.clear();
+
+    const enabled = this.rules.filter(r => r.enabled);
+    if (enabled.length === 0) {
+      this.disconnect();
+      return;
+    }
+
+    this.connect();
+
+    for (const rule of enabled) {
+      this.app.subscriptionmanager.subscribe(
+        {
+          context: (rule.context || DEFAULT_CONTEXT) as Context,
+          subscribe: [{ path: rule.path as Path, policy: 'instant' }],
+        },
+        this.unsubscribes,
+        (error: unknown) => {
+          this.getRuleStatus(rule.id).lastError = String(error);
+          console.error(`Publisher rule '${rule.name}' subscription error: ${error}`);
+        },
+        delta => this.handleDelta(rule, delta)
+      );
+    }
+  }
+
+  private unsubscribeAll(): void {
+    this.unsubscribes.splice(0).forEach(unsubscribe => {
+      try {
+        unsubscribe();
+      } catch (error) {
+        console.error(`Failed to unsubscribe publisher rule: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  private clearPending(): void {
+    this.pending.forEach(pending => clearTimeout(pending.timer));
+    this.pending.clear();
+  }
+
+  private connect(): void {
+    if (this.client) {
+      return;
+    }
+
+    const client = MqttUtils.connectToEndpoint(
+      this.getEndpoint,
+      {
+        clientId: CLIENT_ID,
+        reconnectPeriod: RECONNECT_PERIOD_MS,
+        connectTimeout: 5000,
+        queueQoSZero: false,
+        // MQTT 5 carries the user property ingestion uses to skip the publisher's own messages
+        protocolVersion: 5,
+      },
+      () => {
+        this.disconnect();
+        this.connect();
+      }
+    );
+    this.client = client;
+
+    client.on('connect', () => {
+      this.errorLogged = false;
+    });
+
+    client.on('error', error => {
+      // Reconnection keeps failing while the broker is stopped; one line per outage is enough
+      if (!this.errorLogged) {
+        this.errorLogged = true;
+        console.log(`Publisher client error: ${error.message}`);
+      }
+    });
+  }
+
+  private disconnect(): void {
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.on('error', () => {});
+      this.client.end(true);
+      this.client = null;
+    }
+  }
+
+  private handleDelta(rule: PublisherRule, delta: Delta): void {
+    const context: string = delta.context || rule.context || DEFAULT_CONTEXT;
+
+    for (const update of delta.updates || []) {
+      const source: string = update.$source || '';
+      const timestamp: string = update.timestamp || new Date().toISOString();
+
+      for (const { path: skPath, value } of 'values' in update ? update.values : []) {
+        const topic = this.renderTopic(rule.topic, context, skPath, source);
+        const payload = this.renderPayload(rule, context, skPath, value, source, timestamp);
+        this.throttle(rule, `${rule.id}|${context}|${skPath}`, topic, payload);
+      }
+    }
+  }
+
+  // At most one message per minPeriod; values arriving inside the window replace each other and
+  // the latest is sent when it ends, so the last value of a burst is never lost
+  private throttle(rule: PublisherRule, key: string, topic: string, payload: string): void {
+    const now = Date.now();
+    const last = this.lastPublished.get(key);
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      pending.topic = topic;
+      pending.payload = payload;
+      return;
+    }
+
+    if (last === undefined || now - last >= rule.minPeriod) {
+      this.lastPublished.set(key, now);
+      this.publish(rule, topic, payload);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => {
+        const latest = this.pending.get(key);
+        this.pending.delete(key);
+        if (latest) {
+          this.lastPublished.set(key, Date.now());
+          this.publish(rule, latest.topic, latest.payload);
+        }
+      },
+      last + rule.minPeriod - now
+    );
+    this.pending.set(key, { timer, topic, payload });
+  }
+
+  private publish(rule: PublisherRule, topic: string, payload: string): void {
+    const status = this.getRuleStatus(rule.id);
+
+    // mqtt.js would otherwise queue QoS 1/2 messages in memory for as long as the broker is down
+    if (!this.client || !this.client.connected) {
+      status.dropped++;
+      return;
+    }
+
+    const options: mqtt.IClientPublishOptions = {
+      qos: rule.qos,
+      retain: rule.retain,
+      properties: { userProperties: { [IngestionUtils.ORIGIN_PROPERTY]: CLIENT_ID } },
+    };
+    this.client.publish(topic, payload, options, error => {
+      if (error) {
+        status.lastError = error.message;
+      }
+    });
+    status.published++;
+    status.lastTopic = topic;
+    status.lastPublishedAt = new Date().toISOString();
+  }
+
+  private renderTopic(template: string, context: string, skPath: string, source: string): string {
+    // Substituted values become topic levels, so they must not carry wildcards
+    const clean = (value: string): string => value.replace(/[+#]/g, '_');
+    const selfId: string = this.app.selfId || 'self';
+
+    return template
+      .replace(/\{self\}/g, clean(selfId))
+      .replace(/\{context\}/g, clean(context.replace(/\./g, '/')))
+      .replace(/\{path\}/g, clean(skPath.replace(/\./g, '/')))
+      .replace(/\{source\}/g, clean(source));
+  }
+
+  private renderPayload(
+    rule: PublisherRule,
+    context: string,
+    skPath: string,
+    value: unknown,
+    source: string,
+    timestamp: string
+  ): string {
+    switch (rule.format) {
+      case 'delta':
+        return JSON.stringify({
+          context,
+          updates: [{ $source: source, timestamp, values: [{ path: skPath, value }] }],
+        });
+      case 'json':
+        return JSON.stringify({ value, timestamp, source });
+      default:
+        return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    }
+  }
+
+  private getRuleStatus(ruleId: string): PublisherRuleStatus {
+    let status = this.status.get(ruleId);
+    if (!status) {
+      status = { ruleId, published: 0, dropped: 0 };
+      this.status.set(ruleId, status);
+    }
+    return status;
+  }
+}
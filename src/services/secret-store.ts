@@ -0,0 +1,119 @@
+import { PluginServerApp } from '@signalk/server-api';
+import { EncryptedSecret, SecretStore } from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import { SecretUtils } from '../utils/secret-utils';
+import * as path from 'path';
+
+interface SecretsFile {
+  version: 1;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+export class SecretStoreImpl implements SecretStore {
+  private app: PluginServerApp;
+  private secretsFile: string;
+  private keyDir: string;
+  private keyFile: string;
+  private key: Buffer | null = null;
+
+  constructor(app: PluginServerApp) {
+    this.app = app;
+    this.secretsFile = path.join(FileUtils.getDataDir('signalk-mosquitto'), 'secrets.json');
+    // The key lives outside the plugin's data directory, so copies of the stores, snapshots and
+    // history revisions never carry it along
+    this.keyDir = FileUtils.getDataDir('signalk-mosquitto-keys');
+    this.keyFile = path.join(this.keyDir, 'secrets.key');
+  }
+
+  async get(name: string): Promise<string | undefined> {
+    const secret = (await this.readSecrets()).secrets[name];
+    if (!secret) {
+      return undefined;
+    }
+
+    try {
+      return SecretUtils.decrypt(await this.getKey(), secret);
+    } catch (error) {
+      console.error(`Failed to decrypt secret '${name}': ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    const file = await this.readSecrets();
+    file.secrets[name] = SecretUtils.encrypt(await this.getKey(), value);
+    await this.writeSecrets(file);
+  }
+
+  async delete(name: string): Promise<void> {
+    const file = await this.readSecrets();
+    if (name in file.secrets) {
+      delete file.secrets[name];
+      await this.writeSecrets(file);
+    }
+  }
+
+  async list(): Promise<string[]> {
+    return Object.keys((await this.readSecrets()).secrets);
+  }
+
+  // Ciphertexts copied into history revisions, which can later be decrypted with the same key
+  async exportEncrypted(prefix: string): Promise<Record<string, EncryptedSecret>> {
+    const secrets: Record<string, EncryptedSecret> = {};
+    for (const [name, secret] of Object.entries((await this.readSecrets()).secrets)) {
+      if (name.startsWith(prefix)) {
+        secrets[name] = secret;
+      }
+    }
+    return secrets;
+  }
+
+  async encrypt(value: string): Promise<EncryptedSecret> {
+    return SecretUtils.encrypt(await this.getKey(), value);
+  }
+
+  async decrypt(secret: EncryptedSecret): Promise<string | undefined> {
+    try {
+      return SecretUtils.decrypt(await this.getKey(), secret);
+    } catch (error) {
+      console.error(`Failed to decrypt secret: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private async getKey(): Promise<Buffer> {
+    if (this.key) {
+      return this.key;
+    }
+
+    if (await FileUtils.fileExists(this.keyFile)) {
+      const key = Buffer.from((await FileUtils.readFile(this.keyFile)).trim(), 'hex');
+      if (key.length !== 32) {
+        throw new Error(`Secret key ${this.keyFile} is not a 256-bit hex key`);
+      }
+      this.key = key;
+      return key;
+    }
+
+    const key = SecretUtils.generateKey();
+    await FileUtils.ensureDir(this.keyDir);
+    await FileUtils.chmod(this.keyDir, '700');
+    await FileUtils.writePrivateFile(this.keyFile, key.toString('hex'));
+    console.log(`Created secret key ${this.keyFile}`);
+
+    this.key = key;
+    return key;
+  }
+
+  private async readSecrets(): Promise<SecretsFile> {
+    if (!(await FileUtils.fileExists(this.secretsFile))) {
+      return { version: 1, secrets: {} };
+    }
+    return JSON.parse(await FileUtils.readFile(this.secretsFile));
+  }
+
+  private async writeSecrets(file: SecretsFile): Promise<void> {
+    await FileUtils.ensureDir(path.dirname(this.secretsFile));
+    await FileUtils.writePrivateFile(this.secretsFile, JSON.stringify(file, null, 2));
+  }
+}
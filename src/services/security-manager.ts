@@ -395,6 +395,12 @@ export class SecurityManagerImpl implements SecurityManager {
     }
   }
 
+  // Rebuilds passwd and acl from the JSON stores, e.g. after they were restored from history
+  async regenerateFiles(): Promise<void> {
+    await this.generatePasswordFile(await this.getUsers());
+    await this.generateAclFile(await this.getAcls());
+  }
+
   private async saveUsers(users: UserConfig[]): Promise<void> {
     await FileUtils.ensureDir(this.dataDir);
     await FileUtils.writeFile(this.usersFile, JSON.stringify(users, null, 2));
@@ -405,82 +411,100 @@ export class SecurityManagerImpl implements SecurityManager {
     await FileUtils.writeFile(this.aclsFile, JSON.stringify(acls, null, 2));
   }
 
-  private async generatePasswordFile(users: UserConfig[]): Promise<void> {
-    try {
-      await FileUtils.ensureDir(this.configDir);
-
-      const lines: string[] = [];
-      for (const user of users) {
-        if (user.enabled) {
-          lines.push(`${user.username}:${user.password}`);
-        }
+  renderPasswordFile(users: UserConfig[]): string {
+    const lines: string[] = [];
+    for (const user of users) {
+      if (user.enabled) {
+        lines.push(`${user.username}:${user.password}`);
       }
-
-      await FileUtils.writeFile(this.passwordFile, lines.join('\n') + '\n');
-      await FileUtils.chmod(this.passwordFile, '600');
-
-      console.log(`Password file generated with ${lines.length} users`);
-    } catch (error) {
-      console.error(`Failed to generate password file: ${(error as Error).message}`);
-      throw error;
     }
-  }
 
-  private async generateAclFile(acls: AclConfig[]): Promise<void> {
-    try {
-      await FileUtils.ensureDir(this.configDir);
+    return lines.join('\n') + '\n';
+  }
 
-      const lines: string[] = [];
+  renderAclFile(acls: AclConfig[]): string {
+    const lines: string[] = [];
 
-      lines.push('# ACL file generated by SignalK Mosquitto plugin');
-      lines.push('# Do not edit manually - changes will be overwritten');
-      lines.push('');
+    lines.push('# ACL file generated by SignalK Mosquitto plugin');
+    lines.push('# Do not edit manually - changes will be overwritten');
+    lines.push('');
 
-      const userGroups = new Map<string, AclConfig[]>();
-      const clientGroups = new Map<string, AclConfig[]>();
-      const globalAcls: AclConfig[] = [];
+    const userGroups = new Map<string, AclConfig[]>();
+    const clientGroups = new Map<string, AclConfig[]>();
+    const globalAcls: AclConfig[] = [];
 
-      for (const acl of acls) {
-        if (acl.username) {
-          if (!userGroups.has(acl.username)) {
-            userGroups.set(acl.username, []);
-          }
-          userGroups.get(acl.username)!.push(acl);
-        } else if (acl.clientid) {
-          if (!clientGroups.has(acl.clientid)) {
-            clientGroups.set(acl.clientid, []);
-          }
-          clientGroups.get(acl.clientid)!.push(acl);
-        } else {
-          globalAcls.push(acl);
+    for (const acl of acls) {
+      if (acl.username) {
+        if (!userGroups.has(acl.username)) {
+          userGroups.set(acl.username, []);
         }
+        userGroups.get(acl.username)!.push(acl);
+      } else if (acl.clientid) {
+        if (!clientGroups.has(acl.clientid)) {
+          clientGroups.set(acl.clientid, []);
+        }
+        clientGroups.get(acl.clientid)!.push(acl);
+      } else {
+        globalAcls.push(acl);
       }
+    }
 
-      if (globalAcls.length > 0) {
-        lines.push('# Global ACLs');
-        for (const acl of globalAcls) {
-          lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
-        }
-        lines.push('');
+    if (globalAcls.length > 0) {
+      lines.push('# Global ACLs');
+      for (const acl of globalAcls) {
+        lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
       }
+      lines.push('');
+    }
 
-      for (const [username, userAcls] of userGroups) {
-        lines.push(`user ${username}`);
-        for (const acl of userAcls) {
-          lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
-        }
-        lines.push('');
+    for (const [username, userAcls] of userGroups) {
+      lines.push(`user ${username}`);
+      for (const acl of userAcls) {
+        lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
       }
+      lines.push('');
+    }
 
-      for (const [clientid, clientAcls] of clientGroups) {
-        lines.push(`clientid ${clientid}`);
-        for (const acl of clientAcls) {
-          lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
-        }
-        lines.push('');
+    for (const [clientid, clientAcls] of clientGroups) {
+      lines.push(`clientid ${clientid}`);
+      for (const acl of clientAcls) {
+        lines.push(`topic ${this.formatAclAccess(acl.access)} ${acl.topic}`);
       }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  async readGeneratedFiles(): Promise<{ passwd: string; acl: string }> {
+    const readIfExists = async (filePath: string): Promise<string> =>
+      (await FileUtils.fileExists(filePath)) ? await FileUtils.readFile(filePath) : '';
+
+    return {
+      passwd: await readIfExists(this.passwordFile),
+      acl: await readIfExists(this.aclFile),
+    };
+  }
+
+  private async generatePasswordFile(users: UserConfig[]): Promise<void> {
+    try {
+      await FileUtils.ensureDir(this.configDir);
+
+      await FileUtils.writeFile(this.passwordFile, this.renderPasswordFile(users));
+      await FileUtils.chmod(this.passwordFile, '600');
+
+      console.log(`Password file generated with ${users.filter(u => u.enabled).length} users`);
+    } catch (error) {
+      console.error(`Failed to generate password file: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  private async generateAclFile(acls: AclConfig[]): Promise<void> {
+    try {
+      await FileUtils.ensureDir(this.configDir);
 
-      await FileUtils.writeFile(this.aclFile, lines.join('\n'));
+      await FileUtils.writeFile(this.aclFile, this.renderAclFile(acls));
       await FileUtils.chmod(this.aclFile, '644');
 
       console.log(`ACL file generated with ${acls.length} rules`);
@@ -0,0 +1,225 @@
+import { Path, PluginServerApp, Timestamp, Value } from '@signalk/server-api';
+import {
+  BridgeMonitor,
+  MosquittoCompleteConfig,
+  MosquittoManager,
+  SignalKDeltaValue,
+  SignalKMeta,
+  SignalKStatusEmitter,
+  StatsManager,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import { ListenerUtils } from '../utils/listener-utils';
+import { X509Certificate } from 'crypto';
+
+const PLUGIN_ID = 'signalk-mosquitto';
+const CERTIFICATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export class SignalKStatusEmitterImpl implements SignalKStatusEmitter {
+  private app: PluginServerApp;
+  private mosquittoManager: MosquittoManager;
+  private statsManager: StatsManager;
+  private bridgeMonitor: BridgeMonitor;
+  private getConfig: () => MosquittoCompleteConfig;
+  private prefix: string;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private sentMeta = new Set<string>();
+  private certificateExpiry = new Map<string, number>();
+  private certificatesCheckedAt: number = 0;
+  private certificateKey: string = '';
+
+  constructor(
+    app: PluginServerApp,
+    mosquittoManager: MosquittoManager,
+    statsManager: StatsManager,
+    bridgeMonitor: BridgeMonitor,
+    getConfig: () => MosquittoCompleteConfig,
+    prefix: string,
+    intervalMs: number
+  ) {
+    this.app = app;
+    this.mosquittoManager = mosquittoManager;
+    this.statsManager = statsManager;
+    this.bridgeMonitor = bridgeMonitor;
+    this.getConfig = getConfig;
+    this.prefix = prefix.replace(/^\.+|\.+$/g, '');
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.sentMeta.clear();
+    this.emit();
+    this.timer = setInterval(() => {
+      this.emit();
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+
+      // Leave the data model showing the broker as stopped rather than frozen at its last state
+      this.send([{ path: this.path('running'), value: false }]);
+    }
+  }
+
+  async emit(): Promise<void> {
+    try {
+      const pid = await this.mosquittoManager.getOwnedPid();
+      const snapshot = this.statsManager.getSnapshot();
+      const metrics = this.statsManager.getMetrics();
+      const running = pid !== null;
+
+      const values: SignalKDeltaValue[] = [{ path: this.path('running'), value: running }];
+      const meta: SignalKMeta[] = [
+        {
+          path: this.path('running'),
+          value: { description: 'Whether the Mosquitto broker process is running' },
+        },
+      ];
+
+      if (running && snapshot.connected) {
+        values.push({ path: this.path('clients.connected'), value: snapshot.connectedClients });
+        meta.push({
+          path: this.path('clients.connected'),
+          value: { description: 'MQTT clients connected to the broker' },
+        });
+
+        // $SYS load averages are per minute; SignalK rates are per second and SignalK has no unit
+        // for bytes per second, so the byte rates go without one
+        const rates: [string, number | undefined, string | undefined, string][] = [
+          [
+            'messages.receivedRate',
+            metrics.load.messagesReceived?.oneMinute,
+            'Hz',
+            'Messages received',
+          ],
+          ['messages.sentRate', metrics.load.messagesSent?.oneMinute, 'Hz', 'Messages sent'],
+          [
+            'bytes.receivedRate',
+            metrics.load.bytesReceived?.oneMinute,
+            undefined,
+            'Bytes received',
+          ],
+          ['bytes.sentRate', metrics.load.bytesSent?.oneMinute, undefined, 'Bytes sent'],
+        ];
+        for (const [key, perMinute, units, description] of rates) {
+          if (perMinute !== undefined) {
+            values.push({ path: this.path(key), value: Math.round((perMinute / 60) * 100) / 100 });
+            meta.push({
+              path: this.path(key),
+              value: {
+                ...(units ? { units } : {}),
+                description: `${description} per second, 1-minute average`,
+              },
+            });
+          }
+        }
+
+        // Keyed by the configured bridge id, like the notifications and the REST API
+        for (const { bridgeId, state } of this.bridgeMonitor.getStatuses()) {
+          if (state !== 'connected' && state !== 'disconnected') {
+            continue;
+          }
+          const bridgePath = this.path(`bridges.${this.segment(bridgeId)}.connected`);
+          values.push({ path: bridgePath, value: state === 'connected' });
+          meta.push({
+            path: bridgePath,
+            value: { description: `Whether bridge ${bridgeId} is connected to its remote broker` },
+          });
+        }
+      }
+
+      for (const [listenerId, timeToExpiry] of await this.getCertificateExpiry()) {
+        const certPath = this.path(`certificates.${this.segment(listenerId)}.timeToExpiry`);
+        values.push({ path: certPath, value: timeToExpiry });
+        meta.push({
+          path: certPath,
+          value: {
+            units: 's',
+            description: `Time until the TLS certificate of listener ${listenerId} expires`,
+          },
+        });
+      }
+
+      this.sendMeta(meta);
+      this.send(values);
+    } catch (error) {
+      console.error(`Failed to publish broker status to SignalK: ${(error as Error).message}`);
+    }
+  }
+
+  // Certificates change rarely, so files are re-read hourly or when the listener set changes
+  private async getCertificateExpiry(): Promise<Map<string, number>> {
+    const listeners = ListenerUtils.resolveListeners(this.getConfig()).filter(
+      l => l.enabled && l.tlsEnabled && l.tlsCertPath
+    );
+    const key = listeners.map(l => `${l.id}:${l.tlsCertPath}`).join('|');
+    const now = Date.now();
+
+    if (
+      key !== this.certificateKey ||
+      now - this.certificatesCheckedAt > CERTIFICATE_CHECK_INTERVAL_MS
+    ) {
+      this.certificateKey = key;
+      this.certificatesCheckedAt = now;
+      this.certificateExpiry.clear();
+
+      for (const listener of listeners) {
+        try {
+          const certificate = new X509Certificate(
+            await FileUtils.readFile(listener.tlsCertPath as string)
+          );
+          this.certificateExpiry.set(listener.id, Date.parse(certificate.validTo));
+        } catch (error) {
+          console.error(
+            `Failed to read certificate ${listener.tlsCertPath}: ${(error as Error).message}`
+          );
+        }
+      }
+    }
+
+    const seconds = new Map<string, number>();
+    for (const [listenerId, validTo] of this.certificateExpiry) {
+      seconds.set(listenerId, Math.floor((validTo - now) / 1000));
+    }
+    return seconds;
+  }
+
+  private path(key: string): string {
+    return this.prefix ? `${this.prefix}.${key}` : key;
+  }
+
+  // Bridge and listener ids become single path segments
+  private segment(id: string): string {
+    return id.replace(/[^A-Za-z0-9_-]/g, '_');
+  }
+
+  private sendMeta(meta: SignalKMeta[]): void {
+    const fresh = meta.filter(m => !this.sentMeta.has(m.path));
+    if (fresh.length === 0) {
+      return;
+    }
+    fresh.forEach(m => this.sentMeta.add(m.path));
+    this.app.handleMessage(PLUGIN_ID, {
+      updates: [{ meta: fresh.map(m => ({ path: m.path as Path, value: m.value })) }],
+    });
+  }
+
+  private send(values: SignalKDeltaValue[]): void {
+    this.app.handleMessage(PLUGIN_ID, {
+      updates: [
+        {
+          timestamp: new Date().toISOString() as Timestamp,
+          values: values.map(v => ({ path: v.path as Path, value: v.value as Value })),
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,266 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  BridgeConfig,
+  BrokerMetrics,
+  BrokerStatsSnapshot,
+  LoadAverage,
+  StatsManager,
+} from '../types/interfaces';
+import { BridgeUtils } from '../utils/bridge-utils';
+import * as mqtt from 'mqtt';
+
+type CounterField = Exclude<keyof BrokerStatsSnapshot, 'connected' | 'updatedAt'>;
+
+// $SYS topics that feed the typed snapshot; every other $SYS value is kept as raw text
+const SYS_COUNTERS: Record<string, CounterField> = {
+  '$SYS/broker/clients/connected': 'connectedClients',
+  '$SYS/broker/clients/total': 'totalConnections',
+  '$SYS/broker/messages/received': 'messagesReceived',
+  '$SYS/broker/messages/sent': 'messagesPublished',
+  '$SYS/broker/bytes/received': 'bytesReceived',
+  '$SYS/broker/bytes/sent': 'bytesPublished',
+};
+
+const CLIENT_ID = 'signalk-mosquitto-stats';
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+export class StatsManagerImpl implements StatsManager {
+  private app: PluginServerApp;
+  private getEndpoint: () => { host: string; port: number };
+  private getBridges: () => BridgeConfig[];
+  private client: mqtt.MqttClient | null = null;
+  private values = new Map<string, string>();
+  private snapshot: BrokerStatsSnapshot = StatsManagerImpl.emptySnapshot();
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts: number = 0;
+  private running: boolean = false;
+
+  constructor(
+    app: PluginServerApp,
+    getEndpoint: () => { host: string; port: number },
+    getBridges: () => BridgeConfig[]
+  ) {
+    this.app = app;
+    this.getEndpoint = getEndpoint;
+    this.getBridges = getBridges;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.on('error', () => {});
+      this.client.end(true);
+      this.client = null;
+    }
+
+    this.snapshot.connected = false;
+  }
+
+  getSnapshot(): BrokerStatsSnapshot {
+    return { ...this.snapshot };
+  }
+
+  getValue(topic: string): string | undefined {
+    return this.values.get(topic);
+  }
+
+  getMetrics(): BrokerMetrics {
+    const num = (topic: string): number | undefined => this.getNumber(`$SYS/broker/${topic}`);
+    const load = (topic: string): LoadAverage | undefined => this.getLoad(topic);
+
+    // Keyed by the configured bridge id rather than the connection id in the topic
+    const bridges: BrokerMetrics['bridges'] = {};
+    const configured = this.getBridges();
+    for (const [topic, value] of this.values) {
+      const match = topic.match(/^\$SYS\/broker\/connection\/(.+)\/state$/);
+      if (match) {
+        bridges[BridgeUtils.resolveConnectionId(configured, match[1])] = {
+          connected: value.trim() === '1',
+        };
+      }
+    }
+
+    const version = this.values.get('$SYS/broker/version');
+
+    return StatsManagerImpl.compact({
+      updatedAt: this.snapshot.updatedAt,
+      version: version ? version.replace(/^mosquitto version /, '') : undefined,
+      uptime: num('uptime'),
+      clients: {
+        connected: num('clients/connected'),
+        disconnected: num('clients/disconnected'),
+        expired: num('clients/expired'),
+        maximum: num('clients/maximum'),
+        total: num('clients/total'),
+      },
+      messages: {
+        received: num('messages/received'),
+        sent: num('messages/sent'),
+        stored: num('store/messages/count') ?? num('messages/stored'),
+        inflight: num('messages/inflight'),
+        retained: num('retained messages/count'),
+      },
+      publish: {
+        messagesReceived: num('publish/messages/received'),
+        messagesSent: num('publish/messages/sent'),
+        messagesDropped: num('publish/messages/dropped'),
+        bytesReceived: num('publish/bytes/received'),
+        bytesSent: num('publish/bytes/sent'),
+      },
+      bytes: {
+        received: num('bytes/received'),
+        sent: num('bytes/sent'),
+        stored: num('store/messages/bytes'),
+      },
+      subscriptions: num('subscriptions/count'),
+      heap: {
+        current: num('heap/current'),
+        maximum: num('heap/maximum'),
+      },
+      load: {
+        messagesReceived: load('messages/received'),
+        messagesSent: load('messages/sent'),
+        bytesReceived: load('bytes/received'),
+        bytesSent: load('bytes/sent'),
+        connections: load('connections'),
+        sockets: load('sockets'),
+        publishReceived: load('publish/received'),
+        publishSent: load('publish/sent'),
+        publishDropped: load('publish/dropped'),
+      },
+      bridges,
+    });
+  }
+
+  private connect(): void {
+    const { host, port } = this.getEndpoint();
+
+    // Reconnection is scheduled here rather than by mqtt.js so the delay can back off
+    const client = mqtt.connect(`mqtt://${host}:${port}`, {
+      clientId: CLIENT_ID,
+      reconnectPeriod: 0,
+      connectTimeout: 5000,
+    });
+    this.client = client;
+
+    client.on('connect', () => {
+      // $SYS values are retained, so the subscription refills everything; a restarted
+      // broker may have reset its counters in the meantime
+      this.reconnectAttempts = 0;
+      this.values.clear();
+      this.snapshot = { ...StatsManagerImpl.emptySnapshot(), connected: true };
+      client.subscribe('$SYS/#', { qos: 0 });
+    });
+
+    client.on('message', (topic, message) => {
+      this.handleMessage(topic, message.toString());
+    });
+
+    client.on('error', error => {
+      // Only the first failure of a streak is logged while the broker is down
+      if (this.reconnectAttempts === 0) {
+        console.log(`Broker statistics client error: ${error.message}`);
+      }
+    });
+
+    client.on('close', () => {
+      this.snapshot.connected = false;
+      if (this.client === client) {
+        this.client = null;
+        client.removeAllListeners();
+        client.on('error', () => {});
+        client.end(true);
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      MIN_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts),
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private handleMessage(topic: string, value: string): void {
+    this.values.set(topic, value);
+    this.snapshot.updatedAt = new Date().toISOString();
+
+    const field = SYS_COUNTERS[topic];
+    if (field) {
+      this.snapshot[field] = parseInt(value, 10) || 0;
+    }
+  }
+
+  // Values such as "$SYS/broker/uptime" carry a unit suffix ("1234 seconds")
+  private getNumber(topic: string): number | undefined {
+    const value = this.values.get(topic);
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  private getLoad(topic: string): LoadAverage | undefined {
+    const base = `$SYS/broker/load/${topic}`;
+    const oneMinute = this.getNumber(`${base}/1min`);
+    const fiveMinutes = this.getNumber(`${base}/5min`);
+    const fifteenMinutes = this.getNumber(`${base}/15min`);
+
+    if (oneMinute === undefined && fiveMinutes === undefined && fifteenMinutes === undefined) {
+      return undefined;
+    }
+    return {
+      oneMinute: oneMinute || 0,
+      fiveMinutes: fiveMinutes || 0,
+      fifteenMinutes: fifteenMinutes || 0,
+    };
+  }
+
+  // Drops the undefined leaves so the API only reports what the broker publishes
+  private static compact<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private static emptySnapshot(): BrokerStatsSnapshot {
+    return {
+      connected: false,
+      connectedClients: 0,
+      totalConnections: 0,
+      messagesReceived: 0,
+      messagesPublished: 0,
+      bytesReceived: 0,
+      bytesPublished: 0,
+    };
+  }
+}
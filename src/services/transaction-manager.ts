@@ -0,0 +1,125 @@
+import { PluginServerApp } from '@signalk/server-api';
+import {
+  ConfigApplyResult,
+  ConfigSnapshot,
+  MosquittoManager,
+  TransactionManager,
+  TransactionResult,
+} from '../types/interfaces';
+import { FileUtils } from '../utils/file-utils';
+import * as path from 'path';
+
+export class TransactionManagerImpl implements TransactionManager {
+  private app: PluginServerApp;
+  private mosquittoManager: MosquittoManager;
+  private dataDir: string;
+  private configDir: string;
+  private healthTimeoutMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    app: PluginServerApp,
+    mosquittoManager: MosquittoManager,
+    healthTimeoutMs: number = 15000
+  ) {
+    this.app = app;
+    this.mosquittoManager = mosquittoManager;
+    this.dataDir = FileUtils.getDataDir('signalk-mosquitto');
+    this.configDir = path.join(this.dataDir, 'config');
+    this.healthTimeoutMs = healthTimeoutMs;
+  }
+
+  // JSON stores plus every file generated from them
+  private getTrackedFiles(): string[] {
+    return [
+      path.join(this.dataDir, 'webapp-config.json'),
+      path.join(this.dataDir, 'bridges.json'),
+      path.join(this.dataDir, 'users.json'),
+      path.join(this.dataDir, 'acls.json'),
+      path.join(this.dataDir, 'secrets.json'),
+      path.join(this.configDir, 'mosquitto.conf'),
+      path.join(this.configDir, 'passwd'),
+      path.join(this.configDir, 'acl'),
+    ];
+  }
+
+  async snapshot(): Promise<ConfigSnapshot> {
+    const files: ConfigSnapshot['files'] = [];
+
+    for (const filePath of this.getTrackedFiles()) {
+      const existed = await FileUtils.fileExists(filePath);
+      const backupPath = await FileUtils.createBackup(filePath);
+      files.push({ path: filePath, backupPath, existed });
+    }
+
+    return { id: Date.now().toString(), createdAt: new Date().toISOString(), files };
+  }
+
+  async restore(snapshot: ConfigSnapshot): Promise<void> {
+    for (const file of snapshot.files) {
+      if (file.existed) {
+        await FileUtils.restoreBackup(file.backupPath, file.path);
+      } else {
+        await FileUtils.deleteFile(file.path);
+      }
+    }
+
+    console.log(`Restored configuration snapshot ${snapshot.id}`);
+  }
+
+  async discard(snapshot: ConfigSnapshot): Promise<void> {
+    for (const file of snapshot.files) {
+      await FileUtils.deleteFile(file.backupPath);
+    }
+  }
+
+  // Transactions run one at a time, so a rollback can never put files back over a change
+  // another request has just applied
+  async execute(
+    change: () => Promise<void>,
+    apply: () => Promise<ConfigApplyResult | null>
+  ): Promise<TransactionResult> {
+    const result = this.queue.then(() => this.run(change, apply));
+    this.queue = result.catch(() => undefined);
+    return await result;
+  }
+
+  private async run(
+    change: () => Promise<void>,
+    apply: () => Promise<ConfigApplyResult | null>
+  ): Promise<TransactionResult> {
+    const snapshot = await this.snapshot();
+
+    try {
+      await change();
+    } catch (error) {
+      // Nothing was applied yet, so putting the files back is enough
+      await this.restore(snapshot);
+      throw error;
+    }
+
+    let rollbackReason: string;
+    try {
+      const applyResult = await apply();
+      if (await this.mosquittoManager.waitForHealthy(this.healthTimeoutMs)) {
+        await this.discard(snapshot);
+        return { apply: applyResult, rolledBack: false };
+      }
+      rollbackReason = `Broker did not come up healthy within ${this.healthTimeoutMs / 1000}s`;
+    } catch (error) {
+      rollbackReason = (error as Error).message;
+    }
+
+    console.error(`Configuration change failed, rolling back: ${rollbackReason}`);
+    await this.restore(snapshot);
+
+    try {
+      const applyResult = await apply();
+      return { apply: applyResult, rolledBack: true, rollbackReason };
+    } catch (error) {
+      const rollbackError = (error as Error).message;
+      console.error(`Failed to re-apply last known good configuration: ${rollbackError}`);
+      return { apply: null, rolledBack: true, rollbackReason, rollbackError };
+    }
+  }
+}
@@ -7,6 +7,24 @@ export interface MosquittoPluginConfig {
   brokerHost: string;
   enableSecurity: boolean;
   autoStart: boolean;
+  signalkDeltas?: boolean;
+  signalkPathPrefix?: string;
+  signalkUpdateInterval?: number;
+  notifications?: NotificationSettings;
+}
+
+export type NotificationState = 'normal' | 'alert' | 'warn' | 'alarm' | 'emergency';
+
+export interface NotificationCondition {
+  state: NotificationState;
+  debounceSeconds: number;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  brokerDown: NotificationCondition;
+  brokerFailed: NotificationCondition;
+  bridgeDown: NotificationCondition;
 }
 
 // Complete configuration for internal use and webapp management
@@ -23,17 +41,42 @@ export interface MosquittoCompleteConfig extends MosquittoPluginConfig {
   tlsCertPath: string;
   tlsKeyPath: string;
   tlsCaPath: string;
+  listeners: ListenerConfig[];
   bridges: BridgeConfig[];
   users: UserConfig[];
   acls: AclConfig[];
 }
 
+// When listeners is empty the single MQTT/WebSocket layout above is used instead
+export interface ListenerConfig {
+  id: string;
+  enabled: boolean;
+  name?: string;
+  port: number;
+  bindAddress?: string;
+  bindInterface?: string;
+  protocol: 'mqtt' | 'websockets';
+  authMode: 'anonymous' | 'password';
+  mountPoint?: string;
+  maxConnections?: number;
+  tlsEnabled: boolean;
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+  tlsCaPath?: string;
+  requireCertificate?: boolean;
+}
+
 export interface BridgeConfig {
   id: string;
   enabled: boolean;
   name: string;
   remoteHost: string;
   remotePort: number;
+  // Tried in order after remoteHost/remotePort when the broker cannot reach it
+  fallbackAddresses?: BridgeAddress[];
+  // true moves on to the next address on every failure; otherwise the broker keeps returning to
+  // the primary address
+  roundRobin?: boolean;
   remoteUsername?: string;
   remotePassword?: string;
   topics: BridgeTopicConfig[];
@@ -44,6 +87,35 @@ export interface BridgeConfig {
   keepalive: number;
   cleanSession: boolean;
   tryPrivate: boolean;
+  // Optional mosquitto bridge settings; when unset the broker's own default applies
+  protocolVersion?: 'mqttv31' | 'mqttv311' | 'mqttv50';
+  remoteClientId?: string;
+  localClientId?: string;
+  startType?: 'automatic' | 'lazy' | 'once';
+  restartTimeout?: number;
+  restartTimeoutMax?: number;
+  idleTimeout?: number;
+  threshold?: number;
+  notifications?: boolean;
+  notificationTopic?: string;
+  outgoingRetain?: boolean;
+  maxPacketSize?: number;
+  tlsVersion?: 'tlsv1.1' | 'tlsv1.2' | 'tlsv1.3';
+  tlsAlpn?: string;
+  keepaliveMessage?: BridgeKeepaliveMessage;
+}
+
+export interface BridgeAddress {
+  host: string;
+  port: number;
+}
+
+// Published on the local broker every interval seconds so an "out" topic carries it to the
+// remote side, e.g. the R/<portal id>/keepalive messages Victron Venus OS needs to keep publishing
+export interface BridgeKeepaliveMessage {
+  topic: string;
+  payload: string;
+  interval: number;
 }
 
 export interface BridgeTopicConfig {
@@ -54,6 +126,59 @@ export interface BridgeTopicConfig {
   remotePrefix?: string;
 }
 
+// A topic rule that matches the simulated topic; mosquitto uses the first one
+export interface BridgeTopicMatch {
+  index: number;
+  filter: string;
+  qos: 0 | 1 | 2;
+  mappedTopic: string;
+}
+
+// What the broker would do with one sample topic under a bridge's topic rules
+export interface BridgeTopicSimulation {
+  side: 'local' | 'remote';
+  topic: string;
+  forwarded: boolean;
+  direction?: 'out' | 'in';
+  qos?: 0 | 1 | 2;
+  mappedTopic?: string;
+  matches: BridgeTopicMatch[];
+  warnings: string[];
+}
+
+// AES-256-GCM ciphertext of one secret, each part base64 encoded
+export interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface BridgePresetParameter {
+  name: string;
+  label: string;
+  type: 'string' | 'number' | 'password' | 'path';
+  required: boolean;
+  default?: string | number;
+  pattern?: string;
+  description?: string;
+}
+
+// A bridge template: "{name}" inside a string is replaced by that parameter, and a value that is
+// exactly "{name}" takes the parameter's type or is left out when the parameter is empty
+export interface BridgePreset {
+  id: string;
+  name: string;
+  description: string;
+  builtin?: boolean;
+  parameters: BridgePresetParameter[];
+  template: Record<string, unknown>;
+}
+
+export interface BridgePresetResult {
+  bridge: BridgeConfig;
+  errors: string[];
+}
+
 export interface UserConfig {
   username: string;
   password: string;
@@ -67,9 +192,71 @@ export interface AclConfig {
   access: 'read' | 'write' | 'readwrite';
 }
 
+// SignalK data published to the managed broker; topic templates may use {self}, {context},
+// {path} and {source}
+export interface PublisherRule {
+  id: string;
+  enabled: boolean;
+  name: string;
+  context?: string;
+  path: string;
+  topic: string;
+  format: 'value' | 'delta' | 'json';
+  qos: 0 | 1 | 2;
+  retain: boolean;
+  minPeriod: number;
+}
+
+export interface PublisherRuleStatus {
+  ruleId: string;
+  published: number;
+  dropped: number;
+  lastTopic?: string;
+  lastPublishedAt?: string;
+  lastError?: string;
+}
+
+export interface PublisherStatus {
+  connected: boolean;
+  rules: PublisherRuleStatus[];
+}
+
+// MQTT messages turned into SignalK deltas; {1}, {2}, ... in the path are the topic levels
+// matched by the wildcards of the topic pattern
+export interface IngestionMapping {
+  id: string;
+  enabled: boolean;
+  name: string;
+  topic: string;
+  context?: string;
+  path: string;
+  jsonPath?: string;
+  scale?: number;
+  offset?: number;
+  unitConversion?: string;
+  source: string;
+}
+
+export interface IngestionMappingStatus {
+  mappingId: string;
+  received: number;
+  emitted: number;
+  lastTopic?: string;
+  lastPath?: string;
+  lastValue?: unknown;
+  lastReceivedAt?: string;
+  lastError?: string;
+}
+
+export interface IngestionStatus {
+  connected: boolean;
+  mappings: IngestionMappingStatus[];
+}
+
 export interface MosquittoStatus {
   running: boolean;
   pid?: number;
+  adopted?: boolean;
   uptime?: number;
   version?: string;
   connectedClients: number;
@@ -78,6 +265,298 @@ export interface MosquittoStatus {
   messagesPublished: number;
   bytesReceived: number;
   bytesPublished: number;
+  clients?: ConnectedClient[];
+  events?: BrokerEventSummary;
+  metrics?: BrokerMetrics;
+  bridges?: BridgeConnectionStatus[];
+}
+
+export interface BridgeStateChange {
+  timestamp: string;
+  connected: boolean;
+  reason?: string;
+}
+
+// Live state of a configured bridge as reported by the broker's notification messages
+export interface BridgeConnectionStatus {
+  bridgeId: string;
+  enabled: boolean;
+  state: 'connected' | 'disconnected' | 'disabled' | 'unknown';
+  since?: string;
+  lastConnected?: string;
+  lastDisconnected?: string;
+  // host:port the broker last connected or tried to connect to; the active one while connected
+  address?: string;
+  fallback?: boolean;
+  history: BridgeStateChange[];
+}
+
+export interface BridgeTestCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  fingerprint256: string;
+}
+
+export interface BridgeTestTlsDetails {
+  protocol?: string;
+  cipher?: string;
+  alpnProtocol?: string;
+  authorized: boolean;
+  authorizationError?: string;
+  // Server certificate first, then its issuers
+  certificates: BridgeTestCertificate[];
+}
+
+export interface BridgeTestStep {
+  step: 'dns' | 'tcp' | 'tls' | 'connect' | 'subscribe' | 'publish' | 'latency';
+  status: 'passed' | 'warning' | 'failed' | 'skipped';
+  message: string;
+  durationMs?: number;
+  address?: string;
+  topic?: string;
+  resolvedAddresses?: string[];
+  tls?: BridgeTestTlsDetails;
+  reasonCode?: number;
+  grantedQos?: number;
+  latency?: { samples: number; minMs: number; avgMs: number; maxMs: number };
+}
+
+// Result of POST /bridges/test, one entry per check in the order they ran
+export interface BridgeTestReport {
+  success: boolean;
+  connected: boolean;
+  address?: string;
+  steps: BridgeTestStep[];
+  durationMs: number;
+}
+
+export interface LoadAverage {
+  oneMinute: number;
+  fiveMinutes: number;
+  fifteenMinutes: number;
+}
+
+// Typed view of the $SYS tree; values the broker does not publish are left out
+export interface BrokerMetrics {
+  updatedAt?: string;
+  version?: string;
+  uptime?: number;
+  clients: {
+    connected?: number;
+    disconnected?: number;
+    expired?: number;
+    maximum?: number;
+    total?: number;
+  };
+  messages: {
+    received?: number;
+    sent?: number;
+    stored?: number;
+    inflight?: number;
+    retained?: number;
+  };
+  publish: {
+    messagesReceived?: number;
+    messagesSent?: number;
+    messagesDropped?: number;
+    bytesReceived?: number;
+    bytesSent?: number;
+  };
+  bytes: {
+    received?: number;
+    sent?: number;
+    stored?: number;
+  };
+  subscriptions?: number;
+  heap: {
+    current?: number;
+    maximum?: number;
+  };
+  load: {
+    messagesReceived?: LoadAverage;
+    messagesSent?: LoadAverage;
+    bytesReceived?: LoadAverage;
+    bytesSent?: LoadAverage;
+    connections?: LoadAverage;
+    sockets?: LoadAverage;
+    publishReceived?: LoadAverage;
+    publishSent?: LoadAverage;
+    publishDropped?: LoadAverage;
+  };
+  bridges: Record<string, { connected: boolean }>;
+}
+
+export interface BrokerStatsSnapshot {
+  connected: boolean;
+  updatedAt?: string;
+  connectedClients: number;
+  totalConnections: number;
+  messagesReceived: number;
+  messagesPublished: number;
+  bytesReceived: number;
+  bytesPublished: number;
+}
+
+export interface MetricDefinition {
+  name: string;
+  unit: string;
+  description: string;
+}
+
+export interface MetricSample {
+  timestamp: number;
+  values: Record<string, number>;
+}
+
+export interface MetricsHistoryQuery {
+  metric: string;
+  from?: number;
+  to?: number;
+  step?: number;
+}
+
+export interface MetricsHistory {
+  metric: string;
+  unit: string;
+  step: number;
+  points: { timestamp: string; value: number }[];
+}
+
+export interface OpenMetricsSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface OpenMetricsFamily {
+  name: string;
+  type: 'counter' | 'gauge' | 'info';
+  help: string;
+  unit?: string;
+  samples: OpenMetricsSample[];
+}
+
+export interface BrokerEvent {
+  id: number;
+  type:
+    | 'client_connected'
+    | 'client_disconnected'
+    | 'auth_failed'
+    | 'bridge_up'
+    | 'bridge_down'
+    | 'socket_error';
+  timestamp: string;
+  clientId?: string;
+  username?: string;
+  address?: string;
+  bridgeId?: string;
+  reason?: string;
+  message: string;
+}
+
+export interface BrokerEventQuery {
+  type?: BrokerEvent['type'];
+  clientId?: string;
+  bridgeId?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface ConnectedClient {
+  clientId: string;
+  address?: string;
+  username?: string;
+  protocolVersion?: number;
+  keepalive?: number;
+  cleanSession?: boolean;
+  connectedAt: string;
+}
+
+export interface BrokerEventSummary {
+  authFailuresLastHour: number;
+  socketErrorsLastHour: number;
+  lastAuthFailure?: BrokerEvent;
+  lastSocketError?: BrokerEvent;
+  bridges: Record<string, { up: boolean; since: string; reason?: string }>;
+}
+
+export interface BrokerProcessRecord {
+  pid: number;
+  startTime: string;
+  configFile: string;
+}
+
+export interface ConfigApplyResult {
+  method: 'reload' | 'restart';
+  reason: string;
+  changedDirectives: string[];
+}
+
+export interface ConfigValidationError {
+  line?: number;
+  directive?: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: ConfigValidationError[];
+}
+
+export interface ConfigSnapshot {
+  id: string;
+  createdAt: string;
+  files: { path: string; backupPath: string; existed: boolean }[];
+}
+
+export interface ConfigPreview {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  validationErrors: ConfigValidationError[];
+  apply: ConfigApplyResult;
+  diff: {
+    config: string;
+    passwd: string;
+    acl: string;
+  };
+}
+
+export interface TransactionResult {
+  apply: ConfigApplyResult | null;
+  rolledBack: boolean;
+  rollbackReason?: string;
+  rollbackError?: string;
+}
+
+export interface ConfigRevision {
+  id: string;
+  timestamp: string;
+  route: string;
+  user?: string;
+}
+
+export interface ConfigRevisionState {
+  settings: Partial<MosquittoCompleteConfig>;
+  bridges: BridgeConfig[];
+  users: UserConfig[];
+  acls: AclConfig[];
+  generatedConfig: string;
+  // Encrypted bridge passwords by secret name; missing from revisions recorded before
+  // passwords were kept with them
+  secrets?: Record<string, EncryptedSecret>;
+}
+
+export interface ConfigRevisionSnapshot extends ConfigRevision {
+  state: ConfigRevisionState;
+}
+
+export interface ConfigRevisionDiff {
+  from: string;
+  to: string;
+  model: string;
+  generatedConfig: string;
 }
 
 export interface MonitoringMetrics {
@@ -85,17 +564,47 @@ export interface MonitoringMetrics {
   messageRate: string;
   dataRate: string;
   monitorStatus: string;
+  metrics?: BrokerMetrics;
+}
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: 'error' | 'warning' | 'notice' | 'information' | 'debug';
+  message: string;
+  source: 'file' | 'stdout' | 'stderr';
+}
+
+export interface LogQuery {
+  level?: LogEntry['level'];
+  search?: string;
+  before?: number;
+  after?: number;
+  limit?: number;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  total: number;
+  hasMore: boolean;
 }
 
 export interface MosquittoManager {
   start(): Promise<void>;
   stop(): Promise<void>;
   restart(): Promise<void>;
+  reload(): Promise<void>;
+  getOwnedPid(): Promise<number | null>;
+  waitForHealthy(timeoutMs: number): Promise<boolean>;
+  planApply(configContent: string): Promise<ConfigApplyResult>;
+  applyConfig(config: MosquittoCompleteConfig): Promise<ConfigApplyResult>;
+  getLiveConfig(): Promise<string>;
   getStatus(): Promise<MosquittoStatus>;
   getMonitoringMetrics(): Promise<MonitoringMetrics>;
   generateConfig(config: MosquittoCompleteConfig): Promise<string>;
   writeConfig(configContent: string): Promise<void>;
   validateConfig(): Promise<boolean>;
+  validateConfigContent(configContent: string): Promise<ConfigValidationResult>;
 }
 
 export interface BridgeManager {
@@ -103,7 +612,43 @@ export interface BridgeManager {
   removeBridge(bridgeId: string): Promise<void>;
   updateBridge(bridgeId: string, bridge: BridgeConfig): Promise<void>;
   getBridges(): Promise<BridgeConfig[]>;
-  testBridgeConnection(bridge: BridgeConfig): Promise<boolean>;
+  resolveSecrets(bridge: BridgeConfig, bridgeId?: string): Promise<BridgeConfig>;
+  migrateSecrets(): Promise<void>;
+  replaceBridges(bridges: BridgeConfig[]): Promise<void>;
+  getBridgeStatus(bridgeId: string): Promise<BridgeConnectionStatus>;
+}
+
+export interface BridgeTester {
+  testBridge(bridge: BridgeConfig): Promise<BridgeTestReport>;
+}
+
+export interface BridgeMonitor {
+  start(): void;
+  stop(): void;
+  refresh(): void;
+  getStatus(bridgeId: string): BridgeConnectionStatus | undefined;
+  getStatuses(): BridgeConnectionStatus[];
+}
+
+export interface SecretStore {
+  get(name: string): Promise<string | undefined>;
+  set(name: string, value: string): Promise<void>;
+  delete(name: string): Promise<void>;
+  list(): Promise<string[]>;
+  exportEncrypted(prefix: string): Promise<Record<string, EncryptedSecret>>;
+  encrypt(value: string): Promise<EncryptedSecret>;
+  decrypt(secret: EncryptedSecret): Promise<string | undefined>;
+}
+
+export interface BridgeKeepalive {
+  start(): void;
+  stop(): void;
+  refresh(): void;
+}
+
+export interface BridgePresetManager {
+  getPresets(): Promise<BridgePreset[]>;
+  applyPreset(presetId: string, values: Record<string, unknown>): Promise<BridgePresetResult>;
 }
 
 export interface SecurityManager {
@@ -117,11 +662,115 @@ export interface SecurityManager {
   getAcls(): Promise<AclConfig[]>;
   generateCertificates(): Promise<void>;
   validateCertificates(): Promise<boolean>;
+  renderPasswordFile(users: UserConfig[]): string;
+  renderAclFile(acls: AclConfig[]): string;
+  readGeneratedFiles(): Promise<{ passwd: string; acl: string }>;
+}
+
+export interface TransactionManager {
+  snapshot(): Promise<ConfigSnapshot>;
+  restore(snapshot: ConfigSnapshot): Promise<void>;
+  discard(snapshot: ConfigSnapshot): Promise<void>;
+  execute(
+    change: () => Promise<void>,
+    apply: () => Promise<ConfigApplyResult | null>
+  ): Promise<TransactionResult>;
+}
+
+export interface HistoryManager {
+  record(route: string, user?: string): Promise<ConfigRevision>;
+  recordIfChanged(route: string, user?: string): Promise<ConfigRevision | null>;
+  listRevisions(): Promise<ConfigRevision[]>;
+  getRevision(revisionId: string): Promise<ConfigRevisionSnapshot>;
+  diff(fromId: string, toId: string): Promise<ConfigRevisionDiff>;
+  restoreRevision(revisionId: string): Promise<void>;
+  scrubSecrets(): Promise<void>;
+}
+
+export interface LogManager {
+  start(): Promise<void>;
+  stop(): void;
+  ingest(source: LogEntry['source'], chunk: string): void;
+  getEntries(query: LogQuery): LogPage;
+  matches(entry: LogEntry, query: LogQuery): boolean;
+  subscribe(listener: (entry: LogEntry) => void): () => void;
+}
+
+export interface EventManager {
+  start(): void;
+  stop(): void;
+  getEvents(query: BrokerEventQuery): BrokerEvent[];
+  getConnectedClients(): ConnectedClient[];
+  getSummary(): BrokerEventSummary;
+  getBridgeAddress(bridgeId: string): string | undefined;
+}
+
+export interface StatsManager {
+  start(): void;
+  stop(): void;
+  getSnapshot(): BrokerStatsSnapshot;
+  getMetrics(): BrokerMetrics;
+  getValue(topic: string): string | undefined;
+}
+
+export interface MetricsRecorder {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  getMetricDefinitions(): MetricDefinition[];
+  getHistory(query: MetricsHistoryQuery): MetricsHistory;
+}
+
+export interface PublisherManager {
+  start(): Promise<void>;
+  stop(): void;
+  getRules(): PublisherRule[];
+  addRule(rule: PublisherRule): Promise<PublisherRule>;
+  updateRule(ruleId: string, rule: PublisherRule): Promise<PublisherRule>;
+  removeRule(ruleId: string): Promise<void>;
+  getStatus(): PublisherStatus;
+}
+
+export interface IngestionManager {
+  start(): Promise<void>;
+  stop(): void;
+  getMappings(): IngestionMapping[];
+  addMapping(mapping: IngestionMapping): Promise<IngestionMapping>;
+  updateMapping(mappingId: string, mapping: IngestionMapping): Promise<IngestionMapping>;
+  removeMapping(mappingId: string): Promise<void>;
+  getStatus(): IngestionStatus;
+}
+
+export interface SignalKDeltaValue {
+  path: string;
+  value: unknown;
+}
+
+export interface SignalKMeta {
+  path: string;
+  value: { units?: string; description: string; displayName?: string };
+}
+
+export interface SignalKStatusEmitter {
+  start(): void;
+  stop(): void;
+  emit(): Promise<void>;
+}
+
+export interface ProcessMonitorEvent {
+  type: 'down' | 'recovered' | 'failed';
+  restartAttempts: number;
+  message: string;
+}
+
+export interface NotificationManager {
+  start(): void;
+  stop(): void;
 }
 
 export interface ProcessMonitor {
   start(): void;
   stop(): void;
+  subscribe(listener: (event: ProcessMonitorEvent) => void): () => void;
   isHealthy(): Promise<boolean>;
   getMetrics(): Promise<MosquittoStatus>;
 }
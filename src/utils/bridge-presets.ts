@@ -0,0 +1,274 @@
+import { BridgePreset, BridgePresetParameter } from '../types/interfaces';
+
+const PLACEHOLDER = /\{([A-Za-z][A-Za-z0-9_]*)\}/g;
+const SYSTEM_CA_FILE = '/etc/ssl/certs/ca-certificates.crt';
+
+const hostParameter = (label: string, defaultHost?: string): BridgePresetParameter => ({
+  name: 'host',
+  label,
+  type: 'string',
+  required: true,
+  ...(defaultHost ? { default: defaultHost } : {}),
+});
+
+const portParameter = (defaultPort: number): BridgePresetParameter => ({
+  name: 'port',
+  label: 'Port',
+  type: 'number',
+  required: true,
+  default: defaultPort,
+});
+
+const credentialParameters = (required: boolean): BridgePresetParameter[] => [
+  { name: 'username', label: 'Username', type: 'string', required },
+  { name: 'password', label: 'Password', type: 'password', required },
+];
+
+const BUILTIN_PRESETS: BridgePreset[] = [
+  {
+    id: 'tls-cloud',
+    name: 'Generic TLS cloud broker',
+    description: 'Any hosted broker reached over TLS with a username and password',
+    parameters: [
+      hostParameter('Broker host'),
+      portParameter(8883),
+      ...credentialParameters(false),
+      {
+        name: 'caPath',
+        label: 'CA certificate file',
+        type: 'path',
+        required: true,
+        default: SYSTEM_CA_FILE,
+      },
+      {
+        name: 'topic',
+        label: 'Topic to forward',
+        type: 'string',
+        required: true,
+        default: 'signalk/#',
+      },
+    ],
+    template: {
+      name: 'Cloud broker',
+      remoteHost: '{host}',
+      remotePort: '{port}',
+      remoteUsername: '{username}',
+      remotePassword: '{password}',
+      tlsEnabled: true,
+      tlsCaPath: '{caPath}',
+      tlsVersion: 'tlsv1.2',
+      tryPrivate: false,
+      topics: [{ pattern: '{topic}', direction: 'out', qos: 1 }],
+    },
+  },
+  {
+    id: 'hivemq-cloud',
+    name: 'HiveMQ Cloud',
+    description: 'HiveMQ Cloud cluster; the host is shown on the cluster overview page',
+    parameters: [
+      {
+        ...hostParameter('Cluster URL'),
+        pattern: '^[A-Za-z0-9.-]+\\.hivemq\\.cloud$',
+        description: 'e.g. abc123.s1.eu.hivemq.cloud',
+      },
+      portParameter(8883),
+      ...credentialParameters(true),
+      {
+        name: 'caPath',
+        label: 'CA certificate file',
+        type: 'path',
+        required: true,
+        default: SYSTEM_CA_FILE,
+      },
+    ],
+    template: {
+      name: 'HiveMQ Cloud',
+      remoteHost: '{host}',
+      remotePort: '{port}',
+      remoteUsername: '{username}',
+      remotePassword: '{password}',
+      tlsEnabled: true,
+      tlsCaPath: '{caPath}',
+      tlsVersion: 'tlsv1.2',
+      protocolVersion: 'mqttv311',
+      tryPrivate: false,
+      topics: [{ pattern: 'signalk/#', direction: 'out', qos: 1 }],
+    },
+  },
+  {
+    // AWS closes connections that publish to $SYS, so bridge notifications stay local
+    id: 'aws-iot-core',
+    name: 'AWS IoT Core',
+    description:
+      'AWS IoT Core over port 443 with a device certificate; the client ID is the thing name',
+    parameters: [
+      {
+        ...hostParameter('Device data endpoint'),
+        pattern: '^[A-Za-z0-9-]+\\.iot\\.[a-z0-9-]+\\.amazonaws\\.com$',
+        description: 'e.g. abc123-ats.iot.eu-west-1.amazonaws.com',
+      },
+      {
+        name: 'thingName',
+        label: 'Thing name',
+        type: 'string',
+        required: true,
+        pattern: '^[A-Za-z0-9:_-]+$',
+      },
+      {
+        name: 'caPath',
+        label: 'Amazon root CA file',
+        type: 'path',
+        required: true,
+        description: 'AmazonRootCA1.pem',
+      },
+      { name: 'certPath', label: 'Device certificate file', type: 'path', required: true },
+      { name: 'keyPath', label: 'Device private key file', type: 'path', required: true },
+    ],
+    template: {
+      name: 'AWS IoT Core',
+      remoteHost: '{host}',
+      remotePort: 443,
+      remoteClientId: '{thingName}',
+      tlsEnabled: true,
+      tlsCaPath: '{caPath}',
+      tlsCertPath: '{certPath}',
+      tlsKeyPath: '{keyPath}',
+      tlsVersion: 'tlsv1.2',
+      tlsAlpn: 'x-amzn-mqtt-ca',
+      protocolVersion: 'mqttv311',
+      cleanSession: true,
+      tryPrivate: false,
+      notifications: false,
+      topics: [{ pattern: '{thingName}/signalk/#', direction: 'out', qos: 1 }],
+    },
+  },
+  {
+    id: 'victron-venus',
+    name: 'Victron Venus OS',
+    description:
+      'Local MQTT on a Cerbo GX or other Venus OS device; MQTT must be enabled in its settings',
+    parameters: [
+      hostParameter('GX device address', 'venus.local'),
+      portParameter(1883),
+      {
+        name: 'portalId',
+        label: 'VRM portal ID',
+        type: 'string',
+        required: true,
+        pattern: '^[0-9a-fA-F]{12}$',
+        description: 'Settings → VRM online portal → VRM Portal ID',
+      },
+    ],
+    template: {
+      name: 'Victron Venus OS',
+      remoteHost: '{host}',
+      remotePort: '{port}',
+      keepalive: 60,
+      tryPrivate: false,
+      topics: [
+        { pattern: 'N/{portalId}/#', direction: 'in', qos: 0 },
+        { pattern: 'R/{portalId}/keepalive', direction: 'out', qos: 0 },
+      ],
+      // Venus OS stops publishing N/ topics unless it sees a keepalive at least once a minute
+      keepaliveMessage: { topic: 'R/{portalId}/keepalive', payload: '', interval: 30 },
+    },
+  },
+  {
+    id: 'home-assistant',
+    name: 'Home Assistant',
+    description: 'The Mosquitto broker add-on of Home Assistant',
+    parameters: [
+      hostParameter('Home Assistant address', 'homeassistant.local'),
+      portParameter(1883),
+      ...credentialParameters(true),
+    ],
+    template: {
+      name: 'Home Assistant',
+      remoteHost: '{host}',
+      remotePort: '{port}',
+      remoteUsername: '{username}',
+      remotePassword: '{password}',
+      tryPrivate: true,
+      topics: [{ pattern: 'signalk/#', direction: 'out', qos: 0 }],
+    },
+  },
+  {
+    id: 'signalk-boat',
+    name: 'Another signalk-mosquitto boat',
+    description: 'The broker of a second boat running this plugin, e.g. a tender or buddy boat',
+    parameters: [
+      hostParameter('Boat address'),
+      portParameter(1883),
+      ...credentialParameters(false),
+      {
+        name: 'topic',
+        label: 'Shared topic',
+        type: 'string',
+        required: true,
+        default: 'vessels/#',
+      },
+    ],
+    template: {
+      name: 'Boat',
+      remoteHost: '{host}',
+      remotePort: '{port}',
+      remoteUsername: '{username}',
+      remotePassword: '{password}',
+      // Both ends are mosquitto, so try_private keeps messages from looping between them
+      tryPrivate: true,
+      topics: [{ pattern: '{topic}', direction: 'both', qos: 0 }],
+    },
+  },
+];
+
+export class BridgePresetUtils {
+  static getBuiltinPresets(): BridgePreset[] {
+    return BUILTIN_PRESETS.map(preset => ({ ...preset, builtin: true }));
+  }
+
+  static collectPlaceholders(template: unknown): string[] {
+    const names = new Set<string>();
+    const visit = (value: unknown): void => {
+      if (typeof value === 'string') {
+        for (const match of value.matchAll(PLACEHOLDER)) {
+          names.add(match[1]);
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(visit);
+      }
+    };
+
+    visit(template);
+    return Array.from(names);
+  }
+
+  static renderTemplate(template: unknown, values: Record<string, unknown>): unknown {
+    if (typeof template === 'string') {
+      const whole = template.match(/^\{([A-Za-z][A-Za-z0-9_]*)\}$/);
+      if (whole) {
+        return values[whole[1]];
+      }
+      return template.replace(PLACEHOLDER, (_match, name) => String(values[name] ?? ''));
+    }
+
+    if (Array.isArray(template)) {
+      return template.map(item => this.renderTemplate(item, values));
+    }
+
+    if (template && typeof template === 'object') {
+      const rendered: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(template)) {
+        const result = this.renderTemplate(value, values);
+        // Optional settings whose parameter was left empty are dropped
+        if (result !== undefined) {
+          rendered[key] = result;
+        }
+      }
+      return rendered;
+    }
+
+    return template;
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  BridgeConfig,
+  BridgeTopicConfig,
+  BridgeTopicMatch,
+  BridgeTopicSimulation,
+} from '../types/interfaces';
+
+// Follows mosquitto's bridge remapping: a rule forwards the topics matching its prefix plus
+// pattern, and the first matching rule that has a prefix decides the topic on the other side
+export class BridgeTopicUtils {
+  static simulate(
+    bridge: BridgeConfig,
+    side: 'local' | 'remote',
+    topic: string
+  ): BridgeTopicSimulation {
+    const direction = side === 'local' ? 'out' : 'in';
+    const matches: BridgeTopicMatch[] = [];
+    let mappedTopic: string | undefined;
+
+    bridge.topics.forEach((rule, index) => {
+      if (rule.direction !== direction && rule.direction !== 'both') {
+        return;
+      }
+
+      const from = (side === 'local' ? rule.localPrefix : rule.remotePrefix) || '';
+      const to = (side === 'local' ? rule.remotePrefix : rule.localPrefix) || '';
+      const filter = from + rule.pattern;
+      if (!this.isValidFilter(filter) || !this.matches(filter, topic)) {
+        return;
+      }
+
+      // "a/#" also matches "a" itself, which does not start with the prefix "a/" and is
+      // passed on unchanged apart from the new prefix
+      const mapped = to + (topic.startsWith(from) ? topic.slice(from.length) : topic);
+      matches.push({ index, filter, qos: rule.qos, mappedTopic: mapped });
+      if (mappedTopic === undefined && (rule.localPrefix || rule.remotePrefix)) {
+        mappedTopic = mapped;
+      }
+    });
+
+    const warnings = this.getWarnings(bridge);
+    if (matches.length > 1) {
+      warnings.push(
+        `The topic matches topics ${matches.map(m => m.index + 1).join(', ')}; overlapping rules can forward the same message more than once`
+      );
+    }
+
+    return {
+      side,
+      topic,
+      forwarded: matches.length > 0,
+      direction: matches.length > 0 ? direction : undefined,
+      qos: matches[0]?.qos,
+      mappedTopic: matches.length > 0 ? (mappedTopic ?? topic) : undefined,
+      matches,
+      warnings,
+    };
+  }
+
+  static getWarnings(bridge: BridgeConfig): string[] {
+    const warnings: string[] = [];
+
+    bridge.topics.forEach((rule, index) => {
+      const label = `Topic ${index + 1}`;
+
+      for (const [name, prefix] of [
+        ['local', rule.localPrefix],
+        ['remote', rule.remotePrefix],
+      ] as const) {
+        if (!prefix) {
+          continue;
+        }
+        if (/[+#]/.test(prefix)) {
+          warnings.push(
+            `${label}: the ${name} prefix '${prefix}' contains a wildcard, which mosquitto does not allow in prefixes`
+          );
+        } else if (!prefix.endsWith('/') && !rule.pattern.startsWith('/')) {
+          warnings.push(
+            `${label}: the ${name} prefix '${prefix}' has no trailing slash, so the pattern becomes '${prefix}${rule.pattern}'`
+          );
+        }
+      }
+
+      for (const filter of this.getFilters(rule)) {
+        if (!this.isValidFilter(filter)) {
+          warnings.push(`${label}: '${filter}' is not a valid topic filter and can never match`);
+        } else if (filter.includes('//')) {
+          warnings.push(
+            `${label}: '${filter}' has an empty level and only matches topics that have one too`
+          );
+        }
+      }
+    });
+
+    warnings.push(
+      ...this.getShadowedWarnings(bridge, 'out'),
+      ...this.getShadowedWarnings(bridge, 'in')
+    );
+    return warnings;
+  }
+
+  // MQTT topic filter matching, including "a/#" matching "a" and wildcards at the first level
+  // not matching topics that start with "$"
+  static matches(filter: string, topic: string): boolean {
+    const filterLevels = filter.split('/');
+    const topicLevels = topic.split('/');
+    if (topic.startsWith('$') && (filterLevels[0] === '+' || filterLevels[0] === '#')) {
+      return false;
+    }
+
+    for (let i = 0; i < filterLevels.length; i++) {
+      if (filterLevels[i] === '#') {
+        return true;
+      }
+      if (i >= topicLevels.length) {
+        return false;
+      }
+      if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) {
+        return false;
+      }
+    }
+    return filterLevels.length === topicLevels.length;
+  }
+
+  // True when every topic matching the specific filter also matches the general one
+  static covers(general: string, specific: string): boolean {
+    const generalLevels = general.split('/');
+    const specificLevels = specific.split('/');
+    if (specific.startsWith('$') && (generalLevels[0] === '+' || generalLevels[0] === '#')) {
+      return false;
+    }
+
+    for (let i = 0; i < generalLevels.length; i++) {
+      if (generalLevels[i] === '#') {
+        return true;
+      }
+      if (i >= specificLevels.length || specificLevels[i] === '#') {
+        return false;
+      }
+      if (generalLevels[i] !== '+' && generalLevels[i] !== specificLevels[i]) {
+        return false;
+      }
+    }
+    return generalLevels.length === specificLevels.length;
+  }
+
+  static isValidFilter(filter: string): boolean {
+    if (!filter) {
+      return false;
+    }
+    const levels = filter.split('/');
+    return levels.every(
+      (level, i) =>
+        (!level.includes('#') || (level === '#' && i === levels.length - 1)) &&
+        (!level.includes('+') || level === '+')
+    );
+  }
+
+  static isValidTopicName(topic: string): boolean {
+    return typeof topic === 'string' && topic.length > 0 && !/[+#]/.test(topic);
+  }
+
+  private static getFilters(rule: BridgeTopicConfig): string[] {
+    const filters: string[] = [];
+    if (rule.direction !== 'in') {
+      filters.push((rule.localPrefix || '') + rule.pattern);
+    }
+    if (rule.direction !== 'out') {
+      filters.push((rule.remotePrefix || '') + rule.pattern);
+    }
+    return Array.from(new Set(filters));
+  }
+
+  // A later rule has no effect in a direction when an earlier one already matches all of its
+  // topics and either remaps them or the later rule would not remap them anyway
+  private static getShadowedWarnings(bridge: BridgeConfig, direction: 'out' | 'in'): string[] {
+    const warnings: string[] = [];
+    const rules = bridge.topics
+      .map((rule, index) => ({
+        rule,
+        index,
+        filter: ((direction === 'out' ? rule.localPrefix : rule.remotePrefix) || '') + rule.pattern,
+        remaps: Boolean(rule.localPrefix || rule.remotePrefix),
+      }))
+      .filter(r => r.rule.direction === direction || r.rule.direction === 'both')
+      .filter(r => this.isValidFilter(r.filter));
+
+    rules.forEach((later, position) => {
+      const earlier = rules
+        .slice(0, position)
+        .find(r => this.covers(r.filter, later.filter) && (r.remaps || !later.remaps));
+      if (earlier) {
+        warnings.push(
+          `Topic ${later.index + 1}: never takes effect for ${direction === 'out' ? 'outgoing' : 'incoming'} messages; topic ${earlier.index + 1} ('${earlier.filter}') already matches everything it does`
+        );
+      }
+    });
+
+    return warnings;
+  }
+}
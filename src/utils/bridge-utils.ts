@@ -0,0 +1,16 @@
+import { BridgeConfig } from '../types/interfaces';
+
+export class BridgeUtils {
+  // $SYS/broker/connection/<id>/state carries the bridge's remote client id, which defaults to
+  // "<hostname>.<connection>"; unknown ids fall back to the part after the last dot
+  static resolveConnectionId(bridges: BridgeConfig[], connectionId: string): string {
+    const bridge =
+      bridges.find(b => b.remoteClientId === connectionId) ||
+      bridges.find(b => connectionId === b.id || connectionId.endsWith(`.${b.id}`));
+    if (bridge) {
+      return bridge.id;
+    }
+    const parts = connectionId.split('.');
+    return parts[parts.length - 1];
+  }
+}
@@ -0,0 +1,143 @@
+type DiffOp = { type: 'equal' | 'remove' | 'add'; line: string };
+
+export class DiffUtils {
+  static diffLines(oldText: string, newText: string): DiffOp[] {
+    const oldLines = this.splitLines(oldText);
+    const newLines = this.splitLines(newText);
+    const n = oldLines.length;
+    const m = newLines.length;
+
+    // Longest common subsequence table, filled from the end so ops come out in order
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          oldLines[i] === newLines[j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldLines[i] === newLines[j]) {
+        ops.push({ type: 'equal', line: oldLines[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ type: 'remove', line: oldLines[i++] });
+      } else {
+        ops.push({ type: 'add', line: newLines[j++] });
+      }
+    }
+    while (i < n) {
+      ops.push({ type: 'remove', line: oldLines[i++] });
+    }
+    while (j < m) {
+      ops.push({ type: 'add', line: newLines[j++] });
+    }
+
+    return ops;
+  }
+
+  static unifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string = 'a',
+    newLabel: string = 'b',
+    context: number = 3
+  ): string {
+    const ops = this.diffLines(oldText, newText);
+    if (ops.every(op => op.type === 'equal')) {
+      return '';
+    }
+
+    const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let index = 0;
+
+    while (index < ops.length) {
+      const firstChange = ops.findIndex((op, i) => i >= index && op.type !== 'equal');
+      if (firstChange === -1) {
+        break;
+      }
+
+      // Extend the hunk while changes are closer together than twice the context
+      const start = Math.max(index, firstChange - context);
+      let end = firstChange;
+      let lastChange = firstChange;
+      while (end < ops.length && end - lastChange <= context * 2) {
+        if (ops[end].type !== 'equal') {
+          lastChange = end;
+        }
+        end++;
+      }
+      end = Math.min(ops.length, lastChange + context + 1);
+
+      let oldStart = 1;
+      let newStart = 1;
+      for (let i = 0; i < start; i++) {
+        if (ops[i].type !== 'add') oldStart++;
+        if (ops[i].type !== 'remove') newStart++;
+      }
+
+      const hunk = ops.slice(start, end);
+      const oldCount = hunk.filter(op => op.type !== 'add').length;
+      const newCount = hunk.filter(op => op.type !== 'remove').length;
+
+      output.push(
+        `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`
+      );
+      for (const op of hunk) {
+        const prefix = op.type === 'equal' ? ' ' : op.type === 'remove' ? '-' : '+';
+        output.push(`${prefix}${op.line}`);
+      }
+
+      index = end;
+    }
+
+    return output.join('\n') + '\n';
+  }
+
+  // Names of the directives whose lines were added, removed or changed between two configs
+  static getChangedDirectives(previousContent: string | null, nextContent: string): string[] {
+    const toDirectiveLines = (content: string): string[] =>
+      content
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+
+    const previousLines = toDirectiveLines(previousContent || '');
+    const nextLines = toDirectiveLines(nextContent);
+
+    const counts = new Map<string, number>();
+    previousLines.forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+    nextLines.forEach(line => counts.set(line, (counts.get(line) || 0) - 1));
+
+    const changed = new Set<string>();
+    for (const [line, count] of counts) {
+      if (count !== 0) {
+        changed.add(line.split(/\s+/)[0]);
+      }
+    }
+
+    // Same directives in a different order can move settings between listeners
+    if (changed.size === 0 && previousLines.join('\n') !== nextLines.join('\n')) {
+      changed.add('listener');
+    }
+
+    return Array.from(changed);
+  }
+
+  private static splitLines(text: string): string[] {
+    if (!text) {
+      return [];
+    }
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines;
+  }
+}
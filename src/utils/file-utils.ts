@@ -1,11 +1,15 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import * as net from 'net';
+import * as os from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
 export class FileUtils {
+  private static backupCounter = 0;
+
   static async ensureDir(dirPath: string): Promise<void> {
     await fs.ensureDir(dirPath);
   }
@@ -14,6 +18,15 @@ export class FileUtils {
     await fs.writeFile(filePath, content, 'utf8');
   }
 
+  // Written to a 0600 temp file and renamed into place, so the content is never readable by
+  // others, not even while a new file is being created
+  static async writePrivateFile(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp-${process.pid}`;
+    await fs.remove(tempPath);
+    await fs.writeFile(tempPath, content, { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+
   static async readFile(filePath: string): Promise<string> {
     return await fs.readFile(filePath, 'utf8');
   }
@@ -27,12 +40,48 @@ export class FileUtils {
     }
   }
 
+  static async listFiles(dirPath: string, extension: string): Promise<string[]> {
+    if (!(await fs.pathExists(dirPath))) {
+      return [];
+    }
+    const entries = await fs.readdir(dirPath);
+    return entries
+      .filter(entry => entry.endsWith(extension))
+      .sort()
+      .map(entry => path.join(dirPath, entry));
+  }
+
   static async deleteFile(filePath: string): Promise<void> {
     if (await this.fileExists(filePath)) {
       await fs.unlink(filePath);
     }
   }
 
+  static async getFileInfo(filePath: string): Promise<{ size: number; inode: number } | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      return { size: stats.size, inode: stats.ino };
+    } catch {
+      return null;
+    }
+  }
+
+  static async readFileRange(filePath: string, start: number, end: number): Promise<string> {
+    const length = Math.max(0, end - start);
+    if (length === 0) {
+      return '';
+    }
+
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await fs.read(handle, buffer, 0, length, start);
+      return buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await fs.close(handle);
+    }
+  }
+
   static async copyFile(source: string, destination: string): Promise<void> {
     await fs.copy(source, destination);
   }
@@ -42,7 +91,8 @@ export class FileUtils {
   }
 
   static async createBackup(filePath: string): Promise<string> {
-    const backupPath = `${filePath}.backup.${Date.now()}`;
+    // The counter keeps backups taken within the same millisecond apart
+    const backupPath = `${filePath}.backup.${Date.now()}.${++this.backupCounter}`;
     if (await this.fileExists(filePath)) {
       await this.copyFile(filePath, backupPath);
     }
@@ -75,6 +125,40 @@ export class FileUtils {
     return path.join(homeDir, '.signalk', 'plugin-config-data', pluginName);
   }
 
+  static async createTempDir(prefix: string): Promise<string> {
+    return await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+  }
+
+  static async removeDir(dirPath: string): Promise<void> {
+    await fs.remove(dirPath);
+  }
+
+  static async findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer();
+      server.unref();
+      server.on('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        const address = server.address() as net.AddressInfo;
+        server.close(() => resolve(address.port));
+      });
+    });
+  }
+
+  static async canConnect(host: string, port: number, timeoutMs: number = 1000): Promise<boolean> {
+    return new Promise(resolve => {
+      const socket = net.connect({ host, port });
+      const finish = (connected: boolean): void => {
+        socket.destroy();
+        resolve(connected);
+      };
+
+      socket.setTimeout(timeoutMs, () => finish(false));
+      socket.once('connect', () => finish(true));
+      socket.once('error', () => finish(false));
+    });
+  }
+
   static async executeCommand(
     command: string,
     args: string[] = []
@@ -117,6 +201,85 @@ export class FileUtils {
     }
   }
 
+  static async isProcessAlive(pid: number): Promise<boolean> {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  static async getProcessStartTime(pid: number): Promise<string | null> {
+    try {
+      if (await this.fileExists(`/proc/${pid}/stat`)) {
+        // Field 22 (starttime) follows the parenthesised command name, which may contain spaces
+        const stat = await this.readFile(`/proc/${pid}/stat`);
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        return fields[19] || null;
+      }
+
+      const { stdout } = await execAsync(`ps -o lstart= -p ${pid}`);
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  static async getProcessResources(
+    pid: number
+  ): Promise<{ rssBytes: number; cpuSeconds: number } | null> {
+    try {
+      if (await this.fileExists(`/proc/${pid}/stat`)) {
+        // utime and stime (fields 14 and 15) are in clock ticks, which are 100 per second on Linux
+        const stat = await this.readFile(`/proc/${pid}/stat`);
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        const status = await this.readFile(`/proc/${pid}/status`);
+        const rss = status.match(/^VmRSS:\s+(\d+) kB/m);
+        return {
+          rssBytes: rss ? parseInt(rss[1], 10) * 1024 : 0,
+          cpuSeconds: (parseInt(fields[11], 10) + parseInt(fields[12], 10)) / 100,
+        };
+      }
+
+      // ps reports RSS in KB
+      const { stdout } = await execAsync(`ps -o rss=,time= -p ${pid}`);
+      const [rss, time] = stdout.trim().split(/\s+/);
+      if (!rss || !time) {
+        return null;
+      }
+      return { rssBytes: parseInt(rss, 10) * 1024, cpuSeconds: this.parseCpuTime(time) };
+    } catch {
+      return null;
+    }
+  }
+
+  // CPU time as ps prints it: [[dd-]hh:]mm:ss[.ff]
+  static parseCpuTime(time: string): number {
+    const [days, clock] = time.includes('-') ? time.split('-') : ['0', time];
+    const parts = clock.split(':').map(part => parseFloat(part));
+    while (parts.length < 3) {
+      parts.unshift(0);
+    }
+    const [hours, minutes, seconds] = parts;
+    return ((parseInt(days, 10) * 24 + hours) * 60 + minutes) * 60 + seconds;
+  }
+
+  static async getProcessCommandLine(pid: number): Promise<string | null> {
+    try {
+      if (await this.fileExists(`/proc/${pid}/cmdline`)) {
+        const cmdline = await this.readFile(`/proc/${pid}/cmdline`);
+        return cmdline.split('\0').join(' ').trim();
+      }
+
+      const { stdout } = await execAsync(`ps -o command= -p ${pid}`);
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
   static async waitForProcess(pid: number, timeoutMs: number = 5000): Promise<boolean> {
     const startTime = Date.now();
 
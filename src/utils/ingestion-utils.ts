@@ -0,0 +1,116 @@
+// Conversions from the units sensors commonly report to the SI units SignalK stores
+const UNIT_CONVERSIONS: Record<string, { label: string; convert: (value: number) => number }> = {
+  celsius: { label: '°C to K', convert: v => v + 273.15 },
+  fahrenheit: { label: '°F to K', convert: v => ((v - 32) * 5) / 9 + 273.15 },
+  percent: { label: '% to ratio', convert: v => v / 100 },
+  knots: { label: 'kn to m/s', convert: v => v * 0.514444 },
+  kmh: { label: 'km/h to m/s', convert: v => v / 3.6 },
+  mph: { label: 'mph to m/s', convert: v => v * 0.44704 },
+  degrees: { label: '° to rad', convert: v => (v * Math.PI) / 180 },
+  hpa: { label: 'hPa/mbar to Pa', convert: v => v * 100 },
+  bar: { label: 'bar to Pa', convert: v => v * 100000 },
+  psi: { label: 'psi to Pa', convert: v => v * 6894.757 },
+  liters: { label: 'l to m³', convert: v => v / 1000 },
+  gallons: { label: 'US gal to m³', convert: v => v * 0.003785411784 },
+  feet: { label: 'ft to m', convert: v => v * 0.3048 },
+  nauticalMiles: { label: 'nm to m', convert: v => v * 1852 },
+  rpm: { label: 'rpm to Hz', convert: v => v / 60 },
+  ampHours: { label: 'Ah to C', convert: v => v * 3600 },
+  kwh: { label: 'kWh to J', convert: v => v * 3600000 },
+  minutes: { label: 'min to s', convert: v => v * 60 },
+  hours: { label: 'h to s', convert: v => v * 3600 },
+};
+
+export class IngestionUtils {
+  // MQTT 5 user property the publisher tags its messages with, so ingestion can recognise them
+  // and does not send values that came from SignalK straight back into it
+  static readonly ORIGIN_PROPERTY = 'signalk-mosquitto-origin';
+
+  static getUnitConversions(): { name: string; label: string }[] {
+    return Object.entries(UNIT_CONVERSIONS).map(([name, { label }]) => ({ name, label }));
+  }
+
+  static convertUnit(value: number, conversion: string): number {
+    const unit = UNIT_CONVERSIONS[conversion];
+    if (!unit) {
+      throw new Error(`Unknown unit conversion: ${conversion}`);
+    }
+    return unit.convert(value);
+  }
+
+  // "+" captures one topic level and "#" the remaining levels, in order of appearance
+  static compileTopicPattern(pattern: string): RegExp {
+    const levels = pattern.split('/').map(level => {
+      if (level === '+') {
+        return '([^/]+)';
+      }
+      if (level === '#') {
+        return '(.*)';
+      }
+      return level.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+
+    // "a/#" also matches the parent topic "a"
+    const source = levels.join('/').replace(/\/\(\.\*\)$/, '(?:/(.*))?');
+    return new RegExp(`^${source}$`);
+  }
+
+  static countWildcards(pattern: string): number {
+    return pattern.split('/').filter(level => level === '+' || level === '#').length;
+  }
+
+  static renderPath(template: string, captures: string[]): string {
+    // Captured levels become single path segments
+    return template.replace(/\{(\d+)\}/g, (_match, index) =>
+      (captures[parseInt(index, 10) - 1] || '').replace(/[^A-Za-z0-9_:-]/g, '_')
+    );
+  }
+
+  // A JSONPath subset: "$", ".name", "['name']" and "[index]", e.g. "$.tanks[0].level"
+  static parseJsonPath(expression: string): (string | number)[] {
+    const trimmed = expression.trim();
+    if (!trimmed.startsWith('$')) {
+      throw new Error('JSONPath must start with $');
+    }
+
+    const segments: (string | number)[] = [];
+    const token = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\])/;
+    let rest = trimmed.slice(1);
+
+    while (rest.length > 0) {
+      const match = rest.match(token);
+      if (!match) {
+        throw new Error(`Unsupported JSONPath near '${rest}'`);
+      }
+      if (match[2] !== undefined) {
+        segments.push(parseInt(match[2], 10));
+      } else {
+        segments.push(match[1] ?? match[3] ?? match[4]);
+      }
+      rest = rest.slice(match[0].length);
+    }
+
+    return segments;
+  }
+
+  static extractJsonPath(document: unknown, expression: string): unknown {
+    let current: any = document;
+    for (const segment of this.parseJsonPath(expression)) {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        return undefined;
+      }
+      current = current[segment];
+    }
+    return current;
+  }
+
+  // Payloads are JSON when they parse as JSON, otherwise plain text
+  static parsePayload(payload: string): unknown {
+    const text = payload.trim();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { ListenerConfig, MosquittoCompleteConfig } from '../types/interfaces';
+
+export class ListenerUtils {
+  static resolveListeners(config: MosquittoCompleteConfig): ListenerConfig[] {
+    if (config.listeners && config.listeners.length > 0) {
+      return config.listeners;
+    }
+
+    // Older configurations describe one MQTT listener on the plugin port, an optional
+    // WebSocket listener and a single TLS cert set that belonged to the MQTT listener
+    const authMode = config.allowAnonymous || !config.enableSecurity ? 'anonymous' : 'password';
+    const tlsEnabled = Boolean(config.tlsEnabled && config.tlsCertPath && config.tlsKeyPath);
+
+    const listeners: ListenerConfig[] = [
+      {
+        id: 'mqtt',
+        enabled: true,
+        name: 'MQTT',
+        port: config.brokerPort,
+        bindAddress: config.brokerHost,
+        protocol: 'mqtt',
+        authMode,
+        maxConnections: config.maxConnections,
+        tlsEnabled,
+        tlsCertPath: tlsEnabled ? config.tlsCertPath : undefined,
+        tlsKeyPath: tlsEnabled ? config.tlsKeyPath : undefined,
+        tlsCaPath: tlsEnabled && config.tlsCaPath ? config.tlsCaPath : undefined,
+      },
+    ];
+
+    if (config.enableWebsockets) {
+      listeners.push({
+        id: 'websockets',
+        enabled: true,
+        name: 'WebSockets',
+        port: config.websocketPort,
+        bindAddress: config.brokerHost,
+        protocol: 'websockets',
+        authMode,
+        maxConnections: config.maxConnections,
+        tlsEnabled: false,
+      });
+    }
+
+    return listeners;
+  }
+
+  static isLoopback(listener: ListenerConfig): boolean {
+    if (listener.bindInterface) {
+      return listener.bindInterface === 'lo' || listener.bindInterface.startsWith('lo0');
+    }
+
+    const address = (listener.bindAddress || '').toLowerCase();
+    return (
+      address === 'localhost' ||
+      address === '::1' ||
+      address === '[::1]' ||
+      /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(address)
+    );
+  }
+
+  static describeBinding(listener: ListenerConfig): string {
+    const host = listener.bindInterface || listener.bindAddress || '*';
+    return `${host}:${listener.port}`;
+  }
+
+  // Plain MQTT listener the plugin's own clients (statistics, bridge monitor and keepalive,
+  // publisher, ingestion) log in to. They connect anonymously, so an anonymous loopback listener
+  // is preferred; without any anonymous listener the endpoint is only good for health checks
+  static getLocalEndpoint(config: MosquittoCompleteConfig): { host: string; port: number } {
+    const listener = this.getInternalListener(config) || this.getPlainListeners(config)[0];
+
+    if (!listener) {
+      return { host: '127.0.0.1', port: config.brokerPort };
+    }
+
+    const host =
+      listener.bindInterface ||
+      !listener.bindAddress ||
+      ['0.0.0.0', '::', ''].includes(listener.bindAddress)
+        ? '127.0.0.1'
+        : listener.bindAddress;
+    return { host, port: listener.port };
+  }
+
+  static getInternalListener(config: MosquittoCompleteConfig): ListenerConfig | undefined {
+    const anonymous = this.getPlainListeners(config).filter(
+      l => l.authMode === 'anonymous' && !l.mountPoint
+    );
+    return anonymous.find(l => this.isLoopback(l)) || anonymous.find(l => !l.bindInterface);
+  }
+
+  // Only listeners bound to the loopback interface are usable when bound by interface, since
+  // the address of any other interface is not known here
+  private static getPlainListeners(config: MosquittoCompleteConfig): ListenerConfig[] {
+    const listeners = this.resolveListeners(config).filter(
+      l =>
+        l.enabled &&
+        l.protocol === 'mqtt' &&
+        !l.tlsEnabled &&
+        (!l.bindInterface || this.isLoopback(l))
+    );
+    return [...listeners.filter(l => !l.mountPoint), ...listeners.filter(l => l.mountPoint)];
+  }
+}
@@ -0,0 +1,27 @@
+import * as mqtt from 'mqtt';
+
+export class MqttUtils {
+  // mqtt.js keeps retrying the address a client started with, which is gone once the listeners
+  // change; onMoved is called instead when the endpoint is no longer the one connected to, so
+  // the caller can replace the client
+  static connectToEndpoint(
+    getEndpoint: () => { host: string; port: number },
+    options: mqtt.IClientOptions,
+    onMoved: () => void
+  ): mqtt.MqttClient {
+    const url = this.getUrl(getEndpoint());
+    const client = mqtt.connect(url, options);
+
+    client.on('reconnect', () => {
+      if (this.getUrl(getEndpoint()) !== url) {
+        onMoved();
+      }
+    });
+
+    return client;
+  }
+
+  static getUrl(endpoint: { host: string; port: number }): string {
+    return `mqtt://${endpoint.host}:${endpoint.port}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { OpenMetricsFamily, OpenMetricsSample } from '../types/interfaces';
+
+export class OpenMetricsUtils {
+  static readonly CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+  static render(families: OpenMetricsFamily[]): string {
+    const lines: string[] = [];
+
+    for (const family of families) {
+      if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(family.name)) {
+        throw new Error(`Invalid metric name: ${family.name}`);
+      }
+      if (family.samples.length === 0) {
+        continue;
+      }
+
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      if (family.unit) {
+        lines.push(`# UNIT ${family.name} ${family.unit}`);
+      }
+      lines.push(`# HELP ${family.name} ${this.escape(family.help)}`);
+
+      // Counter samples carry the _total suffix and info samples _info; gauges use the family name
+      const suffix = family.type === 'counter' ? '_total' : family.type === 'info' ? '_info' : '';
+      for (const sample of family.samples) {
+        lines.push(
+          `${family.name}${suffix}${this.renderLabels(sample)} ${this.renderValue(sample.value)}`
+        );
+      }
+    }
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  static escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  }
+
+  private static renderLabels(sample: OpenMetricsSample): string {
+    const entries = Object.entries(sample.labels || {});
+    if (entries.length === 0) {
+      return '';
+    }
+    return `{${entries.map(([name, value]) => `${name}="${this.escape(value)}"`).join(',')}}`;
+  }
+
+  private static renderValue(value: number): string {
+    if (Number.isNaN(value)) {
+      return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '+Inf' : '-Inf';
+    }
+    return value.toString();
+  }
+}
@@ -0,0 +1,70 @@
+import { BridgeConfig, ConfigRevisionState, EncryptedSecret } from '../types/interfaces';
+import * as crypto from 'crypto';
+
+const CIPHER = 'aes-256-gcm';
+
+export class SecretUtils {
+  // Sent to the browser in place of a stored secret; sending it back keeps the secret unchanged
+  static readonly MASK = '********';
+
+  static generateKey(): Buffer {
+    return crypto.randomBytes(32);
+  }
+
+  static encrypt(key: Buffer, plaintext: string): EncryptedSecret {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  // Throws when the key is wrong or the ciphertext was tampered with
+  static decrypt(key: Buffer, secret: EncryptedSecret): string {
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(secret.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  static bridgePasswordName(bridgeId: string): string {
+    return `bridges/${bridgeId}/remotePassword`;
+  }
+
+  static maskBridge(bridge: BridgeConfig): BridgeConfig {
+    return bridge.remotePassword ? { ...bridge, remotePassword: this.MASK } : bridge;
+  }
+
+  static stripBridge(bridge: BridgeConfig): BridgeConfig {
+    const stripped = { ...bridge };
+    delete stripped.remotePassword;
+    return stripped;
+  }
+
+  static maskConfig(content: string): string {
+    return content.replace(/^(\s*remote_password\s+).*$/gm, `$1${this.MASK}`);
+  }
+
+  // Revisions recorded before secrets moved out of bridges.json may still hold passwords; the
+  // encrypted passwords kept with newer revisions are left out altogether
+  static maskRevisionState(state: ConfigRevisionState): ConfigRevisionState {
+    const settings = state.settings || {};
+    const masked: ConfigRevisionState = {
+      ...state,
+      settings: settings.bridges
+        ? { ...settings, bridges: settings.bridges.map(bridge => this.maskBridge(bridge)) }
+        : settings,
+      bridges: (state.bridges || []).map(bridge => this.maskBridge(bridge)),
+      generatedConfig: this.maskConfig(state.generatedConfig || ''),
+    };
+    delete masked.secrets;
+    return masked;
+  }
+}
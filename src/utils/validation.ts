@@ -1,24 +1,67 @@
-import { MosquittoCompleteConfig, BridgeConfig, UserConfig, AclConfig } from '../types/interfaces';
+import {
+  MosquittoCompleteConfig,
+  BridgeConfig,
+  BridgePreset,
+  ConfigValidationError,
+  UserConfig,
+  AclConfig,
+  ListenerConfig,
+  PublisherRule,
+  IngestionMapping,
+} from '../types/interfaces';
+import { ListenerUtils } from './listener-utils';
+import { BridgePresetUtils } from './bridge-presets';
+import { IngestionUtils } from './ingestion-utils';
 
 export class ValidationUtils {
-  static validateConfig(config: MosquittoCompleteConfig): { valid: boolean; errors: string[] } {
+  static readonly PUBLISHER_PLACEHOLDERS = ['{self}', '{context}', '{path}', '{source}'];
+
+  static validateConfig(config: MosquittoCompleteConfig): {
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+  } {
     const errors: string[] = [];
 
     if (config.brokerPort < 1 || config.brokerPort > 65535) {
       errors.push('Broker port must be between 1 and 65535');
     }
 
-    if (config.enableWebsockets && (config.websocketPort < 1 || config.websocketPort > 65535)) {
-      errors.push('WebSocket port must be between 1 and 65535');
-    }
-
     if (config.maxConnections < 1) {
       errors.push('Maximum connections must be at least 1');
     }
 
-    if (config.tlsEnabled) {
-      if (!config.tlsCertPath || !config.tlsKeyPath) {
-        errors.push('TLS certificate and key paths are required when TLS is enabled');
+    if (config.listeners && config.listeners.length > 0) {
+      config.listeners.forEach((listener, index) => {
+        const listenerErrors = this.validateListener(listener);
+        listenerErrors.forEach(error => errors.push(`Listener ${index + 1}: ${error}`));
+      });
+
+      const enabledListeners = config.listeners.filter(l => l.enabled);
+      if (enabledListeners.length === 0) {
+        errors.push('At least one listener must be enabled');
+      }
+
+      const bindings = new Set<string>();
+      for (const listener of enabledListeners) {
+        const binding = `${listener.bindAddress || '*'}:${listener.port}`;
+        if (bindings.has(binding)) {
+          errors.push(`More than one listener is bound to ${binding}`);
+        }
+        bindings.add(binding);
+      }
+    } else {
+      if (config.enableWebsockets && (config.websocketPort < 1 || config.websocketPort > 65535)) {
+        errors.push('WebSocket port must be between 1 and 65535');
+      }
+
+      if (config.tlsEnabled) {
+        if (!config.tlsCertPath || !config.tlsKeyPath) {
+          errors.push('TLS certificate and key paths are required when TLS is enabled');
+        }
+        errors.push(
+          ...this.validateTlsPaths(config.tlsCertPath, config.tlsKeyPath, config.tlsCaPath)
+        );
       }
     }
 
@@ -37,24 +80,134 @@ export class ValidationUtils {
       aclErrors.forEach(error => errors.push(`ACL ${index + 1}: ${error}`));
     });
 
-    return { valid: errors.length === 0, errors };
+    return { valid: errors.length === 0, errors, warnings: this.getAuthWarnings(config) };
+  }
+
+  // Settings mosquitto accepts but which are probably not what was intended
+  static getAuthWarnings(config: MosquittoCompleteConfig): string[] {
+    const warnings: string[] = [];
+    const listeners = ListenerUtils.resolveListeners(config).filter(l => l.enabled);
+
+    for (const listener of listeners) {
+      const label = listener.name || listener.id;
+      const binding = ListenerUtils.describeBinding(listener);
+
+      if (listener.authMode === 'anonymous' && !ListenerUtils.isLoopback(listener)) {
+        warnings.push(
+          `Listener '${label}' allows anonymous access on ${binding}, which is reachable from other hosts`
+        );
+      }
+
+      if (listener.authMode === 'password' && !config.users.some(u => u.enabled)) {
+        warnings.push(
+          `Listener '${label}' requires a password but no users are enabled, so no client can connect`
+        );
+      }
+    }
+
+    if (listeners.length > 0 && !ListenerUtils.getInternalListener(config)) {
+      warnings.push(
+        'No plain MQTT listener without a mount point allows anonymous access, so the plugin cannot connect its statistics, bridge monitoring, keepalive, publisher and ingestion clients; add an anonymous listener bound to 127.0.0.1'
+      );
+    }
+
+    return warnings;
+  }
+
+  static validateListener(listener: ListenerConfig): string[] {
+    const errors: string[] = [];
+
+    if (!this.isValidPort(listener.port)) {
+      errors.push('Port must be between 1 and 65535');
+    }
+
+    if (!['mqtt', 'websockets'].includes(listener.protocol)) {
+      errors.push('Protocol must be mqtt or websockets');
+    }
+
+    if (!['anonymous', 'password'].includes(listener.authMode)) {
+      errors.push('Authentication mode must be anonymous or password');
+    }
+
+    if (
+      [listener.id, listener.name, listener.mountPoint].some(value =>
+        this.hasControlCharacters(value)
+      )
+    ) {
+      errors.push('Listener ID, name and mount point must not contain control characters');
+    }
+
+    if (listener.bindAddress && !this.isValidBindAddress(listener.bindAddress)) {
+      errors.push('Invalid bind address');
+    }
+
+    if (listener.bindInterface && !/^[a-zA-Z0-9_.:-]+$/.test(listener.bindInterface)) {
+      errors.push('Invalid bind interface name');
+    }
+
+    if (listener.mountPoint && /[+#\s]/.test(listener.mountPoint)) {
+      errors.push('Mount point must not contain wildcards or whitespace');
+    }
+
+    if (listener.maxConnections !== undefined && listener.maxConnections < 1) {
+      errors.push('Maximum connections must be at least 1');
+    }
+
+    if (listener.tlsEnabled) {
+      if (!listener.tlsCertPath || !listener.tlsKeyPath) {
+        errors.push('TLS certificate and key paths are required when TLS is enabled');
+      }
+      if (listener.requireCertificate && !listener.tlsCaPath) {
+        errors.push('A CA certificate is required to verify client certificates');
+      }
+      errors.push(
+        ...this.validateTlsPaths(listener.tlsCertPath, listener.tlsKeyPath, listener.tlsCaPath)
+      );
+    }
+
+    return errors;
+  }
+
+  // The paths are written into mosquitto.conf as they are
+  private static validateTlsPaths(certPath?: string, keyPath?: string, caPath?: string): string[] {
+    const errors: string[] = [];
+    if (certPath && !this.isValidPath(certPath)) {
+      errors.push('Invalid TLS certificate path');
+    }
+    if (keyPath && !this.isValidPath(keyPath)) {
+      errors.push('Invalid TLS key path');
+    }
+    if (caPath && !this.isValidPath(caPath)) {
+      errors.push('Invalid TLS CA path');
+    }
+    return errors;
   }
 
   static validateBridge(bridge: BridgeConfig): string[] {
     const errors: string[] = [];
 
+    for (const [label, value] of this.getBridgeConfigValues(bridge)) {
+      if (this.hasControlCharacters(value)) {
+        errors.push(`${label} must not contain control characters`);
+      }
+    }
+
     if (!bridge.name || bridge.name.trim() === '') {
       errors.push('Bridge name is required');
     }
 
     if (!bridge.remoteHost || bridge.remoteHost.trim() === '') {
       errors.push('Remote host is required');
+    } else if (!this.isValidBridgeHost(bridge.remoteHost)) {
+      errors.push('Remote host must be a host name or IPv4 address without spaces or a port');
     }
 
     if (bridge.remotePort < 1 || bridge.remotePort > 65535) {
       errors.push('Remote port must be between 1 and 65535');
     }
 
+    errors.push(...this.validateBridgeAddresses(bridge));
+
     if (bridge.keepalive < 5) {
       errors.push('Keep alive must be at least 5 seconds');
     }
@@ -71,6 +224,13 @@ export class ValidationUtils {
       if (!this.isValidTopicPattern(topic.pattern)) {
         errors.push(`Topic ${index + 1}: invalid topic pattern`);
       }
+
+      for (const prefix of [topic.localPrefix, topic.remotePrefix]) {
+        if (prefix && /[+#\s]/.test(prefix)) {
+          errors.push(`Topic ${index + 1}: prefixes cannot contain wildcards or whitespace`);
+          break;
+        }
+      }
     });
 
     if (bridge.tlsEnabled) {
@@ -85,6 +245,249 @@ export class ValidationUtils {
       }
     }
 
+    errors.push(...this.validateBridgeOptions(bridge));
+
+    return errors;
+  }
+
+  // Strings written into mosquitto.conf as they are; TLS paths are checked on their own
+  private static getBridgeConfigValues(bridge: BridgeConfig): [string, unknown][] {
+    return [
+      ['Bridge ID', bridge.id],
+      ['Bridge name', bridge.name],
+      ['Remote host', bridge.remoteHost],
+      ...(Array.isArray(bridge.fallbackAddresses) ? bridge.fallbackAddresses : []).map(
+        (address, index): [string, unknown] => [`Fallback address ${index + 1}`, address.host]
+      ),
+      ['Remote username', bridge.remoteUsername],
+      ['Remote password', bridge.remotePassword],
+      ['Remote client ID', bridge.remoteClientId],
+      ['Local client ID', bridge.localClientId],
+      ['Notification topic', bridge.notificationTopic],
+      ['ALPN protocol', bridge.tlsAlpn],
+      ...(bridge.topics || []).flatMap((topic, index): [string, unknown][] => [
+        [`Topic ${index + 1}: pattern`, topic.pattern],
+        [`Topic ${index + 1}: local prefix`, topic.localPrefix],
+        [`Topic ${index + 1}: remote prefix`, topic.remotePrefix],
+      ]),
+    ];
+  }
+
+  static validateBridgeAddresses(bridge: BridgeConfig): string[] {
+    const errors: string[] = [];
+    const fallbackAddresses = bridge.fallbackAddresses || [];
+    const seen = new Set([`${bridge.remoteHost?.toLowerCase()}:${bridge.remotePort}`]);
+
+    if (!Array.isArray(fallbackAddresses)) {
+      return ['Fallback addresses must be a list'];
+    }
+
+    fallbackAddresses.forEach((address, index) => {
+      const label = `Fallback address ${index + 1}`;
+      if (!address.host || address.host.trim() === '') {
+        errors.push(`${label}: host is required`);
+      } else if (!this.isValidBridgeHost(address.host)) {
+        errors.push(`${label}: host must be a host name or IPv4 address without spaces or a port`);
+      }
+
+      if (!this.isValidPort(address.port)) {
+        errors.push(`${label}: port must be between 1 and 65535`);
+      }
+
+      const key = `${address.host?.toLowerCase()}:${address.port}`;
+      if (seen.has(key)) {
+        errors.push(`${label}: ${address.host}:${address.port} is already listed`);
+      }
+      seen.add(key);
+    });
+
+    if (bridge.roundRobin && fallbackAddresses.length === 0) {
+      errors.push('Round robin needs at least one fallback address');
+    }
+
+    return errors;
+  }
+
+  static validateBridgeOptions(bridge: BridgeConfig): string[] {
+    const errors: string[] = [];
+    const isPositiveInteger = (value: number): boolean => Number.isInteger(value) && value >= 1;
+
+    if (
+      bridge.protocolVersion !== undefined &&
+      !['mqttv31', 'mqttv311', 'mqttv50'].includes(bridge.protocolVersion)
+    ) {
+      errors.push('Protocol version must be mqttv31, mqttv311 or mqttv50');
+    }
+
+    if (bridge.remoteClientId !== undefined && !this.isValidClientId(bridge.remoteClientId)) {
+      errors.push('Remote client ID must be 1-65535 characters without whitespace or wildcards');
+    }
+
+    if (bridge.localClientId !== undefined && !this.isValidClientId(bridge.localClientId)) {
+      errors.push('Local client ID must be 1-65535 characters without whitespace or wildcards');
+    }
+
+    if (
+      bridge.remoteClientId &&
+      bridge.localClientId &&
+      bridge.remoteClientId === bridge.localClientId
+    ) {
+      errors.push('Local and remote client IDs must differ');
+    }
+
+    if (
+      bridge.startType !== undefined &&
+      !['automatic', 'lazy', 'once'].includes(bridge.startType)
+    ) {
+      errors.push('Start type must be automatic, lazy or once');
+    }
+
+    if (bridge.restartTimeout !== undefined && !isPositiveInteger(bridge.restartTimeout)) {
+      errors.push('Restart timeout must be at least 1 second');
+    }
+
+    if (bridge.restartTimeoutMax !== undefined) {
+      if (bridge.restartTimeout === undefined) {
+        errors.push('Maximum restart timeout requires a restart timeout');
+      } else if (
+        !Number.isInteger(bridge.restartTimeoutMax) ||
+        bridge.restartTimeoutMax < bridge.restartTimeout
+      ) {
+        errors.push('Maximum restart timeout must not be less than the restart timeout');
+      }
+    }
+
+    // Both only take effect for lazy bridges; elsewhere mosquitto silently ignores them
+    if (bridge.idleTimeout !== undefined) {
+      if (!isPositiveInteger(bridge.idleTimeout)) {
+        errors.push('Idle timeout must be at least 1 second');
+      } else if (bridge.startType !== 'lazy') {
+        errors.push('Idle timeout only applies to lazy bridges');
+      }
+    }
+
+    if (bridge.threshold !== undefined) {
+      if (!isPositiveInteger(bridge.threshold)) {
+        errors.push('Threshold must be at least 1 message');
+      } else if (bridge.startType !== 'lazy') {
+        errors.push('Threshold only applies to lazy bridges');
+      }
+    }
+
+    if (bridge.notificationTopic !== undefined) {
+      if (
+        !bridge.notificationTopic ||
+        /[+#\s]/.test(bridge.notificationTopic) ||
+        bridge.notificationTopic.startsWith('$')
+      ) {
+        errors.push(
+          'Notification topic must be a topic without wildcards, whitespace or a leading $'
+        );
+      } else if (bridge.notifications === false) {
+        errors.push('Notification topic requires notifications to be enabled');
+      }
+    }
+
+    if (
+      bridge.maxPacketSize !== undefined &&
+      (!Number.isInteger(bridge.maxPacketSize) ||
+        bridge.maxPacketSize < 1 ||
+        bridge.maxPacketSize > 268435455)
+    ) {
+      errors.push('Maximum packet size must be between 1 and 268435455 bytes');
+    }
+
+    if (
+      bridge.tlsVersion !== undefined &&
+      !['tlsv1.1', 'tlsv1.2', 'tlsv1.3'].includes(bridge.tlsVersion)
+    ) {
+      errors.push('TLS version must be tlsv1.1, tlsv1.2 or tlsv1.3');
+    }
+
+    if (bridge.tlsAlpn !== undefined && (!bridge.tlsAlpn || /[\s,]/.test(bridge.tlsAlpn))) {
+      errors.push('ALPN protocol must be a single name without whitespace');
+    }
+
+    if ((bridge.tlsVersion || bridge.tlsAlpn) && !bridge.tlsEnabled) {
+      errors.push('TLS version and ALPN require TLS to be enabled');
+    }
+
+    if (bridge.keepaliveMessage) {
+      const { topic, payload, interval } = bridge.keepaliveMessage;
+      if (!topic || /[+#]/.test(topic)) {
+        errors.push('Keepalive topic is required and may not contain wildcards');
+      } else {
+        // The message is published locally, so it only reaches the remote broker if the bridge
+        // forwards it: the local side of a topic is its local prefix followed by the pattern
+        const forwarded = bridge.topics.some(
+          t =>
+            t.direction !== 'in' &&
+            this.isValidTopicPattern(t.pattern) &&
+            IngestionUtils.compileTopicPattern(`${t.localPrefix || ''}${t.pattern}`).test(topic)
+        );
+        if (!forwarded) {
+          errors.push(`Keepalive topic '${topic}' is not forwarded by any out or both topic`);
+        }
+      }
+      if (typeof payload !== 'string') {
+        errors.push('Keepalive payload must be a string');
+      }
+      if (!isPositiveInteger(interval)) {
+        errors.push('Keepalive interval must be at least 1 second');
+      }
+    }
+
+    return errors;
+  }
+
+  static validateBridgePreset(preset: BridgePreset): string[] {
+    const errors: string[] = [];
+
+    if (!preset.id || !/^[A-Za-z0-9_-]+$/.test(preset.id)) {
+      errors.push('Preset ID is required and may only contain letters, digits, "_" and "-"');
+    }
+
+    if (!preset.name || preset.name.trim() === '') {
+      errors.push('Preset name is required');
+    }
+
+    if (!preset.template || typeof preset.template !== 'object' || Array.isArray(preset.template)) {
+      errors.push('Preset template must be an object');
+    }
+
+    if (!Array.isArray(preset.parameters)) {
+      errors.push('Preset parameters must be a list');
+      return errors;
+    }
+
+    const names = new Set<string>();
+    preset.parameters.forEach((parameter, index) => {
+      if (!parameter.name || !/^[A-Za-z][A-Za-z0-9_]*$/.test(parameter.name)) {
+        errors.push(`Parameter ${index + 1}: name must start with a letter`);
+      } else if (names.has(parameter.name)) {
+        errors.push(`Parameter ${index + 1}: duplicate name '${parameter.name}'`);
+      }
+      names.add(parameter.name);
+
+      if (!['string', 'number', 'password', 'path'].includes(parameter.type)) {
+        errors.push(`Parameter ${index + 1}: type must be string, number, password or path`);
+      }
+
+      if (parameter.pattern !== undefined) {
+        try {
+          new RegExp(parameter.pattern);
+        } catch {
+          errors.push(`Parameter ${index + 1}: invalid pattern`);
+        }
+      }
+    });
+
+    for (const placeholder of BridgePresetUtils.collectPlaceholders(preset.template)) {
+      if (!names.has(placeholder)) {
+        errors.push(`Template uses undeclared parameter {${placeholder}}`);
+      }
+    }
+
     return errors;
   }
 
@@ -128,6 +531,112 @@ export class ValidationUtils {
     return errors;
   }
 
+  static validatePublisherRule(rule: PublisherRule): string[] {
+    const errors: string[] = [];
+
+    if (!rule.name || rule.name.trim() === '') {
+      errors.push('Rule name is required');
+    }
+
+    if (!rule.path || rule.path.trim() === '') {
+      errors.push('SignalK path is required');
+    } else if (!/^[A-Za-z0-9_*.:-]+$/.test(rule.path)) {
+      errors.push('SignalK path contains invalid characters');
+    }
+
+    if (!rule.topic || rule.topic.trim() === '') {
+      errors.push('Topic template is required');
+    } else {
+      const unknown = (rule.topic.match(/\{[^}]*\}/g) || []).filter(
+        placeholder => !this.PUBLISHER_PLACEHOLDERS.includes(placeholder)
+      );
+      if (unknown.length > 0) {
+        errors.push(`Unknown topic placeholders: ${unknown.join(', ')}`);
+      }
+      if (/[+#]/.test(rule.topic)) {
+        errors.push('Topic template must not contain wildcards');
+      }
+    }
+
+    if (!['value', 'delta', 'json'].includes(rule.format)) {
+      errors.push('Payload format must be value, delta or json');
+    }
+
+    if (![0, 1, 2].includes(rule.qos)) {
+      errors.push('QoS must be 0, 1 or 2');
+    }
+
+    if (typeof rule.minPeriod !== 'number' || isNaN(rule.minPeriod) || rule.minPeriod < 0) {
+      errors.push('Minimum period must be zero or more milliseconds');
+    }
+
+    return errors;
+  }
+
+  static validateIngestionMapping(mapping: IngestionMapping): string[] {
+    const errors: string[] = [];
+
+    if (!mapping.name || mapping.name.trim() === '') {
+      errors.push('Mapping name is required');
+    }
+
+    if (!this.isValidTopicPattern(mapping.topic)) {
+      errors.push('A valid topic pattern is required');
+    }
+
+    if (!mapping.path || mapping.path.trim() === '') {
+      errors.push('SignalK path is required');
+    } else {
+      if (!/^[A-Za-z0-9_.:{}-]+$/.test(mapping.path)) {
+        errors.push('SignalK path contains invalid characters');
+      }
+      const wildcards = this.isValidTopicPattern(mapping.topic)
+        ? IngestionUtils.countWildcards(mapping.topic)
+        : 0;
+      const captures = (mapping.path.match(/\{(\d+)\}/g) || []).map(c => parseInt(c.slice(1), 10));
+      if (captures.some(index => index < 1 || index > wildcards)) {
+        errors.push(`Path placeholders must be between {1} and {${wildcards}}`);
+      }
+    }
+
+    if (mapping.jsonPath) {
+      try {
+        IngestionUtils.parseJsonPath(mapping.jsonPath);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    if (
+      mapping.scale !== undefined &&
+      (typeof mapping.scale !== 'number' || isNaN(mapping.scale))
+    ) {
+      errors.push('Scale must be a number');
+    }
+
+    if (
+      mapping.offset !== undefined &&
+      (typeof mapping.offset !== 'number' || isNaN(mapping.offset))
+    ) {
+      errors.push('Offset must be a number');
+    }
+
+    if (
+      mapping.unitConversion &&
+      !IngestionUtils.getUnitConversions().some(c => c.name === mapping.unitConversion)
+    ) {
+      errors.push(`Unknown unit conversion: ${mapping.unitConversion}`);
+    }
+
+    if (!mapping.source || !/^[A-Za-z0-9_.-]+$/.test(mapping.source)) {
+      errors.push(
+        'Source label is required and may only contain letters, digits, ".", "_" and "-"'
+      );
+    }
+
+    return errors;
+  }
+
   static isValidTopicPattern(pattern: string): boolean {
     if (!pattern || pattern.trim() === '') {
       return false;
@@ -169,13 +678,72 @@ export class ValidationUtils {
     return validPattern.test(username) && username.length <= 64;
   }
 
+  static isValidClientId(clientId: string): boolean {
+    return (
+      typeof clientId === 'string' &&
+      clientId.length >= 1 &&
+      clientId.length <= 65535 &&
+      !/[\s+#]/.test(clientId)
+    );
+  }
+
+  // Mosquitto splits each "host:port" entry of a bridge address at the colon, so IPv6 literals
+  // cannot be used
+  static isValidBridgeHost(host: string): boolean {
+    return typeof host === 'string' && host.trim() !== '' && !/[\s:]/.test(host);
+  }
+
+  // Errors from a mosquitto test run, with the line and directive each refers to in the
+  // original config; lineMap translates test config lines back to original ones
+  static parseMosquittoOutput(
+    output: string,
+    testConfigFile: string,
+    lineMap: (number | null)[],
+    originalLines: string[]
+  ): ConfigValidationError[] {
+    const errors: ConfigValidationError[] = [];
+    const locationPattern = /Error found at (.+):(\d+)\.?$/;
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.replace(/^\d+: /, '').trim();
+      if (!line) {
+        continue;
+      }
+
+      const location = line.match(locationPattern);
+      if (location) {
+        // Mosquitto reports the location after the message it belongs to
+        const lineNumber =
+          location[1] === testConfigFile ? lineMap[parseInt(location[2]) - 1] : null;
+        const previous = errors[errors.length - 1];
+        if (previous && lineNumber) {
+          previous.line = lineNumber;
+          previous.directive = originalLines[lineNumber - 1]?.trim().split(/\s+/)[0];
+        }
+        continue;
+      }
+
+      if (line.startsWith('Error:')) {
+        errors.push({ message: line.replace(/^Error:\s*/, '') });
+      }
+    }
+
+    return errors;
+  }
+
   static isValidPath(filePath: string): boolean {
     if (!filePath || filePath.trim() === '') {
       return false;
     }
 
-    const invalidChars = /[<>:"|?*]/;
-    return !invalidChars.test(filePath);
+    return !/[<>:"|?*]/.test(filePath) && !this.hasControlCharacters(filePath);
+  }
+
+  // Control characters include line breaks, which would end a value written into mosquitto.conf
+  // and start a new directive
+  static hasControlCharacters(value: unknown): boolean {
+    // eslint-disable-next-line no-control-regex
+    return typeof value === 'string' && /[\x00-\x1f\x7f]/.test(value);
   }
 
   static isValidPort(port: number): boolean {
@@ -195,6 +763,11 @@ export class ValidationUtils {
     return hostnamePattern.test(hostname) || ipPattern.test(hostname) || hostname === 'localhost';
   }
 
+  static isValidBindAddress(address: string): boolean {
+    const ipv6Pattern = /^[0-9a-fA-F:.]+$/;
+    return this.isValidHostname(address) || (address.includes(':') && ipv6Pattern.test(address));
+  }
+
   static sanitizeConfigValue(value: string): string {
     return value.replace(/['"\\]/g, '\\$&');
   }
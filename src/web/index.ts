@@ -9,6 +9,89 @@ interface MosquittoStatus {
   messagesPublished: number;
   bytesReceived: number;
   bytesPublished: number;
+  clients?: ConnectedClient[];
+  events?: BrokerEventSummary;
+  metrics?: BrokerMetrics;
+  bridges?: BridgeConnectionStatus[];
+}
+
+interface BridgeConnectionStatus {
+  bridgeId: string;
+  enabled: boolean;
+  state: 'connected' | 'disconnected' | 'disabled' | 'unknown';
+  since?: string;
+  lastConnected?: string;
+  lastDisconnected?: string;
+  address?: string;
+  fallback?: boolean;
+  history: { timestamp: string; connected: boolean; reason?: string }[];
+}
+
+interface LoadAverage {
+  oneMinute: number;
+  fiveMinutes: number;
+  fifteenMinutes: number;
+}
+
+interface BrokerMetrics {
+  updatedAt?: string;
+  clients: {
+    connected?: number;
+    disconnected?: number;
+    expired?: number;
+    maximum?: number;
+    total?: number;
+  };
+  messages: {
+    received?: number;
+    sent?: number;
+    stored?: number;
+    inflight?: number;
+    retained?: number;
+  };
+  publish: {
+    messagesReceived?: number;
+    messagesSent?: number;
+    messagesDropped?: number;
+    bytesReceived?: number;
+    bytesSent?: number;
+  };
+  bytes: { received?: number; sent?: number; stored?: number };
+  subscriptions?: number;
+  heap: { current?: number; maximum?: number };
+  load: Record<string, LoadAverage | undefined>;
+  bridges: Record<string, { connected: boolean }>;
+}
+
+interface BrokerEvent {
+  id: number;
+  type: string;
+  timestamp: string;
+  clientId?: string;
+  address?: string;
+  reason?: string;
+  message: string;
+}
+
+interface ConnectedClient {
+  clientId: string;
+  address?: string;
+  username?: string;
+  connectedAt: string;
+}
+
+interface BrokerEventSummary {
+  authFailuresLastHour: number;
+  socketErrorsLastHour: number;
+  lastAuthFailure?: BrokerEvent;
+  lastSocketError?: BrokerEvent;
+}
+
+interface MetricsHistory {
+  metric: string;
+  unit: string;
+  step: number;
+  points: { timestamp: string; value: number }[];
 }
 
 interface BridgeConfig {
@@ -17,6 +100,8 @@ interface BridgeConfig {
   name: string;
   remoteHost: string;
   remotePort: number;
+  fallbackAddresses?: { host: string; port: number }[];
+  roundRobin?: boolean;
   remoteUsername?: string;
   remotePassword?: string;
   topics: BridgeTopicConfig[];
@@ -27,6 +112,91 @@ interface BridgeConfig {
   keepalive: number;
   cleanSession: boolean;
   tryPrivate: boolean;
+  protocolVersion?: 'mqttv31' | 'mqttv311' | 'mqttv50';
+  remoteClientId?: string;
+  localClientId?: string;
+  startType?: 'automatic' | 'lazy' | 'once';
+  restartTimeout?: number;
+  restartTimeoutMax?: number;
+  idleTimeout?: number;
+  threshold?: number;
+  notifications?: boolean;
+  notificationTopic?: string;
+  outgoingRetain?: boolean;
+  maxPacketSize?: number;
+  tlsVersion?: 'tlsv1.1' | 'tlsv1.2' | 'tlsv1.3';
+  tlsAlpn?: string;
+  keepaliveMessage?: { topic: string; payload: string; interval: number };
+}
+
+interface BridgeTestStep {
+  step: 'dns' | 'tcp' | 'tls' | 'connect' | 'subscribe' | 'publish' | 'latency';
+  status: 'passed' | 'warning' | 'failed' | 'skipped';
+  message: string;
+  durationMs?: number;
+  address?: string;
+  topic?: string;
+  tls?: {
+    protocol?: string;
+    cipher?: string;
+    alpnProtocol?: string;
+    authorized: boolean;
+    certificates: { subject: string; issuer: string; validTo: string }[];
+  };
+}
+
+interface BridgeTestReport {
+  success: boolean;
+  connected: boolean;
+  address?: string;
+  steps: BridgeTestStep[];
+  durationMs: number;
+}
+
+interface BridgeTopicSimulation {
+  side: 'local' | 'remote';
+  topic: string;
+  forwarded: boolean;
+  direction?: 'out' | 'in';
+  qos?: number;
+  mappedTopic?: string;
+  matches: { index: number; filter: string; qos: number; mappedTopic: string }[];
+  warnings: string[];
+}
+
+interface BridgePresetParameter {
+  name: string;
+  label: string;
+  type: 'string' | 'number' | 'password' | 'path';
+  required: boolean;
+  default?: string | number;
+  description?: string;
+}
+
+interface BridgePreset {
+  id: string;
+  name: string;
+  description: string;
+  builtin?: boolean;
+  parameters: BridgePresetParameter[];
+}
+
+interface ListenerConfig {
+  id: string;
+  enabled: boolean;
+  name?: string;
+  port: number;
+  bindAddress?: string;
+  bindInterface?: string;
+  protocol: 'mqtt' | 'websockets';
+  authMode: 'anonymous' | 'password';
+  mountPoint?: string;
+  maxConnections?: number;
+  tlsEnabled: boolean;
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+  tlsCaPath?: string;
+  requireCertificate?: boolean;
 }
 
 interface BridgeTopicConfig {
@@ -37,6 +207,59 @@ interface BridgeTopicConfig {
   remotePrefix?: string;
 }
 
+interface PublisherRule {
+  id: string;
+  enabled: boolean;
+  name: string;
+  context?: string;
+  path: string;
+  topic: string;
+  format: 'value' | 'delta' | 'json';
+  qos: 0 | 1 | 2;
+  retain: boolean;
+  minPeriod: number;
+}
+
+interface PublisherStatus {
+  connected: boolean;
+  rules: {
+    ruleId: string;
+    published: number;
+    dropped: number;
+    lastTopic?: string;
+    lastPublishedAt?: string;
+    lastError?: string;
+  }[];
+}
+
+interface IngestionMapping {
+  id: string;
+  enabled: boolean;
+  name: string;
+  topic: string;
+  context?: string;
+  path: string;
+  jsonPath?: string;
+  scale?: number;
+  offset?: number;
+  unitConversion?: string;
+  source: string;
+}
+
+interface IngestionStatus {
+  connected: boolean;
+  mappings: {
+    mappingId: string;
+    received: number;
+    emitted: number;
+    lastTopic?: string;
+    lastPath?: string;
+    lastValue?: unknown;
+    lastReceivedAt?: string;
+    lastError?: string;
+  }[];
+}
+
 interface UserConfig {
   username: string;
   password: string;
@@ -50,10 +273,58 @@ interface AclConfig {
   access: 'read' | 'write' | 'readwrite';
 }
 
+interface ConfigRevision {
+  id: string;
+  timestamp: string;
+  route: string;
+  user?: string;
+}
+
+interface ConfigRevisionDiff {
+  from: string;
+  to: string;
+  model: string;
+  generatedConfig: string;
+}
+
+interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: 'error' | 'warning' | 'notice' | 'information' | 'debug';
+  message: string;
+  source: 'file' | 'stdout' | 'stderr';
+}
+
+interface ConfigPreview {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  apply: {
+    method: 'reload' | 'restart';
+    reason: string;
+    changedDirectives: string[];
+  };
+  diff: {
+    config: string;
+    passwd: string;
+    acl: string;
+  };
+}
+
 class MosquittoManager {
   private baseUrl: string;
   private autoRefreshInterval: number | null = null;
   private currentTab: string = 'overview';
+  private listeners: ListenerConfig[] = [];
+  private publisherRules: PublisherRule[] = [];
+  private ingestionMappings: IngestionMapping[] = [];
+  private unitConversions: { name: string; label: string }[] = [];
+  private bridgePresets: BridgePreset[] = [];
+  private bridgeTemplate: BridgeConfig | null = null;
+  private logEntries: LogEntry[] = [];
+  private logStream: EventSource | null = null;
+  private logSearchTimer: number | null = null;
+  private maxLogEntries: number = 2000;
 
   constructor() {
     this.baseUrl = '/plugins/signalk-mosquitto';
@@ -96,6 +367,16 @@ class MosquittoManager {
       this.saveConfiguration();
     });
 
+    // Listener management
+    document.getElementById('addListenerBtn')?.addEventListener('click', () => {
+      this.showListenerModal();
+    });
+
+    document.getElementById('listenerForm')?.addEventListener('submit', e => {
+      e.preventDefault();
+      this.saveListener();
+    });
+
     // Generate certificates
     document.getElementById('generateCertsBtn')?.addEventListener('click', () => {
       this.generateCertificates();
@@ -119,6 +400,42 @@ class MosquittoManager {
       this.addTopicRow();
     });
 
+    document.getElementById('addFallbackAddressBtn')?.addEventListener('click', () => {
+      this.addFallbackAddressRow();
+    });
+
+    document.getElementById('simulateBridgeTopicBtn')?.addEventListener('click', () => {
+      this.simulateBridgeTopic();
+    });
+
+    document.getElementById('bridgePreset')?.addEventListener('change', () => {
+      this.renderBridgePresetParameters();
+    });
+
+    document.getElementById('applyBridgePresetBtn')?.addEventListener('click', () => {
+      this.applyBridgePreset();
+    });
+
+    // Publisher rules
+    document.getElementById('addPublisherRuleBtn')?.addEventListener('click', () => {
+      this.showPublisherRuleModal();
+    });
+
+    document.getElementById('publisherRuleForm')?.addEventListener('submit', e => {
+      e.preventDefault();
+      this.savePublisherRule();
+    });
+
+    // Ingestion mappings
+    document.getElementById('addIngestionMappingBtn')?.addEventListener('click', () => {
+      this.showIngestionMappingModal();
+    });
+
+    document.getElementById('ingestionMappingForm')?.addEventListener('submit', e => {
+      e.preventDefault();
+      this.saveIngestionMapping();
+    });
+
     // User management
     document.getElementById('addUserBtn')?.addEventListener('click', () => {
       this.showUserModal();
@@ -139,9 +456,47 @@ class MosquittoManager {
       this.saveAcl();
     });
 
+    // Configuration history
+    document.getElementById('refreshHistoryBtn')?.addEventListener('click', () => {
+      this.loadHistory();
+    });
+
+    // Broker log
+    document.getElementById('logLevelFilter')?.addEventListener('change', () => {
+      this.loadLogs();
+    });
+
+    document.getElementById('logSearch')?.addEventListener('input', () => {
+      if (this.logSearchTimer) {
+        clearTimeout(this.logSearchTimer);
+      }
+      this.logSearchTimer = window.setTimeout(() => this.loadLogs(), 300);
+    });
+
+    document.getElementById('logFollow')?.addEventListener('change', e => {
+      if ((e.target as HTMLInputElement).checked) {
+        this.startLogStream();
+      } else {
+        this.stopLogStream();
+      }
+    });
+
+    document.getElementById('loadOlderLogsBtn')?.addEventListener('click', () => {
+      this.loadOlderLogs();
+    });
+
     // Monitoring controls
     document.getElementById('refreshBtn')?.addEventListener('click', () => {
       this.refreshStatus();
+      this.loadMetricsHistory();
+    });
+
+    document.getElementById('metricsHistoryMetric')?.addEventListener('change', () => {
+      this.loadMetricsHistory();
+    });
+
+    document.getElementById('metricsHistoryRange')?.addEventListener('change', () => {
+      this.loadMetricsHistory();
     });
 
     document.getElementById('autoRefresh')?.addEventListener('change', e => {
@@ -199,6 +554,18 @@ class MosquittoManager {
     // Load tab-specific data
     if (tab === 'monitoring') {
       this.loadMonitoringData();
+      this.loadMetricsHistory();
+    } else if (tab === 'history') {
+      this.loadHistory();
+    } else if (tab === 'publisher') {
+      this.loadPublisherRules();
+      this.loadIngestionMappings();
+    }
+
+    if (tab === 'logs') {
+      this.loadLogs();
+    } else {
+      this.stopLogStream();
     }
   }
 
@@ -253,6 +620,193 @@ class MosquittoManager {
     this.updateElement('messagesPublished', status.messagesPublished.toString());
     this.updateElement('bytesReceived', this.formatBytes(status.bytesReceived));
     this.updateElement('bytesPublished', this.formatBytes(status.bytesPublished));
+    this.updateClientOverview(status);
+    this.updateBridgeOverview(status.bridges || []);
+    this.updateBrokerMetrics(status.metrics);
+  }
+
+  private updateBrokerMetrics(metrics?: BrokerMetrics): void {
+    const load = document.getElementById('brokerLoad');
+    const resources = document.getElementById('brokerResources');
+    const waiting = '<p class="text-muted">Waiting for broker statistics</p>';
+
+    if (load) {
+      load.innerHTML = metrics
+        ? this.renderLoadTable(metrics, [
+            ['Messages in', 'messagesReceived'],
+            ['Messages out', 'messagesSent'],
+            ['Bytes in', 'bytesReceived', true],
+            ['Bytes out', 'bytesSent', true],
+            ['Connections', 'connections'],
+          ])
+        : waiting;
+    }
+
+    if (resources) {
+      resources.innerHTML = metrics
+        ? this.renderMetricItems([
+            ['Subscriptions', metrics.subscriptions],
+            ['Retained Messages', metrics.messages.retained],
+            ['Stored Messages', metrics.messages.stored],
+            ['Stored Bytes', metrics.bytes.stored, true],
+            ['Inflight Messages', metrics.messages.inflight],
+            ['Heap Used', metrics.heap.current, true],
+            ['Heap Peak', metrics.heap.maximum, true],
+          ])
+        : waiting;
+    }
+  }
+
+  // Mosquitto's load figures are moving averages per minute over 1, 5 and 15 minutes
+  private renderLoadTable(metrics: BrokerMetrics, rows: [string, string, boolean?][]): string {
+    const format = (value: number, bytes?: boolean): string =>
+      bytes ? this.formatBytes(Math.round(value)) : value.toFixed(1);
+    const body = rows
+      .filter(([, key]) => metrics.load[key])
+      .map(([label, key, bytes]) => {
+        const average = metrics.load[key] as LoadAverage;
+        return `
+          <tr>
+            <td>${label}</td>
+            <td>${format(average.oneMinute, bytes)}</td>
+            <td>${format(average.fiveMinutes, bytes)}</td>
+            <td>${format(average.fifteenMinutes, bytes)}</td>
+          </tr>`;
+      })
+      .join('');
+
+    if (!body) {
+      return '<p class="text-muted">No load averages published yet</p>';
+    }
+
+    return `
+      <table class="metrics-table">
+        <thead><tr><th>Per minute</th><th>1 min</th><th>5 min</th><th>15 min</th></tr></thead>
+        <tbody>${body}</tbody>
+      </table>`;
+  }
+
+  private renderMetricItems(items: [string, number | undefined, boolean?][]): string {
+    const available = items.filter(([, value]) => value !== undefined);
+    if (available.length === 0) {
+      return '<p class="text-muted">Not published by this broker</p>';
+    }
+
+    return `
+      <div class="status-grid">
+        ${available
+          .map(
+            ([label, value, bytes]) => `
+          <div class="status-item">
+            <span class="label">${label}:</span>
+            <span class="value">${bytes ? this.formatBytes(value as number) : value}</span>
+          </div>`
+          )
+          .join('')}
+      </div>`;
+  }
+
+  private updateSysMetrics(metrics?: BrokerMetrics): void {
+    const container = document.getElementById('sysMetrics');
+    if (!container) return;
+
+    if (!metrics) {
+      container.innerHTML = '<p class="text-muted">Waiting for broker statistics</p>';
+      return;
+    }
+
+    const bridges = Object.entries(metrics.bridges);
+    container.innerHTML = `
+      <h4>Load Averages</h4>
+      ${this.renderLoadTable(metrics, [
+        ['Messages in', 'messagesReceived'],
+        ['Messages out', 'messagesSent'],
+        ['PUBLISH in', 'publishReceived'],
+        ['PUBLISH out', 'publishSent'],
+        ['PUBLISH dropped', 'publishDropped'],
+        ['Bytes in', 'bytesReceived', true],
+        ['Bytes out', 'bytesSent', true],
+        ['Connections', 'connections'],
+        ['Sockets', 'sockets'],
+      ])}
+      <h4>Clients</h4>
+      ${this.renderMetricItems([
+        ['Connected', metrics.clients.connected],
+        ['Disconnected', metrics.clients.disconnected],
+        ['Expired', metrics.clients.expired],
+        ['Maximum', metrics.clients.maximum],
+        ['Total', metrics.clients.total],
+      ])}
+      <h4>Messages</h4>
+      ${this.renderMetricItems([
+        ['Received', metrics.messages.received],
+        ['Sent', metrics.messages.sent],
+        ['PUBLISH Received', metrics.publish.messagesReceived],
+        ['PUBLISH Sent', metrics.publish.messagesSent],
+        ['PUBLISH Dropped', metrics.publish.messagesDropped],
+        ['Retained', metrics.messages.retained],
+        ['Stored', metrics.messages.stored],
+        ['Inflight', metrics.messages.inflight],
+        ['Subscriptions', metrics.subscriptions],
+      ])}
+      <h4>Memory &amp; Traffic</h4>
+      ${this.renderMetricItems([
+        ['Bytes Received', metrics.bytes.received, true],
+        ['Bytes Sent', metrics.bytes.sent, true],
+        ['PUBLISH Bytes Received', metrics.publish.bytesReceived, true],
+        ['PUBLISH Bytes Sent', metrics.publish.bytesSent, true],
+        ['Heap Used', metrics.heap.current, true],
+        ['Heap Peak', metrics.heap.maximum, true],
+      ])}
+      <h4>Bridge Connections</h4>
+      ${
+        bridges.length
+          ? `<div class="status-grid">${bridges
+              .map(
+                ([id, bridge]) => `
+            <div class="status-item">
+              <span class="label">${this.escapeHtml(id)}:</span>
+              <span class="value">${bridge.connected ? 'Connected' : 'Disconnected'}</span>
+            </div>`
+              )
+              .join('')}</div>`
+          : '<p class="text-muted">No bridge connections reported</p>'
+      }`;
+  }
+
+  private updateClientOverview(status: MosquittoStatus): void {
+    const events = status.events;
+    this.updateElement('authFailures', events ? events.authFailuresLastHour.toString() : '0');
+    this.updateElement('socketErrors', events ? events.socketErrorsLastHour.toString() : '0');
+
+    const container = document.getElementById('clientOverview');
+    if (!container) return;
+
+    const clients = status.clients || [];
+    const problems = [events?.lastAuthFailure, events?.lastSocketError]
+      .filter((event): event is BrokerEvent => Boolean(event))
+      .map(
+        event => `
+        <div class="client-event ${event.type}">
+          <span class="log-time">${new Date(event.timestamp).toLocaleString()}</span>
+          ${this.escapeHtml(event.message)}
+        </div>`
+      )
+      .join('');
+
+    const clientList = clients.length
+      ? clients
+          .map(
+            client => `
+        <div class="client-item">
+          <strong>${this.escapeHtml(client.clientId)}</strong>
+          <small>${this.escapeHtml(client.username ? `${client.username} @ ` : '')}${this.escapeHtml(client.address || 'unknown')}</small>
+        </div>`
+          )
+          .join('')
+      : '<p class="text-muted">No clients connected</p>';
+
+    container.innerHTML = clientList + problems;
   }
 
   private async restartBroker(): Promise<void> {
@@ -283,19 +837,22 @@ class MosquittoManager {
           (document.getElementById('maxConnections') as HTMLInputElement).value
         ),
         logLevel: (document.getElementById('logLevel') as HTMLSelectElement).value,
-        enableWebsockets: (document.getElementById('enableWebsockets') as HTMLInputElement).checked,
-        websocketPort: parseInt(
-          (document.getElementById('websocketPort') as HTMLInputElement).value
-        ),
         persistence: (document.getElementById('persistence') as HTMLInputElement).checked,
         persistenceLocation: (document.getElementById('persistenceLocation') as HTMLInputElement)
           .value,
-        tlsEnabled: (document.getElementById('tlsEnabled') as HTMLInputElement).checked,
-        tlsCertPath: (document.getElementById('tlsCertPath') as HTMLInputElement).value,
-        tlsKeyPath: (document.getElementById('tlsKeyPath') as HTMLInputElement).value,
-        tlsCaPath: (document.getElementById('tlsCaPath') as HTMLInputElement).value,
+        listeners: this.listeners,
       };
 
+      const confirmed = await this.confirmWithPreview(
+        'Save Configuration',
+        'Review the changes before they are applied to the broker.',
+        'Apply Changes',
+        `${this.baseUrl}/config`,
+        'POST',
+        config
+      );
+      if (!confirmed) return;
+
       const response = await fetch(`${this.baseUrl}/config`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -303,12 +860,12 @@ class MosquittoManager {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to save configuration');
+        throw await this.readApplyError(response, 'Failed to save configuration');
       }
 
       const result = await response.json();
       this.showSuccess(result.message || 'Configuration saved successfully');
+      (result.warnings || []).forEach((warning: string) => this.showWarning(warning));
     } catch (error) {
       console.error('Failed to save configuration:', error);
       this.showError((error as Error).message || 'Failed to save configuration');
@@ -345,13 +902,6 @@ class MosquittoManager {
     const logLevel = document.getElementById('logLevel') as HTMLSelectElement;
     if (logLevel && config.logLevel) logLevel.value = config.logLevel;
 
-    const enableWebsockets = document.getElementById('enableWebsockets') as HTMLInputElement;
-    if (enableWebsockets) enableWebsockets.checked = config.enableWebsockets ?? true;
-
-    const websocketPort = document.getElementById('websocketPort') as HTMLInputElement;
-    if (websocketPort && config.websocketPort)
-      websocketPort.value = config.websocketPort.toString();
-
     const persistence = document.getElementById('persistence') as HTMLInputElement;
     if (persistence) persistence.checked = config.persistence ?? true;
 
@@ -359,17 +909,159 @@ class MosquittoManager {
     if (persistenceLocation && config.persistenceLocation)
       persistenceLocation.value = config.persistenceLocation;
 
-    const tlsEnabled = document.getElementById('tlsEnabled') as HTMLInputElement;
-    if (tlsEnabled) tlsEnabled.checked = config.tlsEnabled ?? false;
+    this.listeners = config.listeners || [];
+    this.updateListenerList();
+  }
+
+  private updateListenerList(): void {
+    const container = document.getElementById('listenerList');
+    if (!container) return;
+
+    if (this.listeners.length === 0) {
+      container.innerHTML = '<p class="text-muted">No listeners configured</p>';
+      return;
+    }
+
+    container.innerHTML = this.listeners
+      .map(
+        (listener, index) => `
+      <div class="list-item">
+        <div class="list-item-content">
+          <div class="list-item-title">${this.escapeHtml(listener.name || listener.id)}</div>
+          <div class="list-item-subtitle">
+            ${listener.protocol === 'websockets' ? 'WebSockets' : 'MQTT'}${listener.tlsEnabled ? ' + TLS' : ''}
+            on ${this.escapeHtml(listener.bindInterface || listener.bindAddress || '*')}:${listener.port}
+            &middot; ${listener.authMode === 'password' ? 'Username/password' : 'Anonymous'}
+            ${listener.mountPoint ? `&middot; mount ${this.escapeHtml(listener.mountPoint)}` : ''}
+            ${
+              listener.enabled &&
+              listener.authMode === 'anonymous' &&
+              !this.isLoopbackListener(listener)
+                ? '<span class="listener-warning" title="Anonymous clients can connect from other hosts"><i class="fas fa-exclamation-triangle"></i> Exposed</span>'
+                : ''
+            }
+            <span class="bridge-status ${listener.enabled ? 'connected' : 'disabled'}">
+              <i class="fas fa-circle"></i>
+              ${listener.enabled ? 'Enabled' : 'Disabled'}
+            </span>
+          </div>
+        </div>
+        <div class="list-item-actions">
+          <button type="button" class="btn btn-secondary btn-sm" onclick="manager.editListener(${index})">
+            <i class="fas fa-edit"></i> Edit
+          </button>
+          <button type="button" class="btn btn-danger btn-sm" onclick="manager.removeListener(${index})">
+            <i class="fas fa-trash"></i> Remove
+          </button>
+        </div>
+      </div>
+    `
+      )
+      .join('');
+  }
+
+  private isLoopbackListener(listener: ListenerConfig): boolean {
+    if (listener.bindInterface) {
+      return listener.bindInterface === 'lo' || listener.bindInterface.startsWith('lo0');
+    }
+    const address = (listener.bindAddress || '').toLowerCase();
+    return ['localhost', '::1', '[::1]'].includes(address) || /^127\./.test(address);
+  }
+
+  private showListenerModal(listener?: ListenerConfig, index?: number): void {
+    const modal = document.getElementById('listenerModal');
+    const form = document.getElementById('listenerForm') as HTMLFormElement;
+
+    if (!modal || !form) return;
+
+    form.reset();
+
+    if (listener && index !== undefined) {
+      document.getElementById('listenerModalTitle')!.textContent = 'Edit Listener';
+      form.dataset.listenerIndex = index.toString();
+
+      (document.getElementById('listenerName') as HTMLInputElement).value = listener.name || '';
+      (document.getElementById('listenerPort') as HTMLInputElement).value =
+        listener.port.toString();
+      (document.getElementById('listenerProtocol') as HTMLSelectElement).value = listener.protocol;
+      (document.getElementById('listenerAuthMode') as HTMLSelectElement).value = listener.authMode;
+      (document.getElementById('listenerBindAddress') as HTMLInputElement).value =
+        listener.bindAddress || '';
+      (document.getElementById('listenerBindInterface') as HTMLInputElement).value =
+        listener.bindInterface || '';
+      (document.getElementById('listenerMountPoint') as HTMLInputElement).value =
+        listener.mountPoint || '';
+      (document.getElementById('listenerMaxConnections') as HTMLInputElement).value =
+        listener.maxConnections?.toString() || '';
+      (document.getElementById('listenerEnabled') as HTMLInputElement).checked = listener.enabled;
+      (document.getElementById('listenerTlsEnabled') as HTMLInputElement).checked =
+        listener.tlsEnabled;
+      (document.getElementById('listenerTlsCertPath') as HTMLInputElement).value =
+        listener.tlsCertPath || '';
+      (document.getElementById('listenerTlsKeyPath') as HTMLInputElement).value =
+        listener.tlsKeyPath || '';
+      (document.getElementById('listenerTlsCaPath') as HTMLInputElement).value =
+        listener.tlsCaPath || '';
+      (document.getElementById('listenerRequireCertificate') as HTMLInputElement).checked =
+        listener.requireCertificate ?? false;
+    } else {
+      document.getElementById('listenerModalTitle')!.textContent = 'Add Listener';
+      delete form.dataset.listenerIndex;
+    }
+
+    modal.classList.add('active');
+  }
+
+  private saveListener(): void {
+    const form = document.getElementById('listenerForm') as HTMLFormElement;
+    if (!form.checkValidity()) {
+      form.reportValidity();
+      return;
+    }
+
+    const value = (id: string): string =>
+      (document.getElementById(id) as HTMLInputElement).value.trim();
+    const checked = (id: string): boolean =>
+      (document.getElementById(id) as HTMLInputElement).checked;
+
+    const index = form.dataset.listenerIndex;
+    const existing = index !== undefined ? this.listeners[parseInt(index)] : undefined;
+    const tlsEnabled = checked('listenerTlsEnabled');
+
+    const listener: ListenerConfig = {
+      id: existing?.id || Date.now().toString(),
+      enabled: checked('listenerEnabled'),
+      name: value('listenerName') || undefined,
+      port: parseInt(value('listenerPort')),
+      bindAddress: value('listenerBindAddress') || undefined,
+      bindInterface: value('listenerBindInterface') || undefined,
+      protocol: value('listenerProtocol') as 'mqtt' | 'websockets',
+      authMode: value('listenerAuthMode') as 'anonymous' | 'password',
+      mountPoint: value('listenerMountPoint') || undefined,
+      maxConnections: value('listenerMaxConnections')
+        ? parseInt(value('listenerMaxConnections'))
+        : undefined,
+      tlsEnabled,
+      tlsCertPath: tlsEnabled ? value('listenerTlsCertPath') || undefined : undefined,
+      tlsKeyPath: tlsEnabled ? value('listenerTlsKeyPath') || undefined : undefined,
+      tlsCaPath: tlsEnabled ? value('listenerTlsCaPath') || undefined : undefined,
+      requireCertificate: tlsEnabled && checked('listenerRequireCertificate'),
+    };
 
-    const tlsCertPath = document.getElementById('tlsCertPath') as HTMLInputElement;
-    if (tlsCertPath && config.tlsCertPath) tlsCertPath.value = config.tlsCertPath;
+    if (listener.tlsEnabled && (!listener.tlsCertPath || !listener.tlsKeyPath)) {
+      this.showError('TLS certificate and key paths are required when TLS is enabled');
+      return;
+    }
 
-    const tlsKeyPath = document.getElementById('tlsKeyPath') as HTMLInputElement;
-    if (tlsKeyPath && config.tlsKeyPath) tlsKeyPath.value = config.tlsKeyPath;
+    if (existing) {
+      this.listeners[parseInt(index!)] = listener;
+    } else {
+      this.listeners.push(listener);
+    }
 
-    const tlsCaPath = document.getElementById('tlsCaPath') as HTMLInputElement;
-    if (tlsCaPath && config.tlsCaPath) tlsCaPath.value = config.tlsCaPath;
+    this.closeAllModals();
+    this.updateListenerList();
+    this.showInfo('Listener updated. Save the configuration to apply it.');
   }
 
   private async generateCertificates(): Promise<void> {
@@ -401,11 +1093,9 @@ class MosquittoManager {
 
       const bridges: BridgeConfig[] = await response.json();
       this.updateBridgeList(bridges);
-      this.updateBridgeOverview(bridges);
     } catch (error) {
       console.error('Failed to load bridges:', error);
       this.updateBridgeList([]);
-      this.updateBridgeOverview([]);
     }
   }
 
@@ -425,7 +1115,7 @@ class MosquittoManager {
         <div class="list-item-content">
           <div class="list-item-title">${bridge.name}</div>
           <div class="list-item-subtitle">
-            ${bridge.remoteHost}:${bridge.remotePort} 
+            ${bridge.remoteHost}:${bridge.remotePort}${bridge.fallbackAddresses?.length ? ` (+${bridge.fallbackAddresses.length} fallback)` : ''}
             <span class="bridge-status ${bridge.enabled ? 'connected' : 'disabled'}">
               <i class="fas fa-circle"></i>
               ${bridge.enabled ? 'Enabled' : 'Disabled'}
@@ -449,7 +1139,7 @@ class MosquittoManager {
       .join('');
   }
 
-  private updateBridgeOverview(bridges: BridgeConfig[]): void {
+  private updateBridgeOverview(bridges: BridgeConnectionStatus[]): void {
     const container = document.getElementById('bridgeOverview');
     if (!container) return;
 
@@ -458,18 +1148,52 @@ class MosquittoManager {
       return;
     }
 
+    const labels = {
+      connected: 'Connected',
+      disconnected: 'Disconnected',
+      disabled: 'Disabled',
+      unknown: 'Unknown',
+    };
+    const connectedCount = bridges.filter(b => b.state === 'connected').length;
     const enabledCount = bridges.filter(b => b.enabled).length;
+
     container.innerHTML = `
       <div class="status-grid">
         <div class="status-item">
-          <span class="label">Total Bridges:</span>
-          <span class="value">${bridges.length}</span>
-        </div>
-        <div class="status-item">
-          <span class="label">Enabled:</span>
-          <span class="value">${enabledCount}</span>
+          <span class="label">Connected:</span>
+          <span class="value">${connectedCount} of ${enabledCount} enabled</span>
         </div>
       </div>
+      <div class="client-overview">
+        ${bridges
+          .map(bridge => {
+            const recent = bridge.history
+              .slice(-5)
+              .reverse()
+              .map(
+                change => `
+            <div class="client-event">
+              <span class="log-time">${new Date(change.timestamp).toLocaleString()}</span>
+              ${change.connected ? 'Connected' : `Disconnected${change.reason ? ` (${this.escapeHtml(change.reason)})` : ''}`}
+            </div>`
+              )
+              .join('');
+            return `
+          <div class="client-item">
+            <strong>${this.escapeHtml(bridge.bridgeId)}</strong>
+            <span class="bridge-status ${bridge.state === 'unknown' ? 'disabled' : bridge.state}">
+              <i class="fas fa-circle"></i> ${labels[bridge.state]}${bridge.since ? ` since ${new Date(bridge.since).toLocaleString()}` : ''}
+            </span>
+            ${bridge.address ? `<small>${bridge.state === 'connected' ? 'via' : 'last tried'} ${this.escapeHtml(bridge.address)}${bridge.fallback ? ' (fallback)' : ''}</small>` : ''}
+          </div>
+          <small class="bridge-times">
+            Last connected: ${bridge.lastConnected ? new Date(bridge.lastConnected).toLocaleString() : 'never'}
+            &middot; last disconnected: ${bridge.lastDisconnected ? new Date(bridge.lastDisconnected).toLocaleString() : 'never'}
+          </small>
+          ${recent}`;
+          })
+          .join('')}
+      </div>
     `;
   }
 
@@ -489,15 +1213,30 @@ class MosquittoManager {
       this.addTopicRow();
     }
 
+    const fallbackAddressList = document.getElementById('fallbackAddressList');
+    if (fallbackAddressList) fallbackAddressList.innerHTML = '';
+
+    const testReport = document.getElementById('bridgeTestReport');
+    if (testReport) testReport.innerHTML = '';
+    const simulatorResult = document.getElementById('bridgeSimulatorResult');
+    if (simulatorResult) simulatorResult.innerHTML = '';
+
+    // Settings without a form field, such as a keepalive message, are carried over from here
+    this.bridgeTemplate = bridge || null;
+    const presetSection = document.getElementById('bridgePresetSection');
+
     if (bridge) {
       // Edit mode
       document.getElementById('bridgeModalTitle')!.textContent = 'Edit Bridge';
       form.dataset.bridgeId = bridge.id;
       this.populateBridgeForm(bridge);
+      if (presetSection) presetSection.style.display = 'none';
     } else {
       // Add mode
       document.getElementById('bridgeModalTitle')!.textContent = 'Add Bridge';
       delete form.dataset.bridgeId;
+      if (presetSection) presetSection.style.display = '';
+      this.loadBridgePresets();
     }
 
     modal.classList.add('active');
@@ -513,6 +1252,40 @@ class MosquittoManager {
     (document.getElementById('remotePassword') as HTMLInputElement).value =
       bridge.remotePassword || '';
 
+    const setValue = (id: string, value: string | number | undefined): void => {
+      (document.getElementById(id) as HTMLInputElement).value = value?.toString() ?? '';
+    };
+    const setChecked = (id: string, checked: boolean): void => {
+      (document.getElementById(id) as HTMLInputElement).checked = checked;
+    };
+
+    const fallbackAddressList = document.getElementById('fallbackAddressList');
+    if (fallbackAddressList) fallbackAddressList.innerHTML = '';
+    (bridge.fallbackAddresses || []).forEach(address => this.addFallbackAddressRow(address));
+    setValue('bridgeRoundRobin', bridge.roundRobin ? 'true' : '');
+    setChecked('bridgeEnabled', bridge.enabled);
+    setValue('bridgeProtocolVersion', bridge.protocolVersion);
+    setValue('bridgeKeepalive', bridge.keepalive);
+    setValue('bridgeRemoteClientId', bridge.remoteClientId);
+    setValue('bridgeLocalClientId', bridge.localClientId);
+    setChecked('bridgeCleanSession', bridge.cleanSession);
+    setChecked('bridgeTryPrivate', bridge.tryPrivate);
+    setValue('bridgeStartType', bridge.startType);
+    setValue('bridgeRestartTimeout', bridge.restartTimeout);
+    setValue('bridgeRestartTimeoutMax', bridge.restartTimeoutMax);
+    setValue('bridgeIdleTimeout', bridge.idleTimeout);
+    setValue('bridgeThreshold', bridge.threshold);
+    setChecked('bridgeNotifications', bridge.notifications ?? true);
+    setValue('bridgeNotificationTopic', bridge.notificationTopic);
+    setChecked('bridgeOutgoingRetain', bridge.outgoingRetain ?? true);
+    setValue('bridgeMaxPacketSize', bridge.maxPacketSize);
+    setChecked('bridgeTlsEnabled', bridge.tlsEnabled);
+    setValue('bridgeTlsCaPath', bridge.tlsCaPath);
+    setValue('bridgeTlsCertPath', bridge.tlsCertPath);
+    setValue('bridgeTlsKeyPath', bridge.tlsKeyPath);
+    setValue('bridgeTlsVersion', bridge.tlsVersion);
+    setValue('bridgeTlsAlpn', bridge.tlsAlpn);
+
     // Add topic rows
     const topicList = document.getElementById('topicList');
     if (topicList && bridge.topics.length > 0) {
@@ -541,6 +1314,8 @@ class MosquittoManager {
         <option value="1" ${topic?.qos === 1 ? 'selected' : ''}>QoS 1</option>
         <option value="2" ${topic?.qos === 2 ? 'selected' : ''}>QoS 2</option>
       </select>
+      <input type="text" placeholder="Local prefix" class="topic-local-prefix" value="${this.escapeHtml(topic?.localPrefix || '')}">
+      <input type="text" placeholder="Remote prefix" class="topic-remote-prefix" value="${this.escapeHtml(topic?.remotePrefix || '')}">
       <button type="button" class="btn btn-danger btn-sm remove-topic">
         <i class="fas fa-trash"></i>
       </button>
@@ -554,6 +1329,39 @@ class MosquittoManager {
     topicList.appendChild(row);
   }
 
+  private addFallbackAddressRow(address?: { host: string; port: number }): void {
+    const list = document.getElementById('fallbackAddressList');
+    if (!list) return;
+
+    const row = document.createElement('div');
+    row.className = 'address-row';
+    row.innerHTML = `
+      <input type="text" placeholder="Host" class="address-host" value="${this.escapeHtml(address?.host || '')}">
+      <input type="number" placeholder="Port" class="address-port" min="1" max="65535" value="${address?.port ?? 1883}">
+      <button type="button" class="btn btn-danger btn-sm remove-address">
+        <i class="fas fa-trash"></i>
+      </button>
+    `;
+
+    row.querySelector('.remove-address')?.addEventListener('click', () => {
+      row.remove();
+    });
+
+    list.appendChild(row);
+  }
+
+  private collectFallbackAddresses(): { host: string; port: number }[] {
+    const addresses: { host: string; port: number }[] = [];
+    document.querySelectorAll('#fallbackAddressList .address-row').forEach(row => {
+      const host = (row.querySelector('.address-host') as HTMLInputElement).value.trim();
+      const port = parseInt((row.querySelector('.address-port') as HTMLInputElement).value);
+      if (host) {
+        addresses.push({ host, port });
+      }
+    });
+    return addresses;
+  }
+
   private async saveBridge(): Promise<void> {
     const form = document.getElementById('bridgeForm') as HTMLFormElement;
     if (!form.checkValidity()) {
@@ -568,7 +1376,6 @@ class MosquittoManager {
 
       const bridgeConfig: BridgeConfig = {
         id: existingBridgeId || Date.now().toString(),
-        enabled: true,
         name: (document.getElementById('bridgeName') as HTMLInputElement).value,
         remoteHost: (document.getElementById('remoteHost') as HTMLInputElement).value,
         remotePort: parseInt((document.getElementById('remotePort') as HTMLInputElement).value),
@@ -576,13 +1383,25 @@ class MosquittoManager {
           (document.getElementById('remoteUsername') as HTMLInputElement).value || undefined,
         remotePassword:
           (document.getElementById('remotePassword') as HTMLInputElement).value || undefined,
-        tlsEnabled: false,
-        keepalive: 60,
-        cleanSession: true,
-        tryPrivate: false,
         topics: this.collectTopics(),
+        ...this.collectBridgeOptions(),
+        keepaliveMessage: this.bridgeTemplate?.keepaliveMessage,
       };
 
+      const bridgeUrl =
+        isEditMode && existingBridgeId
+          ? `${this.baseUrl}/bridges/${existingBridgeId}`
+          : `${this.baseUrl}/bridges`;
+      const confirmed = await this.confirmWithPreview(
+        isEditMode ? 'Update Bridge' : 'Add Bridge',
+        'Review the changes before they are applied to the broker.',
+        'Save Bridge',
+        bridgeUrl,
+        isEditMode && existingBridgeId ? 'PUT' : 'POST',
+        bridgeConfig
+      );
+      if (!confirmed) return;
+
       let response;
       if (isEditMode && existingBridgeId) {
         response = await fetch(`${this.baseUrl}/bridges/${existingBridgeId}`, {
@@ -599,8 +1418,7 @@ class MosquittoManager {
       }
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to save bridge');
+        throw await this.readApplyError(response, 'Failed to save bridge');
       }
 
       const result = await response.json();
@@ -615,39 +1433,207 @@ class MosquittoManager {
     }
   }
 
-  private collectTopics(): BridgeTopicConfig[] {
-    const topics: BridgeTopicConfig[] = [];
-    const rows = document.querySelectorAll('.topic-row');
+  private async loadBridgePresets(): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/bridges/presets`);
+      if (!response.ok) throw new Error('Failed to fetch bridge presets');
+
+      this.bridgePresets = await response.json();
+      const select = document.getElementById('bridgePreset');
+      if (select) {
+        select.innerHTML =
+          '<option value="">None (manual setup)</option>' +
+          this.bridgePresets
+            .map(
+              p =>
+                `<option value="${this.escapeHtml(p.id)}">${this.escapeHtml(p.name)}${
+                  p.builtin ? '' : ' (custom)'
+                }</option>`
+            )
+            .join('');
+      }
+    } catch (error) {
+      console.error('Failed to load bridge presets:', error);
+      this.bridgePresets = [];
+    }
+    this.renderBridgePresetParameters();
+  }
 
-    rows.forEach(row => {
-      const pattern = (row.querySelector('.topic-pattern') as HTMLInputElement).value;
-      const direction = (row.querySelector('.topic-direction') as HTMLSelectElement).value as
-        | 'in'
-        | 'out'
-        | 'both';
-      const qos = parseInt((row.querySelector('.topic-qos') as HTMLSelectElement).value) as
-        | 0
-        | 1
-        | 2;
+  private renderBridgePresetParameters(): void {
+    const presetId = (document.getElementById('bridgePreset') as HTMLSelectElement).value;
+    const preset = this.bridgePresets.find(p => p.id === presetId);
+    const container = document.getElementById('bridgePresetParameters');
+    const applyButton = document.getElementById('applyBridgePresetBtn');
 
-      if (pattern.trim()) {
-        topics.push({ pattern, direction, qos });
-      }
-    });
+    this.updateElement('bridgePresetDescription', preset ? preset.description : '');
+    if (applyButton) applyButton.style.display = preset ? '' : 'none';
+    if (!container) return;
 
-    return topics;
+    container.innerHTML = preset
+      ? preset.parameters
+          .map(parameter => {
+            const inputType =
+              parameter.type === 'number'
+                ? 'number'
+                : parameter.type === 'password'
+                  ? 'password'
+                  : 'text';
+            return `
+              <div class="form-group">
+                <label for="bridgePresetParam-${parameter.name}">${this.escapeHtml(parameter.label)}${
+                  parameter.required ? '' : ' (optional)'
+                }:</label>
+                <input type="${inputType}" id="bridgePresetParam-${parameter.name}"
+                  data-parameter="${parameter.name}"
+                  value="${this.escapeHtml(String(parameter.default ?? ''))}"
+                  placeholder="${this.escapeHtml(parameter.description || '')}" />
+              </div>
+            `;
+          })
+          .join('')
+      : '';
   }
 
-  private async testBridge(): Promise<void> {
-    const bridge: Partial<BridgeConfig> = {
-      remoteHost: (document.getElementById('remoteHost') as HTMLInputElement).value,
-      remotePort: parseInt((document.getElementById('remotePort') as HTMLInputElement).value),
-      remoteUsername:
-        (document.getElementById('remoteUsername') as HTMLInputElement).value || undefined,
+  private async applyBridgePreset(): Promise<void> {
+    const presetId = (document.getElementById('bridgePreset') as HTMLSelectElement).value;
+    if (!presetId) return;
+
+    const values: Record<string, string> = {};
+    document
+      .querySelectorAll<HTMLInputElement>('#bridgePresetParameters input[data-parameter]')
+      .forEach(input => {
+        values[input.dataset.parameter!] = input.value.trim();
+      });
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/bridges/presets/${encodeURIComponent(presetId)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(values),
+        }
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to apply preset');
+      }
+
+      const result: { bridge: BridgeConfig; errors: string[] } = await response.json();
+      this.bridgeTemplate = result.bridge;
+      this.populateBridgeForm(result.bridge);
+
+      if (result.errors.length > 0) {
+        this.showError(`Check the bridge settings: ${result.errors.join(', ')}`);
+      } else {
+        this.showSuccess('Preset applied; review the settings and save the bridge');
+      }
+    } catch (error) {
+      console.error('Failed to apply bridge preset:', error);
+      this.showError((error as Error).message || 'Failed to apply preset');
+    }
+  }
+
+  private collectBridgeOptions(): Omit<
+    BridgeConfig,
+    'id' | 'name' | 'remoteHost' | 'remotePort' | 'remoteUsername' | 'remotePassword' | 'topics'
+  > {
+    const value = (id: string): string =>
+      (document.getElementById(id) as HTMLInputElement).value.trim();
+    const checked = (id: string): boolean =>
+      (document.getElementById(id) as HTMLInputElement).checked;
+    const number = (id: string): number | undefined =>
+      value(id) ? parseInt(value(id)) : undefined;
+    const tlsEnabled = checked('bridgeTlsEnabled');
+    const fallbackAddresses = this.collectFallbackAddresses();
+
+    // Settings left at mosquitto's default are omitted so they stay out of the generated config
+    return {
+      enabled: checked('bridgeEnabled'),
+      fallbackAddresses: fallbackAddresses.length > 0 ? fallbackAddresses : undefined,
+      roundRobin: value('bridgeRoundRobin') === 'true' ? true : undefined,
+      keepalive: number('bridgeKeepalive') ?? 60,
+      cleanSession: checked('bridgeCleanSession'),
+      tryPrivate: checked('bridgeTryPrivate'),
+      protocolVersion: (value('bridgeProtocolVersion') || undefined) as
+        | BridgeConfig['protocolVersion']
+        | undefined,
+      remoteClientId: value('bridgeRemoteClientId') || undefined,
+      localClientId: value('bridgeLocalClientId') || undefined,
+      startType: (value('bridgeStartType') || undefined) as BridgeConfig['startType'] | undefined,
+      restartTimeout: number('bridgeRestartTimeout'),
+      restartTimeoutMax: number('bridgeRestartTimeoutMax'),
+      idleTimeout: number('bridgeIdleTimeout'),
+      threshold: number('bridgeThreshold'),
+      notifications: checked('bridgeNotifications') ? undefined : false,
+      notificationTopic: value('bridgeNotificationTopic') || undefined,
+      outgoingRetain: checked('bridgeOutgoingRetain') ? undefined : false,
+      maxPacketSize: number('bridgeMaxPacketSize'),
+      tlsEnabled,
+      tlsCaPath: tlsEnabled ? value('bridgeTlsCaPath') || undefined : undefined,
+      tlsCertPath: tlsEnabled ? value('bridgeTlsCertPath') || undefined : undefined,
+      tlsKeyPath: tlsEnabled ? value('bridgeTlsKeyPath') || undefined : undefined,
+      tlsVersion: tlsEnabled
+        ? ((value('bridgeTlsVersion') || undefined) as BridgeConfig['tlsVersion'] | undefined)
+        : undefined,
+      tlsAlpn: tlsEnabled ? value('bridgeTlsAlpn') || undefined : undefined,
+    };
+  }
+
+  private collectTopics(): BridgeTopicConfig[] {
+    const topics: BridgeTopicConfig[] = [];
+    const rows = document.querySelectorAll('.topic-row');
+
+    rows.forEach(row => {
+      const pattern = (row.querySelector('.topic-pattern') as HTMLInputElement).value;
+      const direction = (row.querySelector('.topic-direction') as HTMLSelectElement).value as
+        | 'in'
+        | 'out'
+        | 'both';
+      const qos = parseInt((row.querySelector('.topic-qos') as HTMLSelectElement).value) as
+        | 0
+        | 1
+        | 2;
+
+      const localPrefix = (row.querySelector('.topic-local-prefix') as HTMLInputElement).value;
+      const remotePrefix = (row.querySelector('.topic-remote-prefix') as HTMLInputElement).value;
+
+      if (pattern.trim()) {
+        topics.push({
+          pattern,
+          direction,
+          qos,
+          localPrefix: localPrefix.trim() || undefined,
+          remotePrefix: remotePrefix.trim() || undefined,
+        });
+      }
+    });
+
+    return topics;
+  }
+
+  private async testBridge(): Promise<void> {
+    const form = document.getElementById('bridgeForm') as HTMLFormElement;
+    const bridge: Partial<BridgeConfig> = {
+      // Lets the server swap a masked password for the stored one
+      id: form.dataset.bridgeId,
+      name: (document.getElementById('bridgeName') as HTMLInputElement).value,
+      remoteHost: (document.getElementById('remoteHost') as HTMLInputElement).value,
+      remotePort: parseInt((document.getElementById('remotePort') as HTMLInputElement).value),
+      remoteUsername:
+        (document.getElementById('remoteUsername') as HTMLInputElement).value || undefined,
       remotePassword:
         (document.getElementById('remotePassword') as HTMLInputElement).value || undefined,
+      topics: this.collectTopics(),
+      ...this.collectBridgeOptions(),
     };
 
+    const container = document.getElementById('bridgeTestReport');
+    if (container) {
+      container.innerHTML =
+        '<p class="text-muted">Testing DNS, TCP, TLS, login, topics and latency...</p>';
+    }
+
     this.showLoading(true);
     try {
       const response = await fetch(`${this.baseUrl}/bridges/test`, {
@@ -656,17 +1642,483 @@ class MosquittoManager {
         body: JSON.stringify(bridge),
       });
 
-      if (!response.ok) throw new Error('Test failed');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Test failed');
+      }
 
-      const result = await response.json();
-      if (result.connected) {
+      const report: BridgeTestReport = await response.json();
+      this.renderBridgeTestReport(report);
+      if (report.success) {
         this.showSuccess('Connection test successful');
+      } else if (report.connected) {
+        this.showError('Connected, but some checks failed');
       } else {
         this.showError('Connection test failed');
       }
     } catch (error) {
       console.error('Failed to test bridge:', error);
-      this.showError('Connection test failed');
+      if (container) container.innerHTML = '';
+      this.showError(`Connection test failed: ${(error as Error).message}`);
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  private async simulateBridgeTopic(): Promise<void> {
+    const container = document.getElementById('bridgeSimulatorResult');
+    if (!container) return;
+
+    const side = (document.getElementById('bridgeSimulatorSide') as HTMLSelectElement).value;
+    const topic = (
+      document.getElementById('bridgeSimulatorTopic') as HTMLInputElement
+    ).value.trim();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/bridges/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bridge: { topics: this.collectTopics() }, side, topic }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Simulation failed');
+      }
+
+      const result: BridgeTopicSimulation = await response.json();
+      const arrow = result.direction === 'out' ? 'local → remote' : 'remote → local';
+      const outcome = result.forwarded
+        ? `<span class="bridge-status connected"><i class="fas fa-check"></i> Forwarded ${arrow}</span>
+           at QoS ${result.qos} as <code>${this.escapeHtml(result.mappedTopic || '')}</code>`
+        : `<span class="bridge-status disabled"><i class="fas fa-ban"></i> Not forwarded</span>
+           no ${side === 'local' ? 'out or both' : 'in or both'} topic matches it`;
+      const matches = result.matches
+        .map(
+          match =>
+            `<div class="text-muted">Topic ${match.index + 1}: <code>${this.escapeHtml(match.filter)}</code> (QoS ${match.qos}) → <code>${this.escapeHtml(match.mappedTopic)}</code></div>`
+        )
+        .join('');
+      const warnings = result.warnings.length
+        ? `<div class="preview-warnings">${result.warnings.map(w => `<p>${this.escapeHtml(w)}</p>`).join('')}</div>`
+        : '';
+
+      container.innerHTML = `<p>${outcome}</p>${matches}${warnings}`;
+    } catch (error) {
+      container.innerHTML = `<p class="text-muted">${this.escapeHtml((error as Error).message)}</p>`;
+    }
+  }
+
+  private renderBridgeTestReport(report: BridgeTestReport): void {
+    const container = document.getElementById('bridgeTestReport');
+    if (!container) return;
+
+    const labels: Record<BridgeTestStep['step'], string> = {
+      dns: 'DNS',
+      tcp: 'TCP',
+      tls: 'TLS',
+      connect: 'Login',
+      subscribe: 'Subscribe',
+      publish: 'Publish',
+      latency: 'Latency',
+    };
+    const icons: Record<BridgeTestStep['status'], string> = {
+      passed: 'fa-check-circle',
+      warning: 'fa-exclamation-triangle',
+      failed: 'fa-times-circle',
+      skipped: 'fa-minus-circle',
+    };
+
+    const details = (step: BridgeTestStep): string => {
+      if (!step.tls) return '';
+      const chain = step.tls.certificates
+        .map(
+          cert =>
+            `<div>${this.escapeHtml(cert.subject)} &middot; issued by ${this.escapeHtml(cert.issuer)} &middot; valid until ${new Date(cert.validTo).toLocaleDateString()}</div>`
+        )
+        .join('');
+      return `
+        <div class="bridge-test-details">
+          ${this.escapeHtml(step.tls.protocol || '')} ${this.escapeHtml(step.tls.cipher || '')}${step.tls.alpnProtocol ? ` &middot; ALPN ${this.escapeHtml(step.tls.alpnProtocol)}` : ''}
+          ${chain}
+        </div>`;
+    };
+
+    container.innerHTML = `
+      <h4>Test Report</h4>
+      ${report.steps
+        .map(
+          step => `
+        <div class="bridge-test-step">
+          <i class="fas ${icons[step.status]} ${step.status}"></i>
+          <strong>${labels[step.step]}</strong>
+          <span>
+            ${step.address || step.topic ? `<code>${this.escapeHtml(step.address || step.topic || '')}</code> ` : ''}${this.escapeHtml(step.message)}
+          </span>
+          <small class="text-muted">${step.durationMs !== undefined ? `${step.durationMs} ms` : ''}</small>
+          ${details(step)}
+        </div>`
+        )
+        .join('')}
+      <small class="text-muted">Finished in ${(report.durationMs / 1000).toFixed(1)} s</small>
+    `;
+  }
+
+  private async loadPublisherRules(): Promise<void> {
+    try {
+      const [rulesResponse, statusResponse] = await Promise.all([
+        fetch(`${this.baseUrl}/publisher/rules`),
+        fetch(`${this.baseUrl}/publisher/status`),
+      ]);
+      if (!rulesResponse.ok || !statusResponse.ok) {
+        throw new Error('Failed to fetch publisher rules');
+      }
+
+      this.publisherRules = await rulesResponse.json();
+      this.updatePublisherList(await statusResponse.json());
+    } catch (error) {
+      console.error('Failed to load publisher rules:', error);
+      this.publisherRules = [];
+      this.updatePublisherList({ connected: false, rules: [] });
+    }
+  }
+
+  private updatePublisherList(status: PublisherStatus): void {
+    const statusLine = document.getElementById('publisherStatus');
+    if (statusLine) {
+      const enabled = this.publisherRules.some(r => r.enabled);
+      statusLine.innerHTML = status.connected
+        ? '<span class="bridge-status connected"><i class="fas fa-circle"></i> Connected to broker</span>'
+        : `<span class="bridge-status ${enabled ? 'disconnected' : 'disabled'}"><i class="fas fa-circle"></i> ${enabled ? 'Not connected to broker' : 'Idle, no rules enabled'}</span>`;
+    }
+
+    const container = document.getElementById('publisherList');
+    if (!container) return;
+
+    if (this.publisherRules.length === 0) {
+      container.innerHTML = '<p class="text-muted">No publisher rules configured</p>';
+      return;
+    }
+
+    const formats = { value: 'Raw value', json: 'JSON', delta: 'Delta' };
+
+    container.innerHTML = this.publisherRules
+      .map(rule => {
+        const ruleStatus = status.rules.find(s => s.ruleId === rule.id);
+        return `
+      <div class="list-item">
+        <div class="list-item-content">
+          <div class="list-item-title">${this.escapeHtml(rule.name)}</div>
+          <div class="list-item-subtitle">
+            ${this.escapeHtml(rule.path)} &rarr; ${this.escapeHtml(rule.topic)}
+            &middot; ${formats[rule.format]} &middot; QoS ${rule.qos}${rule.retain ? ' &middot; retained' : ''}
+            ${rule.minPeriod ? `&middot; every ${rule.minPeriod} ms at most` : ''}
+            <span class="bridge-status ${rule.enabled ? 'connected' : 'disabled'}">
+              <i class="fas fa-circle"></i>
+              ${rule.enabled ? 'Enabled' : 'Disabled'}
+            </span>
+          </div>
+          ${
+            ruleStatus
+              ? `<div class="list-item-subtitle">
+            ${ruleStatus.published} published${ruleStatus.dropped ? `, ${ruleStatus.dropped} dropped while disconnected` : ''}
+            ${ruleStatus.lastTopic ? `&middot; last ${this.escapeHtml(ruleStatus.lastTopic)}` : ''}
+            ${ruleStatus.lastError ? `&middot; <span class="publisher-error">${this.escapeHtml(ruleStatus.lastError)}</span>` : ''}
+          </div>`
+              : ''
+          }
+        </div>
+        <div class="list-item-actions">
+          <button type="button" class="btn btn-secondary btn-sm" onclick="manager.editPublisherRule('${rule.id}')">
+            <i class="fas fa-edit"></i> Edit
+          </button>
+          <button type="button" class="btn btn-danger btn-sm" onclick="manager.deletePublisherRule('${rule.id}')">
+            <i class="fas fa-trash"></i> Delete
+          </button>
+        </div>
+      </div>
+    `;
+      })
+      .join('');
+  }
+
+  private showPublisherRuleModal(rule?: PublisherRule): void {
+    const modal = document.getElementById('publisherRuleModal');
+    const form = document.getElementById('publisherRuleForm') as HTMLFormElement;
+
+    if (!modal || !form) return;
+
+    form.reset();
+
+    if (rule) {
+      document.getElementById('publisherRuleModalTitle')!.textContent = 'Edit Publisher Rule';
+      form.dataset.ruleId = rule.id;
+
+      (document.getElementById('publisherRuleName') as HTMLInputElement).value = rule.name;
+      (document.getElementById('publisherRulePath') as HTMLInputElement).value = rule.path;
+      (document.getElementById('publisherRuleContext') as HTMLInputElement).value =
+        rule.context || '';
+      (document.getElementById('publisherRuleTopic') as HTMLInputElement).value = rule.topic;
+      (document.getElementById('publisherRuleFormat') as HTMLSelectElement).value = rule.format;
+      (document.getElementById('publisherRuleQos') as HTMLSelectElement).value =
+        rule.qos.toString();
+      (document.getElementById('publisherRuleMinPeriod') as HTMLInputElement).value =
+        rule.minPeriod.toString();
+      (document.getElementById('publisherRuleRetain') as HTMLInputElement).checked = rule.retain;
+      (document.getElementById('publisherRuleEnabled') as HTMLInputElement).checked = rule.enabled;
+    } else {
+      document.getElementById('publisherRuleModalTitle')!.textContent = 'Add Publisher Rule';
+      delete form.dataset.ruleId;
+    }
+
+    modal.classList.add('active');
+  }
+
+  private async savePublisherRule(): Promise<void> {
+    const form = document.getElementById('publisherRuleForm') as HTMLFormElement;
+    if (!form.checkValidity()) {
+      form.reportValidity();
+      return;
+    }
+
+    const value = (id: string): string =>
+      (document.getElementById(id) as HTMLInputElement).value.trim();
+    const checked = (id: string): boolean =>
+      (document.getElementById(id) as HTMLInputElement).checked;
+
+    const ruleId = form.dataset.ruleId;
+    const rule: PublisherRule = {
+      id: ruleId || Date.now().toString(),
+      enabled: checked('publisherRuleEnabled'),
+      name: value('publisherRuleName'),
+      context: value('publisherRuleContext') || undefined,
+      path: value('publisherRulePath'),
+      topic: value('publisherRuleTopic'),
+      format: value('publisherRuleFormat') as PublisherRule['format'],
+      qos: parseInt(value('publisherRuleQos')) as 0 | 1 | 2,
+      retain: checked('publisherRuleRetain'),
+      minPeriod: parseInt(value('publisherRuleMinPeriod')) || 0,
+    };
+
+    this.showLoading(true);
+    try {
+      const url = ruleId
+        ? `${this.baseUrl}/publisher/rules/${encodeURIComponent(ruleId)}`
+        : `${this.baseUrl}/publisher/rules`;
+      const response = await fetch(url, {
+        method: ruleId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save publisher rule');
+      }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'Publisher rule saved successfully');
+      this.closeAllModals();
+      this.loadPublisherRules();
+    } catch (error) {
+      console.error('Failed to save publisher rule:', error);
+      this.showError((error as Error).message || 'Failed to save publisher rule');
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  private async loadIngestionMappings(): Promise<void> {
+    try {
+      const [mappingsResponse, statusResponse] = await Promise.all([
+        fetch(`${this.baseUrl}/ingestion/mappings`),
+        fetch(`${this.baseUrl}/ingestion/status`),
+      ]);
+      if (!mappingsResponse.ok || !statusResponse.ok) {
+        throw new Error('Failed to fetch ingestion mappings');
+      }
+
+      this.ingestionMappings = await mappingsResponse.json();
+      this.updateIngestionList(await statusResponse.json());
+    } catch (error) {
+      console.error('Failed to load ingestion mappings:', error);
+      this.ingestionMappings = [];
+      this.updateIngestionList({ connected: false, mappings: [] });
+    }
+  }
+
+  private updateIngestionList(status: IngestionStatus): void {
+    const statusLine = document.getElementById('ingestionStatus');
+    if (statusLine) {
+      const enabled = this.ingestionMappings.some(m => m.enabled);
+      statusLine.innerHTML = status.connected
+        ? '<span class="bridge-status connected"><i class="fas fa-circle"></i> Connected to broker</span>'
+        : `<span class="bridge-status ${enabled ? 'disconnected' : 'disabled'}"><i class="fas fa-circle"></i> ${enabled ? 'Not connected to broker' : 'Idle, no mappings enabled'}</span>`;
+    }
+
+    const container = document.getElementById('ingestionList');
+    if (!container) return;
+
+    if (this.ingestionMappings.length === 0) {
+      container.innerHTML = '<p class="text-muted">No ingestion mappings configured</p>';
+      return;
+    }
+
+    container.innerHTML = this.ingestionMappings
+      .map(mapping => {
+        const mappingStatus = status.mappings.find(s => s.mappingId === mapping.id);
+        const steps = [
+          mapping.jsonPath ? this.escapeHtml(mapping.jsonPath) : '',
+          mapping.scale !== undefined ? `&times; ${mapping.scale}` : '',
+          mapping.offset !== undefined ? `+ ${mapping.offset}` : '',
+          mapping.unitConversion ? this.escapeHtml(mapping.unitConversion) : '',
+        ].filter(step => step);
+        return `
+      <div class="list-item">
+        <div class="list-item-content">
+          <div class="list-item-title">${this.escapeHtml(mapping.name)}</div>
+          <div class="list-item-subtitle">
+            ${this.escapeHtml(mapping.topic)} &rarr; ${this.escapeHtml(mapping.path)}
+            ${steps.length > 0 ? `&middot; ${steps.join(', ')}` : ''}
+            &middot; source ${this.escapeHtml(mapping.source)}
+            <span class="bridge-status ${mapping.enabled ? 'connected' : 'disabled'}">
+              <i class="fas fa-circle"></i>
+              ${mapping.enabled ? 'Enabled' : 'Disabled'}
+            </span>
+          </div>
+          ${
+            mappingStatus
+              ? `<div class="list-item-subtitle">
+            ${mappingStatus.received} received, ${mappingStatus.emitted} sent to SignalK
+            ${mappingStatus.lastPath ? `&middot; last ${this.escapeHtml(mappingStatus.lastPath)} = ${this.escapeHtml(JSON.stringify(mappingStatus.lastValue))}` : ''}
+            ${mappingStatus.lastError ? `&middot; <span class="publisher-error">${this.escapeHtml(mappingStatus.lastError)}</span>` : ''}
+          </div>`
+              : ''
+          }
+        </div>
+        <div class="list-item-actions">
+          <button type="button" class="btn btn-secondary btn-sm" onclick="manager.editIngestionMapping('${mapping.id}')">
+            <i class="fas fa-edit"></i> Edit
+          </button>
+          <button type="button" class="btn btn-danger btn-sm" onclick="manager.deleteIngestionMapping('${mapping.id}')">
+            <i class="fas fa-trash"></i> Delete
+          </button>
+        </div>
+      </div>
+    `;
+      })
+      .join('');
+  }
+
+  private async loadUnitConversions(): Promise<void> {
+    if (this.unitConversions.length > 0) return;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/ingestion/conversions`);
+      if (!response.ok) throw new Error('Failed to fetch unit conversions');
+
+      this.unitConversions = await response.json();
+      const select = document.getElementById('ingestionMappingUnitConversion');
+      if (select) {
+        select.innerHTML =
+          '<option value="">None</option>' +
+          this.unitConversions
+            .map(c => `<option value="${c.name}">${this.escapeHtml(c.label)}</option>`)
+            .join('');
+      }
+    } catch (error) {
+      console.error('Failed to load unit conversions:', error);
+    }
+  }
+
+  private async showIngestionMappingModal(mapping?: IngestionMapping): Promise<void> {
+    const modal = document.getElementById('ingestionMappingModal');
+    const form = document.getElementById('ingestionMappingForm') as HTMLFormElement;
+
+    if (!modal || !form) return;
+
+    await this.loadUnitConversions();
+    form.reset();
+
+    if (mapping) {
+      document.getElementById('ingestionMappingModalTitle')!.textContent = 'Edit Ingestion Mapping';
+      form.dataset.mappingId = mapping.id;
+
+      (document.getElementById('ingestionMappingName') as HTMLInputElement).value = mapping.name;
+      (document.getElementById('ingestionMappingTopic') as HTMLInputElement).value = mapping.topic;
+      (document.getElementById('ingestionMappingPath') as HTMLInputElement).value = mapping.path;
+      (document.getElementById('ingestionMappingContext') as HTMLInputElement).value =
+        mapping.context || '';
+      (document.getElementById('ingestionMappingJsonPath') as HTMLInputElement).value =
+        mapping.jsonPath || '';
+      (document.getElementById('ingestionMappingScale') as HTMLInputElement).value =
+        mapping.scale?.toString() || '';
+      (document.getElementById('ingestionMappingOffset') as HTMLInputElement).value =
+        mapping.offset?.toString() || '';
+      (document.getElementById('ingestionMappingUnitConversion') as HTMLSelectElement).value =
+        mapping.unitConversion || '';
+      (document.getElementById('ingestionMappingSource') as HTMLInputElement).value =
+        mapping.source;
+      (document.getElementById('ingestionMappingEnabled') as HTMLInputElement).checked =
+        mapping.enabled;
+    } else {
+      document.getElementById('ingestionMappingModalTitle')!.textContent = 'Add Ingestion Mapping';
+      delete form.dataset.mappingId;
+    }
+
+    modal.classList.add('active');
+  }
+
+  private async saveIngestionMapping(): Promise<void> {
+    const form = document.getElementById('ingestionMappingForm') as HTMLFormElement;
+    if (!form.checkValidity()) {
+      form.reportValidity();
+      return;
+    }
+
+    const value = (id: string): string =>
+      (document.getElementById(id) as HTMLInputElement).value.trim();
+    const number = (id: string): number | undefined =>
+      value(id) === '' ? undefined : parseFloat(value(id));
+
+    const mappingId = form.dataset.mappingId;
+    const mapping: IngestionMapping = {
+      id: mappingId || Date.now().toString(),
+      enabled: (document.getElementById('ingestionMappingEnabled') as HTMLInputElement).checked,
+      name: value('ingestionMappingName'),
+      topic: value('ingestionMappingTopic'),
+      context: value('ingestionMappingContext') || undefined,
+      path: value('ingestionMappingPath'),
+      jsonPath: value('ingestionMappingJsonPath') || undefined,
+      scale: number('ingestionMappingScale'),
+      offset: number('ingestionMappingOffset'),
+      unitConversion: value('ingestionMappingUnitConversion') || undefined,
+      source: value('ingestionMappingSource'),
+    };
+
+    this.showLoading(true);
+    try {
+      const url = mappingId
+        ? `${this.baseUrl}/ingestion/mappings/${encodeURIComponent(mappingId)}`
+        : `${this.baseUrl}/ingestion/mappings`;
+      const response = await fetch(url, {
+        method: mappingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mapping),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save ingestion mapping');
+      }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'Ingestion mapping saved successfully');
+      this.closeAllModals();
+      this.loadIngestionMappings();
+    } catch (error) {
+      console.error('Failed to save ingestion mapping:', error);
+      this.showError((error as Error).message || 'Failed to save ingestion mapping');
     } finally {
       this.showLoading(false);
     }
@@ -765,6 +2217,16 @@ class MosquittoManager {
 
       const isEditMode = document.getElementById('userModalTitle')!.textContent === 'Edit User';
 
+      const confirmed = await this.confirmWithPreview(
+        isEditMode ? 'Update User' : 'Add User',
+        'Review the changes before they are applied to the broker.',
+        'Save User',
+        isEditMode ? `${this.baseUrl}/users/${username}` : `${this.baseUrl}/users`,
+        isEditMode ? 'PUT' : 'POST',
+        userConfig
+      );
+      if (!confirmed) return;
+
       let response;
       if (isEditMode) {
         response = await fetch(`${this.baseUrl}/users/${username}`, {
@@ -781,8 +2243,7 @@ class MosquittoManager {
       }
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to save user');
+        throw await this.readApplyError(response, 'Failed to save user');
       }
 
       const result = await response.json();
@@ -881,6 +2342,16 @@ class MosquittoManager {
         aclConfig.clientid = clientid;
       }
 
+      const confirmed = await this.confirmWithPreview(
+        'Add ACL Rule',
+        'Review the changes before they are applied to the broker.',
+        'Save Rule',
+        `${this.baseUrl}/acls`,
+        'POST',
+        aclConfig
+      );
+      if (!confirmed) return;
+
       const response = await fetch(`${this.baseUrl}/acls`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -888,8 +2359,7 @@ class MosquittoManager {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to save ACL rule');
+        throw await this.readApplyError(response, 'Failed to save ACL rule');
       }
 
       const result = await response.json();
@@ -914,6 +2384,7 @@ class MosquittoManager {
       this.updateElement('messageRate', monitoring.messageRate);
       this.updateElement('dataRate', monitoring.dataRate);
       this.updateElement('monitorStatus', monitoring.monitorStatus);
+      this.updateSysMetrics(monitoring.metrics);
     } catch (error) {
       console.error('Failed to load monitoring data:', error);
       this.updateElement('connectionRate', '0');
@@ -923,6 +2394,319 @@ class MosquittoManager {
     }
   }
 
+  private async loadHistory(): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/history`);
+      if (!response.ok) throw new Error('Failed to fetch history');
+
+      const revisions: ConfigRevision[] = await response.json();
+      this.updateHistoryList(revisions);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      this.updateHistoryList([]);
+    }
+  }
+
+  private updateHistoryList(revisions: ConfigRevision[]): void {
+    const container = document.getElementById('historyList');
+    if (!container) return;
+
+    if (revisions.length === 0) {
+      container.innerHTML = '<p class="text-muted">No revisions recorded</p>';
+      return;
+    }
+
+    // Newest first; each revision is compared with the one recorded before it
+    const latestId = revisions[revisions.length - 1].id;
+    container.innerHTML = revisions
+      .map((revision, index) => ({ revision, previous: revisions[index - 1] }))
+      .reverse()
+      .map(
+        ({ revision, previous }) => `
+      <div class="list-item">
+        <div class="list-item-content">
+          <div class="list-item-title">${this.escapeHtml(revision.route)}</div>
+          <div class="list-item-subtitle">
+            ${new Date(revision.timestamp).toLocaleString()}
+            ${revision.user ? ` - ${this.escapeHtml(revision.user)}` : ''}
+            ${revision.id === latestId ? '<span class="bridge-status connected">Live</span>' : ''}
+          </div>
+        </div>
+        <div class="list-item-actions">
+          ${
+            previous
+              ? `<button class="btn btn-secondary btn-sm" onclick="manager.showRevisionDiff('${previous.id}', '${revision.id}')">
+            <i class="fas fa-code-compare"></i> Changes
+          </button>`
+              : ''
+          }
+          ${
+            revision.id !== latestId
+              ? `<button class="btn btn-warning btn-sm" onclick="manager.rollbackToRevision('${revision.id}')">
+            <i class="fas fa-undo"></i> Roll Back
+          </button>`
+              : ''
+          }
+        </div>
+      </div>
+    `
+      )
+      .join('');
+  }
+
+  private renderDiff(diff: string): string {
+    if (!diff) {
+      return '<p class="text-muted">No changes</p>';
+    }
+
+    const lines = diff
+      .split('\n')
+      .map(line => {
+        const escaped = this.escapeHtml(line);
+        if (line.startsWith('@@')) return `<span class="diff-hunk">${escaped}</span>`;
+        if (line.startsWith('+')) return `<span class="diff-add">${escaped}</span>`;
+        if (line.startsWith('-')) return `<span class="diff-remove">${escaped}</span>`;
+        return escaped;
+      })
+      .join('\n');
+
+    return `<div class="diff-view">${lines}</div>`;
+  }
+
+  private showDiffModal(title: string, sections: { heading: string; diff: string }[]): void {
+    const modal = document.getElementById('diffModal');
+    const content = document.getElementById('diffContent');
+    if (!modal || !content) return;
+
+    this.updateElement('diffModalTitle', title);
+    content.innerHTML = sections
+      .map(
+        section => `
+      <div class="diff-section">
+        <h4>${section.heading}</h4>
+        ${this.renderDiff(section.diff)}
+      </div>
+    `
+      )
+      .join('');
+
+    modal.classList.add('active');
+  }
+
+  private getLogFilterParams(): URLSearchParams {
+    const params = new URLSearchParams();
+    const level = (document.getElementById('logLevelFilter') as HTMLSelectElement)?.value;
+    const search = (document.getElementById('logSearch') as HTMLInputElement)?.value.trim();
+    if (level) params.set('level', level);
+    if (search) params.set('search', search);
+    return params;
+  }
+
+  private async loadLogs(): Promise<void> {
+    this.stopLogStream();
+    try {
+      const params = this.getLogFilterParams();
+      params.set('limit', '200');
+      const response = await fetch(`${this.baseUrl}/logs?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch logs');
+
+      const page: { entries: LogEntry[]; hasMore: boolean } = await response.json();
+      this.logEntries = page.entries;
+      this.renderLogs(true);
+      this.updateLoadOlderButton(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load logs:', error);
+      this.logEntries = [];
+      this.renderLogs(true);
+    }
+
+    if ((document.getElementById('logFollow') as HTMLInputElement)?.checked) {
+      this.startLogStream();
+    }
+  }
+
+  private async loadOlderLogs(): Promise<void> {
+    if (this.logEntries.length === 0) return;
+
+    try {
+      const params = this.getLogFilterParams();
+      params.set('limit', '200');
+      params.set('before', this.logEntries[0].id.toString());
+      const response = await fetch(`${this.baseUrl}/logs?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch logs');
+
+      const page: { entries: LogEntry[]; hasMore: boolean } = await response.json();
+      const view = document.getElementById('logView');
+      const previousHeight = view?.scrollHeight || 0;
+
+      this.logEntries = [...page.entries, ...this.logEntries];
+      this.renderLogs(false);
+      this.updateLoadOlderButton(page.hasMore);
+
+      // Keep the lines that were on screen in place
+      if (view) {
+        view.scrollTop += view.scrollHeight - previousHeight;
+      }
+    } catch (error) {
+      console.error('Failed to load older logs:', error);
+      this.showError('Failed to load older log entries');
+    }
+  }
+
+  private startLogStream(): void {
+    this.stopLogStream();
+
+    const params = this.getLogFilterParams();
+    const lastEntry = this.logEntries[this.logEntries.length - 1];
+    if (lastEntry) {
+      params.set('after', lastEntry.id.toString());
+    }
+
+    this.logStream = new EventSource(`${this.baseUrl}/logs/stream?${params}`);
+    this.logStream.addEventListener('log', event => {
+      const entry: LogEntry = JSON.parse((event as MessageEvent).data);
+      const last = this.logEntries[this.logEntries.length - 1];
+      if (last && entry.id <= last.id) return;
+
+      this.logEntries.push(entry);
+      if (this.logEntries.length > this.maxLogEntries) {
+        this.logEntries.splice(0, this.logEntries.length - this.maxLogEntries);
+        this.renderLogs(false);
+      } else {
+        this.appendLogLine(entry);
+      }
+    });
+  }
+
+  private stopLogStream(): void {
+    if (this.logStream) {
+      this.logStream.close();
+      this.logStream = null;
+    }
+  }
+
+  private formatLogLine(entry: LogEntry): string {
+    return `<div class="log-line"><span class="log-time">${new Date(entry.timestamp).toLocaleString()}</span><span class="log-level ${entry.level}">${entry.level}</span>${this.escapeHtml(entry.message)}</div>`;
+  }
+
+  private renderLogs(scrollToEnd: boolean): void {
+    const view = document.getElementById('logView');
+    if (!view) return;
+
+    view.innerHTML =
+      this.logEntries.length > 0
+        ? this.logEntries.map(entry => this.formatLogLine(entry)).join('')
+        : '<p class="text-muted">No log entries</p>';
+
+    if (scrollToEnd) {
+      view.scrollTop = view.scrollHeight;
+    }
+  }
+
+  private appendLogLine(entry: LogEntry): void {
+    const view = document.getElementById('logView');
+    if (!view) return;
+
+    // Only follow the tail when the user has not scrolled up to read something
+    const atBottom = view.scrollHeight - view.scrollTop - view.clientHeight < 40;
+    if (this.logEntries.length === 1) {
+      view.innerHTML = '';
+    }
+    view.insertAdjacentHTML('beforeend', this.formatLogLine(entry));
+    if (atBottom) {
+      view.scrollTop = view.scrollHeight;
+    }
+  }
+
+  private updateLoadOlderButton(hasMore: boolean): void {
+    const button = document.getElementById('loadOlderLogsBtn') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = !hasMore;
+    }
+  }
+
+  private async loadMetricsHistory(): Promise<void> {
+    const metric = (document.getElementById('metricsHistoryMetric') as HTMLSelectElement)?.value;
+    const hours = parseInt(
+      (document.getElementById('metricsHistoryRange') as HTMLSelectElement)?.value || '24',
+      10
+    );
+    if (!metric) return;
+
+    try {
+      const from = Date.now() - hours * 3600 * 1000;
+      const response = await fetch(
+        `${this.baseUrl}/metrics/history?metric=${encodeURIComponent(metric)}&from=${from}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch metrics history');
+
+      this.renderMetricsChart(await response.json());
+    } catch (error) {
+      console.error('Failed to load metrics history:', error);
+      this.renderMetricsChart(null);
+    }
+  }
+
+  // Plain SVG line chart; gaps longer than two steps (broker down) break the line
+  private renderMetricsChart(history: MetricsHistory | null): void {
+    const container = document.getElementById('metricsChart');
+    if (!container) return;
+
+    if (!history || history.points.length === 0) {
+      container.innerHTML = '<p class="text-muted">No history recorded yet</p>';
+      return;
+    }
+
+    const width = 800;
+    const height = 240;
+    const pad = { left: 70, right: 10, top: 10, bottom: 30 };
+    const times = history.points.map(p => Date.parse(p.timestamp));
+    const values = history.points.map(p => p.value);
+    const minTime = times[0];
+    const maxTime = Math.max(times[times.length - 1], minTime + 1);
+    const maxValue = Math.max(...values, 1);
+
+    const x = (t: number): number =>
+      pad.left + ((t - minTime) / (maxTime - minTime)) * (width - pad.left - pad.right);
+    const y = (v: number): number =>
+      height - pad.bottom - (v / maxValue) * (height - pad.top - pad.bottom);
+    const isBytes = history.unit.startsWith('bytes');
+    const label = (v: number): string =>
+      isBytes ? this.formatBytes(Math.round(v)) : `${+v.toFixed(1)}`;
+
+    const segments: string[] = [];
+    let current: string[] = [];
+    history.points.forEach((point, index) => {
+      if (index > 0 && times[index] - times[index - 1] > history.step * 2000) {
+        segments.push(current.join(' '));
+        current = [];
+      }
+      current.push(`${x(times[index]).toFixed(1)},${y(point.value).toFixed(1)}`);
+    });
+    segments.push(current.join(' '));
+
+    const gridLines = [0, 0.5, 1]
+      .map(fraction => {
+        const value = maxValue * fraction;
+        return `
+          <line x1="${pad.left}" x2="${width - pad.right}" y1="${y(value)}" y2="${y(value)}" class="chart-grid" />
+          <text x="${pad.left - 6}" y="${y(value) + 4}" text-anchor="end">${label(value)}</text>`;
+      })
+      .join('');
+
+    container.innerHTML = `
+      <svg viewBox="0 0 ${width} ${height}" role="img">
+        ${gridLines}
+        ${segments
+          .filter(points => points.includes(' '))
+          .map(points => `<polyline points="${points}" class="chart-line" />`)
+          .join('')}
+        <text x="${pad.left}" y="${height - 8}">${new Date(minTime).toLocaleString()}</text>
+        <text x="${width - pad.right}" y="${height - 8}" text-anchor="end">${new Date(maxTime).toLocaleString()}</text>
+      </svg>
+      <small class="chart-caption">${this.escapeHtml(history.unit)}, averaged over ${this.formatUptime(history.step)} steps; latest ${label(values[values.length - 1])}</small>`;
+  }
+
   private startAutoRefresh(): void {
     this.stopAutoRefresh();
     this.autoRefreshInterval = window.setInterval(() => {
@@ -941,9 +2725,91 @@ class MosquittoManager {
     await this.loadStatus();
     if (this.currentTab === 'monitoring') {
       this.loadMonitoringData();
+    } else if (this.currentTab === 'publisher') {
+      this.loadPublisherRules();
+      this.loadIngestionMappings();
     }
   }
 
+  // Errors from routes that apply changes to the broker; a rolled back change leaves the
+  // previous configuration live, so the views are reloaded to show it again
+  private async readApplyError(response: Response, fallback: string): Promise<Error> {
+    const error = await response.json();
+    if (error.rolledBack) {
+      this.loadInitialData();
+    }
+    return new Error(error.error || fallback);
+  }
+
+  // Asks the route what the change would do without applying it and shows the result
+  // for confirmation; an invalid change is reported as an error instead
+  private async confirmWithPreview(
+    title: string,
+    message: string,
+    confirmText: string,
+    url: string,
+    method: string,
+    body?: unknown
+  ): Promise<boolean> {
+    const response = await fetch(`${url}?dryRun=true`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw await this.readApplyError(response, 'Failed to preview change');
+    }
+
+    const preview: ConfigPreview = await response.json();
+    if (!preview.valid) {
+      throw new Error(preview.errors.join('; '));
+    }
+
+    const sections = [
+      { heading: 'mosquitto.conf', diff: preview.diff.config },
+      { heading: 'Password file', diff: preview.diff.passwd },
+      { heading: 'ACL file', diff: preview.diff.acl },
+    ].filter(section => section.diff);
+
+    const applyNote =
+      preview.apply.method === 'reload'
+        ? `<div class="preview-apply reload"><i class="fas fa-sync-alt"></i> Broker will reload without dropping clients</div>`
+        : `<div class="preview-apply restart"><i class="fas fa-redo"></i> Broker will restart: ${this.escapeHtml(preview.apply.reason)}</div>`;
+
+    const warnings = preview.warnings.length
+      ? `<div class="preview-warnings">${preview.warnings
+          .map(
+            warning =>
+              `<p><i class="fas fa-exclamation-triangle"></i> ${this.escapeHtml(warning)}</p>`
+          )
+          .join('')}</div>`
+      : '';
+
+    const details = `
+      ${applyNote}
+      ${warnings}
+      ${
+        sections.length > 0
+          ? sections
+              .map(
+                section => `
+        <div class="diff-section">
+          <h4>${section.heading}</h4>
+          ${this.renderDiff(section.diff)}
+        </div>
+      `
+              )
+              .join('')
+          : '<p class="text-muted">No generated files change</p>'
+      }
+    `;
+
+    this.showLoading(false);
+    const confirmed = await this.showConfirmDialog(title, message, confirmText, 'Cancel', details);
+    this.showLoading(confirmed);
+    return confirmed;
+  }
+
   private closeAllModals(): void {
     document.querySelectorAll('.modal').forEach(modal => {
       modal.classList.remove('active');
@@ -1044,7 +2910,8 @@ class MosquittoManager {
     title: string,
     message: string,
     confirmText: string = 'Confirm',
-    cancelText: string = 'Cancel'
+    cancelText: string = 'Cancel',
+    details: string = ''
   ): Promise<boolean> {
     return new Promise(resolve => {
       // Create overlay
@@ -1053,13 +2920,14 @@ class MosquittoManager {
 
       // Create dialog
       const dialog = document.createElement('div');
-      dialog.className = 'confirm-dialog';
+      dialog.className = details ? 'confirm-dialog confirm-dialog-wide' : 'confirm-dialog';
       dialog.innerHTML = `
         <div class="confirm-header">
           <h3>${title}</h3>
         </div>
         <div class="confirm-body">
           <p>${message}</p>
+          ${details}
         </div>
         <div class="confirm-actions">
           <button class="btn btn-secondary confirm-cancel">${cancelText}</button>
@@ -1110,6 +2978,15 @@ class MosquittoManager {
     }
   }
 
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   private formatUptime(seconds: number): string {
     const days = Math.floor(seconds / 86400);
     const hours = Math.floor((seconds % 86400) / 3600);
@@ -1136,7 +3013,10 @@ class MosquittoManager {
 
   // Public methods for global access
   public async testBridgeConnection(bridgeId: string): Promise<void> {
-    this.showSuccess(`Testing bridge ${bridgeId}...`);
+    await this.editBridge(bridgeId);
+    if (document.getElementById('bridgeModal')?.classList.contains('active')) {
+      await this.testBridge();
+    }
   }
 
   public async editBridge(bridgeId: string): Promise<void> {
@@ -1159,34 +3039,47 @@ class MosquittoManager {
     }
   }
 
-  public async deleteBridge(bridgeId: string): Promise<void> {
-    const confirmed = await this.showConfirmDialog(
-      'Delete Bridge',
-      'Are you sure you want to delete this bridge? This action cannot be undone.',
-      'Delete Bridge'
-    );
+  public editListener(index: number): void {
+    const listener = this.listeners[index];
+    if (listener) {
+      this.showListenerModal(listener, index);
+    }
+  }
 
-    if (confirmed) {
-      this.showLoading(true);
-      try {
-        const response = await fetch(`${this.baseUrl}/bridges/${bridgeId}`, {
-          method: 'DELETE',
-        });
+  public removeListener(index: number): void {
+    this.listeners.splice(index, 1);
+    this.updateListenerList();
+    this.showInfo('Listener removed. Save the configuration to apply it.');
+  }
 
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Failed to delete bridge');
-        }
+  public async deleteBridge(bridgeId: string): Promise<void> {
+    this.showLoading(true);
+    try {
+      const confirmed = await this.confirmWithPreview(
+        'Delete Bridge',
+        'Are you sure you want to delete this bridge? This action cannot be undone.',
+        'Delete Bridge',
+        `${this.baseUrl}/bridges/${bridgeId}`,
+        'DELETE'
+      );
+      if (!confirmed) return;
+
+      const response = await fetch(`${this.baseUrl}/bridges/${bridgeId}`, {
+        method: 'DELETE',
+      });
 
-        const result = await response.json();
-        this.showSuccess(result.message || 'Bridge deleted successfully');
-        this.loadBridges();
-      } catch (error) {
-        console.error('Failed to delete bridge:', error);
-        this.showError((error as Error).message || 'Failed to delete bridge');
-      } finally {
-        this.showLoading(false);
+      if (!response.ok) {
+        throw await this.readApplyError(response, 'Failed to delete bridge');
       }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'Bridge deleted successfully');
+      this.loadBridges();
+    } catch (error) {
+      console.error('Failed to delete bridge:', error);
+      this.showError((error as Error).message || 'Failed to delete bridge');
+    } finally {
+      this.showLoading(false);
     }
   }
 
@@ -1211,65 +3104,193 @@ class MosquittoManager {
   }
 
   public async deleteUser(username: string): Promise<void> {
+    this.showLoading(true);
+    try {
+      const confirmed = await this.confirmWithPreview(
+        'Delete User',
+        `Are you sure you want to delete user '${username}'? This action cannot be undone.`,
+        'Delete User',
+        `${this.baseUrl}/users/${username}`,
+        'DELETE'
+      );
+      if (!confirmed) return;
+
+      const response = await fetch(`${this.baseUrl}/users/${username}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw await this.readApplyError(response, 'Failed to delete user');
+      }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'User deleted successfully');
+      this.loadUsers();
+    } catch (error) {
+      console.error('Failed to delete user:', error);
+      this.showError((error as Error).message || 'Failed to delete user');
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  public editPublisherRule(ruleId: string): void {
+    const rule = this.publisherRules.find(r => r.id === ruleId);
+    if (rule) {
+      this.showPublisherRuleModal(rule);
+    }
+  }
+
+  public async deletePublisherRule(ruleId: string): Promise<void> {
+    const rule = this.publisherRules.find(r => r.id === ruleId);
     const confirmed = await this.showConfirmDialog(
-      'Delete User',
-      `Are you sure you want to delete user '${username}'? This action cannot be undone.`,
-      'Delete User'
+      'Delete Publisher Rule',
+      `Stop publishing '${this.escapeHtml(rule?.name || ruleId)}' and delete the rule?`,
+      'Delete Rule'
     );
+    if (!confirmed) return;
 
-    if (confirmed) {
-      this.showLoading(true);
-      try {
-        const response = await fetch(`${this.baseUrl}/users/${username}`, {
-          method: 'DELETE',
-        });
+    this.showLoading(true);
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/publisher/rules/${encodeURIComponent(ruleId)}`,
+        { method: 'DELETE' }
+      );
 
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Failed to delete user');
-        }
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete publisher rule');
+      }
 
-        const result = await response.json();
-        this.showSuccess(result.message || 'User deleted successfully');
-        this.loadUsers();
-      } catch (error) {
-        console.error('Failed to delete user:', error);
-        this.showError((error as Error).message || 'Failed to delete user');
-      } finally {
-        this.showLoading(false);
+      const result = await response.json();
+      this.showSuccess(result.message || 'Publisher rule deleted successfully');
+      this.loadPublisherRules();
+    } catch (error) {
+      console.error('Failed to delete publisher rule:', error);
+      this.showError((error as Error).message || 'Failed to delete publisher rule');
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  public editIngestionMapping(mappingId: string): void {
+    const mapping = this.ingestionMappings.find(m => m.id === mappingId);
+    if (mapping) {
+      this.showIngestionMappingModal(mapping);
+    }
+  }
+
+  public async deleteIngestionMapping(mappingId: string): Promise<void> {
+    const mapping = this.ingestionMappings.find(m => m.id === mappingId);
+    const confirmed = await this.showConfirmDialog(
+      'Delete Ingestion Mapping',
+      `Stop ingesting '${this.escapeHtml(mapping?.name || mappingId)}' and delete the mapping?`,
+      'Delete Mapping'
+    );
+    if (!confirmed) return;
+
+    this.showLoading(true);
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/ingestion/mappings/${encodeURIComponent(mappingId)}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete ingestion mapping');
       }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'Ingestion mapping deleted successfully');
+      this.loadIngestionMappings();
+    } catch (error) {
+      console.error('Failed to delete ingestion mapping:', error);
+      this.showError((error as Error).message || 'Failed to delete ingestion mapping');
+    } finally {
+      this.showLoading(false);
     }
   }
 
   public async deleteAcl(aclData: string): Promise<void> {
+    this.showLoading(true);
+    try {
+      const acl = JSON.parse(decodeURIComponent(aclData)) as AclConfig;
+
+      const confirmed = await this.confirmWithPreview(
+        'Delete ACL Rule',
+        'Are you sure you want to delete this ACL rule? This action cannot be undone.',
+        'Delete Rule',
+        `${this.baseUrl}/acls`,
+        'DELETE',
+        acl
+      );
+      if (!confirmed) return;
+
+      const response = await fetch(`${this.baseUrl}/acls`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(acl),
+      });
+
+      if (!response.ok) {
+        throw await this.readApplyError(response, 'Failed to delete ACL rule');
+      }
+
+      const result = await response.json();
+      this.showSuccess(result.message || 'ACL rule deleted successfully');
+      this.loadAcls();
+    } catch (error) {
+      console.error('Failed to delete ACL rule:', error);
+      this.showError((error as Error).message || 'Failed to delete ACL rule');
+    } finally {
+      this.showLoading(false);
+    }
+  }
+
+  public async showRevisionDiff(fromId: string, toId: string): Promise<void> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/history/diff?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch revision diff');
+
+      const diff: ConfigRevisionDiff = await response.json();
+      this.showDiffModal('Revision Changes', [
+        { heading: 'Configuration model', diff: diff.model },
+        { heading: 'Generated mosquitto.conf', diff: diff.generatedConfig },
+      ]);
+    } catch (error) {
+      console.error('Failed to load revision diff:', error);
+      this.showError('Failed to load revision diff');
+    }
+  }
+
+  public async rollbackToRevision(revisionId: string): Promise<void> {
     const confirmed = await this.showConfirmDialog(
-      'Delete ACL Rule',
-      'Are you sure you want to delete this ACL rule? This action cannot be undone.',
-      'Delete Rule'
+      'Roll Back Configuration',
+      'Restore bridges, users, ACLs and settings from this revision and apply them to the broker?',
+      'Roll Back'
     );
 
     if (confirmed) {
       this.showLoading(true);
       try {
-        const acl = JSON.parse(decodeURIComponent(aclData)) as AclConfig;
-
-        const response = await fetch(`${this.baseUrl}/acls`, {
-          method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(acl),
+        const response = await fetch(`${this.baseUrl}/history/${revisionId}/rollback`, {
+          method: 'POST',
         });
 
         if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || 'Failed to delete ACL rule');
+          throw await this.readApplyError(response, 'Failed to roll back configuration');
         }
 
         const result = await response.json();
-        this.showSuccess(result.message || 'ACL rule deleted successfully');
-        this.loadAcls();
+        this.showSuccess(result.message || 'Configuration rolled back successfully');
+        this.loadInitialData();
+        this.loadHistory();
       } catch (error) {
-        console.error('Failed to delete ACL rule:', error);
-        this.showError((error as Error).message || 'Failed to delete ACL rule');
+        console.error('Failed to roll back configuration:', error);
+        this.showError((error as Error).message || 'Failed to roll back configuration');
       } finally {
         this.showLoading(false);
       }
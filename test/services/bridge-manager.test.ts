@@ -0,0 +1,41 @@
+import { PluginServerApp } from '@signalk/server-api';
+import { BridgeManagerImpl } from '../../src/services/bridge-manager';
+import { BridgeConfig, MosquittoCompleteConfig, SecretStore } from '../../src/types/interfaces';
+
+describe('BridgeManagerImpl.replaceBridges', () => {
+  it('refuses a restored password containing a line break before storing anything', async () => {
+    const secretStore: jest.Mocked<SecretStore> = {
+      get: jest.fn(),
+      set: jest.fn(),
+      delete: jest.fn(),
+      list: jest.fn().mockResolvedValue([]),
+      exportEncrypted: jest.fn(),
+      encrypt: jest.fn(),
+      decrypt: jest.fn(),
+    };
+    const manager = new BridgeManagerImpl(
+      {} as PluginServerApp,
+      { bridges: [] } as unknown as MosquittoCompleteConfig,
+      secretStore
+    );
+    const bridge: BridgeConfig = {
+      id: 'boat',
+      enabled: true,
+      name: 'Boat',
+      remoteHost: 'broker.example.com',
+      remotePort: 1883,
+      remotePassword: 'secret\nallow_anonymous true',
+      topics: [{ pattern: '#', direction: 'out', qos: 0 }],
+      tlsEnabled: false,
+      keepalive: 60,
+      cleanSession: true,
+      tryPrivate: true,
+    };
+
+    await expect(manager.replaceBridges([bridge])).rejects.toThrow(
+      "Bridge 'boat': remote password must not contain control characters"
+    );
+    expect(secretStore.set).not.toHaveBeenCalled();
+    expect(secretStore.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { PluginServerApp } from '@signalk/server-api';
+import { MosquittoManagerImpl } from '../../src/services/mosquitto-manager';
+import { MosquittoCompleteConfig } from '../../src/types/interfaces';
+
+const baseConfig: MosquittoCompleteConfig = {
+  enabled: true,
+  brokerPort: 1883,
+  brokerHost: '0.0.0.0',
+  enableSecurity: false,
+  autoStart: true,
+  enableWebsockets: false,
+  websocketPort: 9001,
+  maxConnections: 1000,
+  allowAnonymous: true,
+  enableLogging: true,
+  logLevel: 'information',
+  persistence: false,
+  persistenceLocation: '/tmp/mosquitto.db',
+  tlsEnabled: false,
+  tlsCertPath: '',
+  tlsKeyPath: '',
+  tlsCaPath: '',
+  listeners: [],
+  bridges: [],
+  users: [],
+  acls: [],
+};
+
+const logTypes = async (config: MosquittoCompleteConfig): Promise<string[]> => {
+  const content = await new MosquittoManagerImpl({} as PluginServerApp, config).generateConfig(
+    config
+  );
+  return content
+    .split('\n')
+    .filter(line => line.startsWith('log_type '))
+    .map(line => line.slice('log_type '.length));
+};
+
+describe('MosquittoManagerImpl.generateConfig', () => {
+  it('writes a log_type line for each level up to the chosen one', async () => {
+    expect(await logTypes(baseConfig)).toEqual(['error', 'warning', 'notice', 'information']);
+    expect(await logTypes({ ...baseConfig, logLevel: 'debug' })).toEqual([
+      'error',
+      'warning',
+      'notice',
+      'information',
+      'debug',
+    ]);
+  });
+
+  it('always logs notice level, which events are parsed from', async () => {
+    expect(await logTypes({ ...baseConfig, logLevel: 'error' })).toEqual(['error', 'notice']);
+    expect(await logTypes({ ...baseConfig, logLevel: 'warning' })).toEqual([
+      'error',
+      'warning',
+      'notice',
+    ]);
+  });
+
+  it('writes no log_type when logging is disabled', async () => {
+    expect(await logTypes({ ...baseConfig, enableLogging: false })).toEqual([]);
+  });
+
+  it('refuses to write a bridge password containing a line break', async () => {
+    const config: MosquittoCompleteConfig = {
+      ...baseConfig,
+      bridges: [
+        {
+          id: 'boat',
+          enabled: true,
+          name: 'Boat',
+          remoteHost: 'broker.example.com',
+          remotePort: 1883,
+          remoteUsername: 'skipper',
+          remotePassword: 'secret\nallow_anonymous true',
+          topics: [{ pattern: '#', direction: 'out', qos: 0 }],
+          tlsEnabled: false,
+          keepalive: 60,
+          cleanSession: true,
+          tryPrivate: true,
+        },
+      ],
+    };
+
+    await expect(
+      new MosquittoManagerImpl({} as PluginServerApp, config).generateConfig(config)
+    ).rejects.toThrow("Bridge 'boat': remote password must not contain control characters");
+  });
+});
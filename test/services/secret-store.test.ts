@@ -0,0 +1,90 @@
+import { PluginServerApp } from '@signalk/server-api';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretStoreImpl } from '../../src/services/secret-store';
+
+describe('SecretStoreImpl', () => {
+  const app = {} as PluginServerApp;
+  const originalHome = process.env.HOME;
+  let home: string;
+
+  beforeEach(async () => {
+    // The store keeps its files under $HOME/.signalk
+    home = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-store-'));
+    process.env.HOME = home;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    process.env.HOME = originalHome;
+    jest.restoreAllMocks();
+    await fs.remove(home);
+  });
+
+  const secretsFile = (): string =>
+    path.join(home, '.signalk', 'plugin-config-data', 'signalk-mosquitto', 'secrets.json');
+  const keyFile = (): string =>
+    path.join(home, '.signalk', 'plugin-config-data', 'signalk-mosquitto-keys', 'secrets.key');
+
+  it('round-trips secrets through a new store instance', async () => {
+    await new SecretStoreImpl(app).set('bridges/boat/remotePassword', 'hunter2');
+
+    const store = new SecretStoreImpl(app);
+    expect(await store.get('bridges/boat/remotePassword')).toBe('hunter2');
+    expect(await store.list()).toEqual(['bridges/boat/remotePassword']);
+    expect(await fs.readFile(secretsFile(), 'utf8')).not.toContain('hunter2');
+  });
+
+  it('writes the key and the secrets readable by the owner only', async () => {
+    await new SecretStoreImpl(app).set('name', 'value');
+
+    expect((await fs.stat(keyFile())).mode & 0o777).toBe(0o600);
+    expect((await fs.stat(path.dirname(keyFile()))).mode & 0o777).toBe(0o700);
+    expect((await fs.stat(secretsFile())).mode & 0o777).toBe(0o600);
+  });
+
+  it('deletes secrets and returns undefined for unknown names', async () => {
+    const store = new SecretStoreImpl(app);
+    await store.set('a', '1');
+    await store.delete('a');
+    await store.delete('missing');
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('exports ciphertexts by prefix that decrypt with the same key', async () => {
+    const store = new SecretStoreImpl(app);
+    await store.set('bridges/boat/remotePassword', 'hunter2');
+    await store.set('other/token', 'abc');
+
+    const exported = await store.exportEncrypted('bridges/');
+    expect(Object.keys(exported)).toEqual(['bridges/boat/remotePassword']);
+    expect(await new SecretStoreImpl(app).decrypt(exported['bridges/boat/remotePassword'])).toBe(
+      'hunter2'
+    );
+    expect(await store.decrypt(await store.encrypt('round trip'))).toBe('round trip');
+  });
+
+  it('returns undefined for a secret that no longer decrypts', async () => {
+    const store = new SecretStoreImpl(app);
+    await store.set('name', 'value');
+
+    const file = await fs.readJson(secretsFile());
+    file.secrets.name.tag = Buffer.alloc(16).toString('base64');
+    await fs.writeJson(secretsFile(), file);
+
+    expect(await new SecretStoreImpl(app).get('name')).toBeUndefined();
+  });
+
+  it('refuses a key file that is not a 256-bit key', async () => {
+    await fs.ensureDir(path.dirname(keyFile()));
+    await fs.writeFile(keyFile(), 'abcd');
+
+    await expect(new SecretStoreImpl(app).set('name', 'value')).rejects.toThrow(
+      'is not a 256-bit hex key'
+    );
+  });
+});
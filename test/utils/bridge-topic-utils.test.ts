@@ -0,0 +1,151 @@
+import { BridgeConfig, BridgeTopicConfig } from '../../src/types/interfaces';
+import { BridgeTopicUtils } from '../../src/utils/bridge-topic-utils';
+
+const bridgeWith = (topics: BridgeTopicConfig[]): BridgeConfig => ({
+  id: 'boat',
+  enabled: true,
+  name: 'Boat',
+  remoteHost: 'broker.example.com',
+  remotePort: 1883,
+  topics,
+  tlsEnabled: false,
+  keepalive: 60,
+  cleanSession: true,
+  tryPrivate: true,
+});
+
+describe('BridgeTopicUtils.simulate', () => {
+  const prefixed = bridgeWith([
+    { pattern: '#', direction: 'out', qos: 1, localPrefix: 'vessels/self/', remotePrefix: 'boat/' },
+  ]);
+
+  it('remaps a local topic onto the remote prefix', () => {
+    expect(BridgeTopicUtils.simulate(prefixed, 'local', 'vessels/self/nav/speed')).toEqual({
+      side: 'local',
+      topic: 'vessels/self/nav/speed',
+      forwarded: true,
+      direction: 'out',
+      qos: 1,
+      mappedTopic: 'boat/nav/speed',
+      matches: [{ index: 0, filter: 'vessels/self/#', qos: 1, mappedTopic: 'boat/nav/speed' }],
+      warnings: [],
+    });
+  });
+
+  it('does not forward against the rule direction', () => {
+    const result = BridgeTopicUtils.simulate(prefixed, 'remote', 'boat/nav/speed');
+    expect(result.forwarded).toBe(false);
+    expect(result.direction).toBeUndefined();
+    expect(result.mappedTopic).toBeUndefined();
+    expect(result.matches).toEqual([]);
+  });
+
+  it('does not forward topics outside the prefix', () => {
+    expect(BridgeTopicUtils.simulate(prefixed, 'local', 'vessels/other/nav').forwarded).toBe(false);
+  });
+
+  it('forwards both ways unchanged without prefixes', () => {
+    const bridge = bridgeWith([{ pattern: 'sensors/+', direction: 'both', qos: 0 }]);
+    const result = BridgeTopicUtils.simulate(bridge, 'remote', 'sensors/temp');
+    expect(result.forwarded).toBe(true);
+    expect(result.direction).toBe('in');
+    expect(result.mappedTopic).toBe('sensors/temp');
+  });
+
+  it('takes the mapped topic from the first matching rule that has a prefix', () => {
+    const bridge = bridgeWith([
+      { pattern: 'a/#', direction: 'both', qos: 0 },
+      { pattern: '#', direction: 'out', qos: 2, localPrefix: 'a/', remotePrefix: 'x/' },
+    ]);
+    const result = BridgeTopicUtils.simulate(bridge, 'local', 'a/b');
+    expect(result.qos).toBe(0);
+    expect(result.mappedTopic).toBe('x/b');
+    expect(result.matches.map(match => match.mappedTopic)).toEqual(['a/b', 'x/b']);
+  });
+
+  it('warns when overlapping rules match the same topic', () => {
+    const bridge = bridgeWith([
+      { pattern: 'a/#', direction: 'out', qos: 0 },
+      { pattern: 'a/b', direction: 'out', qos: 1 },
+    ]);
+    const result = BridgeTopicUtils.simulate(bridge, 'local', 'a/b');
+    expect(result.matches.map(match => match.index)).toEqual([0, 1]);
+    expect(result.warnings).toEqual([
+      "Topic 2: never takes effect for outgoing messages; topic 1 ('a/#') already matches everything it does",
+      'The topic matches topics 1, 2; overlapping rules can forward the same message more than once',
+    ]);
+  });
+});
+
+describe('BridgeTopicUtils.getWarnings', () => {
+  it('warns about wildcards in prefixes', () => {
+    const bridge = bridgeWith([{ pattern: '#', direction: 'out', qos: 0, localPrefix: 'a/+/' }]);
+    expect(BridgeTopicUtils.getWarnings(bridge)).toEqual([
+      "Topic 1: the local prefix 'a/+/' contains a wildcard, which mosquitto does not allow in prefixes",
+    ]);
+  });
+
+  it('warns about a prefix without a trailing slash and the filter it produces', () => {
+    const bridge = bridgeWith([{ pattern: '#', direction: 'in', qos: 0, remotePrefix: 'boat' }]);
+    expect(BridgeTopicUtils.getWarnings(bridge)).toEqual([
+      "Topic 1: the remote prefix 'boat' has no trailing slash, so the pattern becomes 'boat#'",
+      "Topic 1: 'boat#' is not a valid topic filter and can never match",
+    ]);
+  });
+
+  it('warns about empty levels', () => {
+    const bridge = bridgeWith([{ pattern: 'a//b', direction: 'out', qos: 0 }]);
+    expect(BridgeTopicUtils.getWarnings(bridge)).toEqual([
+      "Topic 1: 'a//b' has an empty level and only matches topics that have one too",
+    ]);
+  });
+
+  it('does not report a later rule that remaps what an earlier one passes through', () => {
+    const bridge = bridgeWith([
+      { pattern: 'a/#', direction: 'out', qos: 0 },
+      { pattern: '#', direction: 'out', qos: 0, localPrefix: 'a/', remotePrefix: 'x/' },
+    ]);
+    expect(BridgeTopicUtils.getWarnings(bridge)).toEqual([]);
+  });
+});
+
+describe('BridgeTopicUtils.matches', () => {
+  it.each([
+    ['a/+/c', 'a/b/c', true],
+    ['a/#', 'a', true],
+    ['a/#', 'a/b/c', true],
+    ['a/+', 'a', false],
+    ['a/b', 'a/b/c', false],
+    ['#', '$SYS/broker/uptime', false],
+    ['+/broker', '$SYS/broker', false],
+    ['$SYS/#', '$SYS/broker/uptime', true],
+  ])('%s against %s is %s', (filter, topic, expected) => {
+    expect(BridgeTopicUtils.matches(filter, topic)).toBe(expected);
+  });
+});
+
+describe('BridgeTopicUtils.covers', () => {
+  it.each([
+    ['a/#', 'a/+/c', true],
+    ['a/+', 'a/b', true],
+    ['#', '#', true],
+    ['a/+', 'a/#', false],
+    ['+/b', 'a/+', false],
+    ['#', '$SYS/#', false],
+  ])('%s covers %s is %s', (general, specific, expected) => {
+    expect(BridgeTopicUtils.covers(general, specific)).toBe(expected);
+  });
+});
+
+describe('BridgeTopicUtils.isValidFilter', () => {
+  it.each([
+    ['+/+/#', true],
+    ['a/b', true],
+    ['', false],
+    ['a/#/b', false],
+    ['a#', false],
+    ['a/b+', false],
+  ])('%s is %s', (filter, expected) => {
+    expect(BridgeTopicUtils.isValidFilter(filter)).toBe(expected);
+  });
+});
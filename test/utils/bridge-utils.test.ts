@@ -0,0 +1,38 @@
+import { BridgeConfig } from '../../src/types/interfaces';
+import { BridgeUtils } from '../../src/utils/bridge-utils';
+
+const bridge = (id: string, remoteClientId?: string): BridgeConfig => ({
+  id,
+  enabled: true,
+  name: id,
+  remoteHost: 'broker.example.com',
+  remotePort: 1883,
+  topics: [],
+  tlsEnabled: false,
+  keepalive: 60,
+  cleanSession: true,
+  tryPrivate: true,
+  ...(remoteClientId ? { remoteClientId } : {}),
+});
+
+describe('BridgeUtils.resolveConnectionId', () => {
+  const bridges = [bridge('boat'), bridge('cloud', 'vessel-123'), bridge('home.lan')];
+
+  it('maps the default "<hostname>.<connection>" id to the bridge id', () => {
+    expect(BridgeUtils.resolveConnectionId(bridges, 'raspberrypi.boat')).toBe('boat');
+    expect(BridgeUtils.resolveConnectionId(bridges, 'my.host.home.lan')).toBe('home.lan');
+  });
+
+  it('maps a custom remote client id to its bridge', () => {
+    expect(BridgeUtils.resolveConnectionId(bridges, 'vessel-123')).toBe('cloud');
+  });
+
+  it('accepts the bridge id itself', () => {
+    expect(BridgeUtils.resolveConnectionId(bridges, 'boat')).toBe('boat');
+  });
+
+  it('falls back to the part after the last dot for unknown ids', () => {
+    expect(BridgeUtils.resolveConnectionId(bridges, 'raspberrypi.removed')).toBe('removed');
+    expect(BridgeUtils.resolveConnectionId([], 'standalone')).toBe('standalone');
+  });
+});
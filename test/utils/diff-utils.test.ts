@@ -0,0 +1,64 @@
+import { DiffUtils } from '../../src/utils/diff-utils';
+
+describe('DiffUtils.getChangedDirectives', () => {
+  const base = [
+    '# Listener: MQTT',
+    'listener 1883 127.0.0.1',
+    'allow_anonymous true',
+    '',
+    'connection boat',
+    'address 10.0.0.2:1883',
+    'topic vessels/# out 0',
+  ].join('\n');
+
+  it('reports nothing for identical configs', () => {
+    expect(DiffUtils.getChangedDirectives(base, base)).toEqual([]);
+  });
+
+  it('ignores comments, blank lines and indentation', () => {
+    const reformatted = `# Generated\n\n${base.replace('topic', '  topic')}\n\n`;
+    expect(DiffUtils.getChangedDirectives(base, reformatted)).toEqual([]);
+  });
+
+  it('names each directive whose lines changed', () => {
+    const next = base
+      .replace('address 10.0.0.2:1883', 'address 10.0.0.3:1883')
+      .replace('topic vessels/# out 0', 'topic vessels/# both 1');
+    expect(DiffUtils.getChangedDirectives(base, next).sort()).toEqual(['address', 'topic']);
+  });
+
+  it('reports added and removed lines', () => {
+    expect(DiffUtils.getChangedDirectives(base, `${base}\nkeepalive_interval 30`)).toEqual([
+      'keepalive_interval',
+    ]);
+    expect(
+      DiffUtils.getChangedDirectives(base, base.replace('allow_anonymous true\n', ''))
+    ).toEqual(['allow_anonymous']);
+  });
+
+  it('notices a directive repeated a different number of times', () => {
+    const next = `${base}\ntopic vessels/# out 0`;
+    expect(DiffUtils.getChangedDirectives(base, next)).toEqual(['topic']);
+  });
+
+  it('treats reordered lines as a listener change', () => {
+    const reordered = [
+      'connection boat',
+      'address 10.0.0.2:1883',
+      'topic vessels/# out 0',
+      'listener 1883 127.0.0.1',
+      'allow_anonymous true',
+    ].join('\n');
+    expect(DiffUtils.getChangedDirectives(base, reordered)).toEqual(['listener']);
+  });
+
+  it('treats every directive as new when there is no previous config', () => {
+    expect(DiffUtils.getChangedDirectives(null, base).sort()).toEqual([
+      'address',
+      'allow_anonymous',
+      'connection',
+      'listener',
+      'topic',
+    ]);
+  });
+});
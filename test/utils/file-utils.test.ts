@@ -0,0 +1,24 @@
+import { FileUtils } from '../../src/utils/file-utils';
+
+describe('FileUtils.parseCpuTime', () => {
+  it('parses minutes and seconds', () => {
+    expect(FileUtils.parseCpuTime('02:05')).toBe(125);
+  });
+
+  it('parses hours, minutes and seconds', () => {
+    expect(FileUtils.parseCpuTime('01:02:03')).toBe(3723);
+  });
+
+  it('parses a day prefix', () => {
+    expect(FileUtils.parseCpuTime('2-03:04:05')).toBe(2 * 86400 + 3 * 3600 + 4 * 60 + 5);
+  });
+
+  it('keeps fractional seconds', () => {
+    expect(FileUtils.parseCpuTime('0:01.50')).toBeCloseTo(1.5);
+    expect(FileUtils.parseCpuTime('1-00:00:00.25')).toBeCloseTo(86400.25);
+  });
+
+  it('parses zero', () => {
+    expect(FileUtils.parseCpuTime('00:00:00')).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { IngestionUtils } from '../../src/utils/ingestion-utils';
+
+describe('IngestionUtils.compileTopicPattern', () => {
+  it('matches a literal topic exactly', () => {
+    const pattern = IngestionUtils.compileTopicPattern('sensors/engine.room/temp');
+    expect(pattern.test('sensors/engine.room/temp')).toBe(true);
+    expect(pattern.test('sensors/engineXroom/temp')).toBe(false);
+    expect(pattern.test('sensors/engine.room/temp/raw')).toBe(false);
+  });
+
+  it('captures one level for each +', () => {
+    const pattern = IngestionUtils.compileTopicPattern('tanks/+/+/level');
+    expect('tanks/fuel/port/level'.match(pattern)?.slice(1)).toEqual(['fuel', 'port']);
+    expect(pattern.test('tanks/fuel/level')).toBe(false);
+    expect(pattern.test('tanks/fuel/port/aft/level')).toBe(false);
+  });
+
+  it('captures the remaining levels for #, including none', () => {
+    const pattern = IngestionUtils.compileTopicPattern('shellies/#');
+    expect('shellies/relay/0/power'.match(pattern)?.slice(1)).toEqual(['relay/0/power']);
+    expect(pattern.test('shellies')).toBe(true);
+    expect(pattern.test('shelliesX')).toBe(false);
+  });
+
+  it('combines + and # in order of appearance', () => {
+    const pattern = IngestionUtils.compileTopicPattern('zigbee/+/#');
+    expect('zigbee/cabin/temperature/raw'.match(pattern)?.slice(1)).toEqual([
+      'cabin',
+      'temperature/raw',
+    ]);
+  });
+});
+
+describe('IngestionUtils.countWildcards', () => {
+  it('counts + and # levels only', () => {
+    expect(IngestionUtils.countWildcards('a/+/b+/+/#')).toBe(3);
+    expect(IngestionUtils.countWildcards('a/b')).toBe(0);
+  });
+});
+
+describe('IngestionUtils.renderPath', () => {
+  it('substitutes captures by position', () => {
+    expect(IngestionUtils.renderPath('tanks.{1}.{2}.currentLevel', ['fuel', 'port'])).toBe(
+      'tanks.fuel.port.currentLevel'
+    );
+  });
+
+  it('keeps each capture a single path segment', () => {
+    expect(IngestionUtils.renderPath('electrical.{1}.power', ['relay/0.main'])).toBe(
+      'electrical.relay_0_main.power'
+    );
+  });
+
+  it('renders a missing capture as empty', () => {
+    expect(IngestionUtils.renderPath('environment.{3}.temperature', ['a'])).toBe(
+      'environment..temperature'
+    );
+  });
+});
+
+describe('IngestionUtils.extractJsonPath', () => {
+  const document = {
+    tanks: [{ level: 0.5 }, { level: 0.75 }],
+    'battery-1': { voltage: 12.6 },
+    'has space': { on: false },
+    empty: null,
+  };
+
+  it('returns the whole document for $', () => {
+    expect(IngestionUtils.extractJsonPath(document, '$')).toBe(document);
+  });
+
+  it('follows names, indexes and quoted names', () => {
+    expect(IngestionUtils.extractJsonPath(document, '$.tanks[1].level')).toBe(0.75);
+    expect(IngestionUtils.extractJsonPath(document, '$.battery-1.voltage')).toBe(12.6);
+    expect(IngestionUtils.extractJsonPath(document, "$['has space'].on")).toBe(false);
+    expect(IngestionUtils.extractJsonPath(document, '$["battery-1"]["voltage"]')).toBe(12.6);
+  });
+
+  it('returns undefined for paths that are not in the document', () => {
+    expect(IngestionUtils.extractJsonPath(document, '$.tanks[5].level')).toBeUndefined();
+    expect(IngestionUtils.extractJsonPath(document, '$.empty.value')).toBeUndefined();
+    expect(IngestionUtils.extractJsonPath(document, '$.battery-1.voltage.max')).toBeUndefined();
+    expect(IngestionUtils.extractJsonPath('text', '$.length')).toBeUndefined();
+  });
+
+  it('rejects expressions outside the supported subset', () => {
+    expect(() => IngestionUtils.extractJsonPath(document, 'tanks[0]')).toThrow(
+      'JSONPath must start with $'
+    );
+    expect(() => IngestionUtils.extractJsonPath(document, '$.tanks[*].level')).toThrow(
+      "Unsupported JSONPath near '[*].level'"
+    );
+    expect(() => IngestionUtils.extractJsonPath(document, '$..level')).toThrow(
+      'Unsupported JSONPath'
+    );
+  });
+});
+
+describe('IngestionUtils.parsePayload', () => {
+  it('parses JSON payloads', () => {
+    expect(IngestionUtils.parsePayload(' {"temp": 21.5} ')).toEqual({ temp: 21.5 });
+    expect(IngestionUtils.parsePayload('42')).toBe(42);
+    expect(IngestionUtils.parsePayload('true')).toBe(true);
+  });
+
+  it('returns anything else as trimmed text', () => {
+    expect(IngestionUtils.parsePayload(' ON \n')).toBe('ON');
+    expect(IngestionUtils.parsePayload('{broken')).toBe('{broken');
+  });
+});
+
+describe('IngestionUtils.convertUnit', () => {
+  it('converts to SI units', () => {
+    expect(IngestionUtils.convertUnit(25, 'celsius')).toBeCloseTo(298.15);
+    expect(IngestionUtils.convertUnit(50, 'percent')).toBe(0.5);
+    expect(IngestionUtils.convertUnit(180, 'degrees')).toBeCloseTo(Math.PI);
+  });
+
+  it('rejects unknown conversions', () => {
+    expect(() => IngestionUtils.convertUnit(1, 'furlongs')).toThrow(
+      'Unknown unit conversion: furlongs'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import * as mqtt from 'mqtt';
+import * as net from 'net';
+import { MqttUtils } from '../../src/utils/mqtt-utils';
+
+// A port nothing listens on, so every connection attempt fails and mqtt.js keeps reconnecting
+const getClosedPort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+
+describe('MqttUtils.connectToEndpoint', () => {
+  it('calls onMoved when a reconnect finds a different endpoint', async () => {
+    const port = await getClosedPort();
+    let endpoint = { host: '127.0.0.1', port };
+
+    const client = await new Promise<mqtt.MqttClient>(resolve => {
+      const connected = MqttUtils.connectToEndpoint(
+        () => endpoint,
+        { reconnectPeriod: 20, connectTimeout: 1000 },
+        () => resolve(connected)
+      );
+      connected.on('error', () => undefined);
+      connected.once('close', () => {
+        endpoint = { host: '127.0.0.1', port: port + 1 };
+      });
+    });
+    client.end(true);
+  });
+
+  it('keeps reconnecting while the endpoint is unchanged', async () => {
+    const port = await getClosedPort();
+    const onMoved = jest.fn();
+
+    const client = MqttUtils.connectToEndpoint(
+      () => ({ host: '127.0.0.1', port }),
+      { reconnectPeriod: 20, connectTimeout: 1000 },
+      onMoved
+    );
+    client.on('error', () => undefined);
+    await new Promise(resolve => client.once('reconnect', () => resolve(undefined)));
+    client.end(true);
+
+    expect(onMoved).not.toHaveBeenCalled();
+  });
+});
+
+describe('MqttUtils.getUrl', () => {
+  it('builds an mqtt URL', () => {
+    expect(MqttUtils.getUrl({ host: '127.0.0.1', port: 1883 })).toBe('mqtt://127.0.0.1:1883');
+  });
+});
@@ -0,0 +1,92 @@
+import { OpenMetricsUtils } from '../../src/utils/openmetrics-utils';
+
+describe('OpenMetricsUtils.render', () => {
+  it('renders a counter with its unit and the _total suffix', () => {
+    const output = OpenMetricsUtils.render([
+      {
+        name: 'mosquitto_bytes_received',
+        type: 'counter',
+        unit: 'bytes',
+        help: 'Bytes received by the broker',
+        samples: [{ value: 1024 }],
+      },
+    ]);
+
+    expect(output).toBe(
+      [
+        '# TYPE mosquitto_bytes_received counter',
+        '# UNIT mosquitto_bytes_received bytes',
+        '# HELP mosquitto_bytes_received Bytes received by the broker',
+        'mosquitto_bytes_received_total 1024',
+        '# EOF',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders gauge samples under the family name and info samples with _info', () => {
+    const output = OpenMetricsUtils.render([
+      { name: 'mosquitto_clients', type: 'gauge', help: 'Clients', samples: [{ value: 3 }] },
+      {
+        name: 'mosquitto_build',
+        type: 'info',
+        help: 'Build',
+        samples: [{ labels: { version: '2.0.18' }, value: 1 }],
+      },
+    ]);
+
+    expect(output).toContain('\nmosquitto_clients 3\n');
+    expect(output).toContain('\nmosquitto_build_info{version="2.0.18"} 1\n');
+  });
+
+  it('skips families without samples but always ends with # EOF', () => {
+    const output = OpenMetricsUtils.render([
+      { name: 'mosquitto_bridge_up', type: 'gauge', help: 'Bridge state', samples: [] },
+    ]);
+
+    expect(output).toBe('# EOF\n');
+  });
+
+  it('escapes label values and help text', () => {
+    const output = OpenMetricsUtils.render([
+      {
+        name: 'mosquitto_bridge_up',
+        type: 'gauge',
+        help: 'Line one\nline "two" \\ three',
+        samples: [{ labels: { bridge: 'a"b\\c\nd', remote: 'x' }, value: 0 }],
+      },
+    ]);
+
+    expect(output).toContain('# HELP mosquitto_bridge_up Line one\\nline \\"two\\" \\\\ three\n');
+    expect(output).toContain('mosquitto_bridge_up{bridge="a\\"b\\\\c\\nd",remote="x"} 0\n');
+  });
+
+  it('renders non-finite values the way OpenMetrics spells them', () => {
+    const output = OpenMetricsUtils.render([
+      {
+        name: 'mosquitto_value',
+        type: 'gauge',
+        help: 'Value',
+        samples: [
+          { labels: { kind: 'nan' }, value: NaN },
+          { labels: { kind: 'up' }, value: Infinity },
+          { labels: { kind: 'down' }, value: -Infinity },
+          { labels: { kind: 'fraction' }, value: 0.25 },
+        ],
+      },
+    ]);
+
+    expect(output).toContain('mosquitto_value{kind="nan"} NaN\n');
+    expect(output).toContain('mosquitto_value{kind="up"} +Inf\n');
+    expect(output).toContain('mosquitto_value{kind="down"} -Inf\n');
+    expect(output).toContain('mosquitto_value{kind="fraction"} 0.25\n');
+  });
+
+  it('rejects invalid metric names', () => {
+    expect(() =>
+      OpenMetricsUtils.render([
+        { name: 'mosquitto-clients', type: 'gauge', help: 'Clients', samples: [{ value: 1 }] },
+      ])
+    ).toThrow('Invalid metric name: mosquitto-clients');
+  });
+});
@@ -0,0 +1,59 @@
+import { BridgeConfig } from '../../src/types/interfaces';
+import { SecretUtils } from '../../src/utils/secret-utils';
+
+describe('SecretUtils encryption', () => {
+  const key = SecretUtils.generateKey();
+
+  it('round-trips a secret', () => {
+    const secret = SecretUtils.encrypt(key, 'pässword with spaces');
+    expect(secret.data).not.toContain('password');
+    expect(SecretUtils.decrypt(key, secret)).toBe('pässword with spaces');
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    const first = SecretUtils.encrypt(key, 'same');
+    const second = SecretUtils.encrypt(key, 'same');
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+
+  it('refuses a tampered ciphertext', () => {
+    const secret = SecretUtils.encrypt(key, 'secret');
+    const data = Buffer.from(secret.data, 'base64');
+    data[0] ^= 0xff;
+    expect(() => SecretUtils.decrypt(key, { ...secret, data: data.toString('base64') })).toThrow();
+  });
+
+  it('refuses the wrong key', () => {
+    const secret = SecretUtils.encrypt(key, 'secret');
+    expect(() => SecretUtils.decrypt(SecretUtils.generateKey(), secret)).toThrow();
+  });
+});
+
+describe('SecretUtils masking', () => {
+  it('masks remote_password lines in a generated config', () => {
+    const config = 'connection boat\nremote_username skipper\n  remote_password hunter2\n';
+    expect(SecretUtils.maskConfig(config)).toBe(
+      `connection boat\nremote_username skipper\n  remote_password ${SecretUtils.MASK}\n`
+    );
+  });
+
+  it('masks and strips bridge passwords without touching the original', () => {
+    const bridge: BridgeConfig = {
+      id: 'boat',
+      enabled: true,
+      name: 'Boat',
+      remoteHost: 'broker.example.com',
+      remotePort: 1883,
+      remotePassword: 'hunter2',
+      topics: [],
+      tlsEnabled: false,
+      keepalive: 60,
+      cleanSession: true,
+      tryPrivate: true,
+    };
+    expect(SecretUtils.maskBridge(bridge).remotePassword).toBe(SecretUtils.MASK);
+    expect('remotePassword' in SecretUtils.stripBridge(bridge)).toBe(false);
+    expect(bridge.remotePassword).toBe('hunter2');
+  });
+});
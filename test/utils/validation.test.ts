@@ -0,0 +1,165 @@
+import { BridgeConfig, ListenerConfig } from '../../src/types/interfaces';
+import { ValidationUtils } from '../../src/utils/validation';
+
+describe('ValidationUtils.parseMosquittoOutput', () => {
+  const testConfigFile = '/tmp/mosquitto-validate-abc/mosquitto.conf';
+  const originalLines = [
+    '# Listener: MQTT',
+    'listener 1883',
+    '  max_connections nope',
+    'connection boat',
+    'address 10.0.0.2:1883',
+  ];
+  // The test config drops the comment, so its lines sit one above the original ones
+  const lineMap = [2, 3, 4, 5];
+
+  it('maps an error location back to the original line and directive', () => {
+    const output = [
+      '1718000000: Error: Invalid max_connections value (nope).',
+      `1718000000: Error found at ${testConfigFile}:2.`,
+    ].join('\n');
+
+    expect(
+      ValidationUtils.parseMosquittoOutput(output, testConfigFile, lineMap, originalLines)
+    ).toEqual([
+      { message: 'Invalid max_connections value (nope).', line: 3, directive: 'max_connections' },
+    ]);
+  });
+
+  it('keeps errors without a location', () => {
+    const output = 'Error: Unable to open include_dir /nowhere.\n';
+
+    expect(
+      ValidationUtils.parseMosquittoOutput(output, testConfigFile, lineMap, originalLines)
+    ).toEqual([{ message: 'Unable to open include_dir /nowhere.' }]);
+  });
+
+  it('ignores locations in other files', () => {
+    const output = ['Error: Empty password file.', 'Error found at /etc/mosquitto/passwd:1.'].join(
+      '\n'
+    );
+
+    expect(
+      ValidationUtils.parseMosquittoOutput(output, testConfigFile, lineMap, originalLines)
+    ).toEqual([{ message: 'Empty password file.' }]);
+  });
+
+  it('leaves an error unlocated when the test config line has no original', () => {
+    const output = ['Error: Duplicate listener.', `Error found at ${testConfigFile}:5.`].join('\n');
+
+    expect(
+      ValidationUtils.parseMosquittoOutput(
+        output,
+        testConfigFile,
+        [...lineMap, null],
+        originalLines
+      )
+    ).toEqual([{ message: 'Duplicate listener.' }]);
+  });
+
+  it('skips informational lines and a location with no preceding error', () => {
+    const output = [
+      `Error found at ${testConfigFile}:1.`,
+      '1718000000: mosquitto version 2.0.18 starting',
+      '1718000000: Config loaded from /tmp/mosquitto.conf.',
+      '',
+    ].join('\n');
+
+    expect(
+      ValidationUtils.parseMosquittoOutput(output, testConfigFile, lineMap, originalLines)
+    ).toEqual([]);
+  });
+
+  it('attaches each location to the error just before it', () => {
+    const output = [
+      'Error: Invalid max_connections value (nope).',
+      `Error found at ${testConfigFile}:2.`,
+      'Error: Invalid bridge address.',
+      `Error found at ${testConfigFile}:4.`,
+    ].join('\n');
+
+    const errors = ValidationUtils.parseMosquittoOutput(
+      output,
+      testConfigFile,
+      lineMap,
+      originalLines
+    );
+    expect(errors.map(error => [error.line, error.directive])).toEqual([
+      [3, 'max_connections'],
+      [5, 'address'],
+    ]);
+  });
+});
+
+describe('ValidationUtils.validateListener', () => {
+  const listener: ListenerConfig = {
+    id: 'lan',
+    enabled: true,
+    name: 'LAN',
+    port: 1883,
+    protocol: 'mqtt',
+    authMode: 'password',
+    tlsEnabled: false,
+  };
+
+  it('accepts a plain listener', () => {
+    expect(ValidationUtils.validateListener(listener)).toEqual([]);
+  });
+
+  it.each([
+    ['name', { name: 'LAN\nallow_anonymous true' }],
+    ['id', { id: 'lan\r\nlistener 1884' }],
+    ['mount point', { mountPoint: 'boat/\u0000' }],
+  ])('rejects control characters in the %s', (_field, change) => {
+    expect(ValidationUtils.validateListener({ ...listener, ...change })).toContain(
+      'Listener ID, name and mount point must not contain control characters'
+    );
+  });
+
+  it('rejects control characters in TLS paths', () => {
+    expect(
+      ValidationUtils.validateListener({
+        ...listener,
+        tlsEnabled: true,
+        tlsCertPath: '/etc/cert.pem\nallow_anonymous true',
+        tlsKeyPath: '/etc/key.pem',
+      })
+    ).toEqual(['Invalid TLS certificate path']);
+  });
+});
+
+describe('ValidationUtils.validateBridge', () => {
+  const bridge: BridgeConfig = {
+    id: 'boat',
+    enabled: true,
+    name: 'Boat',
+    remoteHost: 'broker.example.com',
+    remotePort: 1883,
+    remoteUsername: 'skipper',
+    topics: [
+      { pattern: '#', direction: 'out', qos: 0, localPrefix: 'vessels/', remotePrefix: 'boat/' },
+    ],
+    tlsEnabled: false,
+    keepalive: 60,
+    cleanSession: true,
+    tryPrivate: true,
+  };
+
+  it('accepts a plain bridge', () => {
+    expect(ValidationUtils.validateBridge(bridge)).toEqual([]);
+  });
+
+  it.each([
+    ['Bridge name', { name: 'Boat\nallow_anonymous true' }],
+    ['Bridge ID', { id: 'boat\nlistener 1884' }],
+    ['Remote username', { remoteUsername: 'skipper\r\nremote_password x' }],
+    ['Local client ID', { localClientId: 'local\u0000' }],
+    ['Remote client ID', { remoteClientId: 'remote\u001b' }],
+    ['Remote password', { remotePassword: 'secret\nallow_anonymous true' }],
+    ['Topic 1: remote prefix', { topics: [{ ...bridge.topics[0], remotePrefix: 'boat/\u0007' }] }],
+  ])('rejects control characters in the %s', (label, change) => {
+    expect(ValidationUtils.validateBridge({ ...bridge, ...change })).toContain(
+      `${label} must not contain control characters`
+    );
+  });
+});